@@ -1,23 +1,54 @@
 import typescript from '@rollup/plugin-typescript';
 
-export default {
+const compilerOptions = {
+  allowSyntheticDefaultImports: true,
+  outDir: 'dist',
+  rootDir: 'src',
+  lib: [
+    "es2015",
+    "es2016",
+    "es2017",
+    "es2018",
+    "es2019",
+    "dom",
+  ],
+  target: "ES6"
+};
+
+export default [{
+  // CommonJS, so both require & import work without "type": "module", and __dirname exists
   input: 'src/RFO.ts',
   output: {
     dir: 'dist',
-    format: 'esm',
+    format: 'cjs',
+    entryFileNames: '[name].cjs',
+    interop: 'auto',
   },
   plugins: [typescript({
-    allowSyntheticDefaultImports: true,
+    ...compilerOptions,
     declaration: true,
-    outDir: 'dist',
-    rootDir: 'src',
-    lib: [
-      "es2015",
-      "es2016",
-      "es2017",
-      "es2018",
-      "es2019",
-    ],
-    target: "ES6"
   })],
-};
+}, {
+  // Selections, resolution & merging only - a Node builtin reaching this bundle fails the build
+  input: 'src/RFOCore.ts',
+  output: {
+    file: 'dist/browser.mjs',
+    format: 'esm',
+  },
+  external: ['json5', 'toml'],
+  onwarn(warning, warn) {
+    if (warning.code === 'UNRESOLVED_IMPORT')
+      throw new Error(`${warning.exporter} is not available in browsers, imported by ${warning.id}`);
+    warn(warning);
+  },
+  plugins: [typescript(compilerOptions)],
+}, {
+  input: 'src/CLI.ts',
+  output: {
+    file: 'dist/cli.cjs',
+    format: 'cjs',
+    banner: '#!/usr/bin/env node',
+    interop: 'auto',
+  },
+  plugins: [typescript(compilerOptions)],
+}];
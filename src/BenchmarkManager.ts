@@ -0,0 +1,363 @@
+import { FlagDiff, SettingsBackup } from './SettingsBackup';
+import { Profile } from './ProfileManager';
+import { MemoryStorage, StorageAdapter } from './Storage';
+
+export type BenchmarkStats = {
+  /** Frames sampled */
+  frames: number;
+  /** Sum of every frame time, in ms */
+  duration: number;
+  /** Mean frame time in ms */
+  meanFrameTime: number;
+  /** Median frame time in ms */
+  p50FrameTime: number;
+  /** 95th percentile frame time in ms */
+  p95FrameTime: number;
+  /** 99th percentile frame time in ms */
+  p99FrameTime: number;
+  /** Fastest frame in ms */
+  minFrameTime: number;
+  /** Slowest frame in ms */
+  maxFrameTime: number;
+  /** Frames per second over the whole run */
+  averageFps: number;
+  /** 1% low FPS - the FPS of the 99th percentile frame time */
+  lowFps: number;
+}
+export type BenchmarkSource = {
+  /** File the frame times were read from */
+  file: string;
+  /** How it was parsed */
+  format: 'csv' | 'log';
+  /** Frame times found in it */
+  frames: number;
+}
+export type BenchmarkRun = {
+  /** Format version */
+  version: 1;
+  /** Run name */
+  name: string;
+  /** When the run was recorded, in ms since epoch */
+  createdAt: number;
+  /** Roblox install the flags were applied to, if any */
+  installPath: string | null;
+  /** The flags the run was recorded with */
+  flags: Record<string, any>;
+  /** Selections the flags came from, if flag lists were processed */
+  profile: Profile | null;
+  /** Files the frame times were read from */
+  sources: BenchmarkSource[];
+  /** Summary statistics */
+  stats: BenchmarkStats;
+}
+export type BenchmarkMetric = {
+  /** Statistic, e.g. averageFps */
+  metric: keyof BenchmarkStats;
+  baseline: number;
+  candidate: number;
+  /** candidate - baseline */
+  change: number;
+  /** Change relative to the baseline in %, null if the baseline is 0 */
+  changePercent: number | null;
+  /** Whether the candidate is better - null if it is the same */
+  better: boolean | null;
+}
+export type BenchmarkComparison = {
+  /** Baseline run name */
+  baseline: string;
+  /** Candidate run name */
+  candidate: string;
+  /** Compared statistics */
+  metrics: BenchmarkMetric[];
+  /** How the flags of the candidate differ from the baseline */
+  flags: FlagDiff;
+}
+
+/**
+  * Records frame-time benchmarks against the flags they were run with, and compares them - to check whether a list or feature does what it claims.
+  * Frame times are read from CSVs (PresentMon, MangoHud, CapFrameX exports or a plain column of ms) and Roblox client logs.
+  * Runs are kept as <name>.json in a {@link StorageAdapter} - in memory unless one is given.
+  * @example ```ts
+  * const benchmarks = new BenchmarkManager(new NodeStorage('./benchmarks'));
+  * const { frameTimes, sources } = await BenchmarkManager.read(new NodeStorage(), './captures/vulkan');
+  * await benchmarks.save(BenchmarkManager.record('Vulkan', frameTimes, { flags, sources }));
+  * BenchmarkManager.compare(await benchmarks.load('D3D11'), await benchmarks.load('Vulkan')).metrics; // => [{ metric: 'meanFrameTime', change: -2.1, better: true, ... }, ...]
+  * ```
+  */
+export class BenchmarkManager {
+  /** Current run format version */
+  public static version = 1 as const;
+  /** Statistics compared between runs, and whether higher values are better */
+  public static metrics: [keyof BenchmarkStats, 'higher' | 'lower'][] = [
+    ['averageFps', 'higher'],
+    ['lowFps', 'higher'],
+    ['meanFrameTime', 'lower'],
+    ['p50FrameTime', 'lower'],
+    ['p95FrameTime', 'lower'],
+    ['p99FrameTime', 'lower'],
+    ['maxFrameTime', 'lower'],
+  ];
+  /** CSV columns holding frame times in ms, lowercased without spaces, underscores or brackets */
+  public static frameTimeColumns = ['msbetweenpresents', 'frametime', 'frametimems', 'frametimes', 'ms'];
+  /** CSV columns holding FPS */
+  public static fpsColumns = ['fps', 'framerate'];
+
+  constructor(public storage: StorageAdapter = new MemoryStorage()) { }
+
+  /**
+    * Reads frame times from a CSV. The first row naming a frame time (or FPS) column is the header, so tool preambles are skipped - without one, the first column is taken as frame times.
+    * @param {string} text CSV
+    * @returns {number[]} Frame times in ms
+    * @example ```ts
+    * BenchmarkManager.parseCsv('Application,MsBetweenPresents\nRobloxPlayerBeta.exe,16.6\nRobloxPlayerBeta.exe,17.1'); // => [16.6, 17.1]
+    * BenchmarkManager.parseCsv('fps\n60\n120'); // => [16.666..., 8.333...]
+    * ```
+    */
+  public static parseCsv(text: string): number[] {
+    const rows = text.split(/\r?\n/).filter((line) => line.trim() !== '').map((line) => line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')));
+    // Earlier names win, e.g. MsBetweenPresents over a later ms column
+    const column = (names: string[], row: string[]) => {
+      const cells = row.map((cell) => cell.toLowerCase().replace(/[\s_()[\]]/g, ''));
+      return names.map((name) => cells.indexOf(name)).find((index) => index !== -1) ?? -1;
+    };
+    let start = 0, index = 0, fps = false;
+    const header = rows.findIndex((row) => column(this.frameTimeColumns, row) !== -1 || column(this.fpsColumns, row) !== -1);
+    if (header !== -1) {
+      start = header + 1;
+      index = column(this.frameTimeColumns, rows[header]);
+      if (index === -1) {
+        index = column(this.fpsColumns, rows[header]);
+        fps = true;
+      }
+    }
+    const frameTimes: number[] = [];
+    for (const row of rows.slice(start)) {
+      const value = Number(row[index]);
+      // Skips a header nothing matched, units rows & dropped samples
+      if (!Number.isFinite(value) || value <= 0) continue;
+      frameTimes.push(fps ? 1000 / value : value);
+    }
+    return frameTimes;
+  }
+
+  /**
+    * Reads frame times from a Roblox client log, or any log with one "frame time: <ms>" or "fps: <n>" sample per line.
+    * @param {string} text Log
+    * @returns {number[]} Frame times in ms
+    * @example ```ts
+    * BenchmarkManager.parseLog('2024-05-01T12:00:00.000Z,1.5,1a2b,6 [FLog::RenderPerf] FrameTime: 16.4ms\n... fps=60'); // => [16.4, 16.666...]
+    * ```
+    */
+  public static parseLog(text: string): number[] {
+    const frameTimes: number[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const frameTime = /frame[\s_-]?time\s*[:=]\s*(\d+(?:\.\d+)?)\s*ms/i.exec(line);
+      if (frameTime) {
+        if (Number(frameTime[1]) > 0) frameTimes.push(Number(frameTime[1]));
+        continue;
+      }
+      const fps = /\bfps\s*[:=]\s*(\d+(?:\.\d+)?)/i.exec(line);
+      if (fps && Number(fps[1]) > 0) frameTimes.push(1000 / Number(fps[1]));
+    }
+    return frameTimes;
+  }
+
+  /**
+    * Reads frame times from a file - .csv files as CSVs, anything else as a log.
+    * @param {string} text Contents
+    * @param {string} file File name
+    * @returns {{ format: 'csv' | 'log'; frameTimes: number[] }} Format & frame times in ms
+    */
+  public static parseFrameTimes(text: string, file: string): { format: 'csv' | 'log'; frameTimes: number[] } {
+    return /\.csv$/i.test(file)
+      ? { format: 'csv', frameTimes: this.parseCsv(text) }
+      : { format: 'log', frameTimes: this.parseLog(text) };
+  }
+
+  /**
+    * Reads the frame times of every .csv, .log & .txt file directly in a directory.
+    * @param {StorageAdapter} storage Where the directory is
+    * @param {string} dir Directory
+    * @returns {Promise<{ frameTimes: number[]; sources: BenchmarkSource[] }>} Frame times in ms, in file order, and where they came from
+    * @throws If no frame times were found
+    */
+  public static async read(storage: StorageAdapter, dir: string): Promise<{ frameTimes: number[]; sources: BenchmarkSource[] }> {
+    const frameTimes: number[] = [];
+    const sources: BenchmarkSource[] = [];
+    for (const file of await storage.list(dir)) {
+      if (!/\.(csv|log|txt)$/i.test(file)) continue;
+      const text = await storage.read(`${dir}/${file}`);
+      if (text === undefined) continue;
+      const parsed = this.parseFrameTimes(text, file);
+      frameTimes.push(...parsed.frameTimes);
+      sources.push({ file, format: parsed.format, frames: parsed.frameTimes.length });
+    }
+    if (frameTimes.length === 0) throw new Error('No frame times found in ' + dir);
+    return { frameTimes, sources };
+  }
+
+  /**
+    * Nearest-rank percentile.
+    * @param {number[]} sorted Values, sorted ascending
+    * @param {number} percentile Percentile, 0 to 100
+    * @returns {number} Value
+    */
+  public static percentile(sorted: number[], percentile: number): number {
+    if (sorted.length === 0) return NaN;
+    const rank = Math.ceil(percentile / 100 * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+  }
+
+  /**
+    * Computes summary statistics of frame times.
+    * @param {number[]} frameTimes Frame times in ms
+    * @returns {BenchmarkStats} Statistics
+    * @throws If there are no frame times
+    */
+  public static stats(frameTimes: number[]): BenchmarkStats {
+    if (frameTimes.length === 0) throw new Error('No frame times to compute statistics of');
+    const sorted = [...frameTimes].sort((a, b) => a - b);
+    const duration = sorted.reduce((sum, frameTime) => sum + frameTime, 0);
+    const p99FrameTime = this.percentile(sorted, 99);
+    return {
+      frames: sorted.length,
+      duration,
+      meanFrameTime: duration / sorted.length,
+      p50FrameTime: this.percentile(sorted, 50),
+      p95FrameTime: this.percentile(sorted, 95),
+      p99FrameTime,
+      minFrameTime: sorted[0],
+      maxFrameTime: sorted[sorted.length - 1],
+      averageFps: 1000 * sorted.length / duration,
+      lowFps: 1000 / p99FrameTime,
+    };
+  }
+
+  /**
+    * Creates a run from frame times.
+    * @param {string} name Run name
+    * @param {number[]} frameTimes Frame times in ms
+    * @param {object} options flags the run was recorded with, the install they were applied to, the profile they came from & where the frame times were read from
+    * @returns {BenchmarkRun} Run
+    */
+  public static record(name: string, frameTimes: number[], options: { flags?: Record<string, any>; installPath?: string; profile?: Profile; sources?: BenchmarkSource[] } = {}): BenchmarkRun {
+    return {
+      version: this.version,
+      name,
+      createdAt: Date.now(),
+      installPath: options.installPath ?? null,
+      flags: { ...options.flags },
+      profile: options.profile ?? null,
+      sources: options.sources ?? [],
+      stats: this.stats(frameTimes),
+    };
+  }
+
+  /**
+    * Compares a candidate run against a baseline.
+    * @param {BenchmarkRun} baseline Baseline, e.g. without a list
+    * @param {BenchmarkRun} candidate Candidate, e.g. with it
+    * @returns {BenchmarkComparison} Change of every statistic, and of the flags
+    */
+  public static compare(baseline: BenchmarkRun, candidate: BenchmarkRun): BenchmarkComparison {
+    return {
+      baseline: baseline.name,
+      candidate: candidate.name,
+      metrics: this.metrics.map(([metric, direction]) => {
+        const change = candidate.stats[metric] - baseline.stats[metric];
+        return {
+          metric,
+          baseline: baseline.stats[metric],
+          candidate: candidate.stats[metric],
+          change,
+          changePercent: baseline.stats[metric] === 0 ? null : change / baseline.stats[metric] * 100,
+          better: change === 0 ? null : (change > 0) === (direction === 'higher'),
+        };
+      }),
+      flags: SettingsBackup.diff(baseline.flags, candidate.flags),
+    };
+  }
+
+  /**
+    * Describes a compared statistic.
+    * @param {BenchmarkMetric} metric Compared statistic
+    * @returns {string} Description
+    * @example ```ts
+    * BenchmarkManager.describe(comparison.metrics[0]); // => 'averageFps: 58.20 -> 71.40 (+22.68%, better)'
+    * ```
+    */
+  public static describe(metric: BenchmarkMetric): string {
+    const sign = metric.change > 0 ? '+' : '';
+    const change = metric.changePercent === null ? `${sign}${metric.change.toFixed(2)}` : `${sign}${metric.changePercent.toFixed(2)}%`;
+    const verdict = metric.better === null ? 'same' : metric.better ? 'better' : 'worse';
+    return `${metric.metric}: ${metric.baseline.toFixed(2)} -> ${metric.candidate.toFixed(2)} (${change}, ${verdict})`;
+  }
+
+  /**
+    * Parses a run, checking its format version.
+    * @param {string} text Run JSON
+    * @returns {BenchmarkRun} Run
+    */
+  public static parse(text: string): BenchmarkRun {
+    const run = JSON.parse(text);
+    if (typeof run !== 'object' || run === null || typeof run.stats !== 'object')
+      throw new Error('Invalid benchmark run');
+    if (run.version !== this.version)
+      throw new Error(`Unsupported benchmark run version: ${run.version}`);
+    return run;
+  }
+
+  /**
+    * Serializes a run.
+    * @param {BenchmarkRun} run Run
+    * @returns {string} JSON
+    */
+  public static stringify(run: BenchmarkRun): string {
+    return JSON.stringify(run, null, 2);
+  }
+
+  /**
+    * Saves a run under its name, replacing an earlier run of the same name.
+    * @param {BenchmarkRun} run Run
+    */
+  public async save(run: BenchmarkRun): Promise<void> {
+    await this.storage.write(this.file(run.name), BenchmarkManager.stringify(run));
+  }
+
+  /**
+    * Loads a run by name.
+    * @param {string} name Run name
+    * @returns {Promise<BenchmarkRun>} Run
+    */
+  public async load(name: string): Promise<BenchmarkRun> {
+    const text = await this.storage.read(this.file(name));
+    if (text === undefined) throw new Error('Benchmark run does not exist: ' + name);
+    return BenchmarkManager.parse(text);
+  }
+
+  /**
+    * Lists saved run names.
+    * @returns {Promise<string[]>} Run names
+    */
+  public async list(): Promise<string[]> {
+    const files = await this.storage.list('');
+    return files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length)).sort();
+  }
+
+  /**
+    * Deletes a saved run.
+    * @param {string} name Run name
+    */
+  public async delete(name: string): Promise<void> {
+    await this.storage.delete(this.file(name));
+  }
+
+  /**
+    * Internal Method
+    */
+  private file(name: string): string {
+    if (!/^[\w .-]+$/.test(name) || name.startsWith('.'))
+      throw new Error('Invalid benchmark run name: ' + name);
+    return `${name}.json`;
+  }
+}
@@ -0,0 +1,673 @@
+import { existsSync, readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import prompts from 'prompts';
+import { RFO } from './RFO';
+import { FlagListValidator, ValidationIssue } from './FlagListValidator';
+import { FlagListBuilder, FlagListFormat } from './FlagListBuilder';
+import { writeFileAtomic } from './FsUtil';
+import { ProcessedFeature, ProcessedFlagListItem } from './FlagListPreprocessor';
+import { ProfileManager } from './ProfileManager';
+import { SettingsDiff } from './SettingsBackup';
+import { SelectionResolver } from './SelectionResolver';
+
+type CLIOptions = {
+  profile: string;
+  'profile-file'?: string;
+  set?: string[];
+  enable?: string[];
+  disable?: string[];
+  offline?: boolean;
+  yes?: boolean;
+  'dry-run'?: boolean;
+  'no-backup'?: boolean;
+  list?: boolean;
+  json?: boolean;
+  out?: string;
+  format?: string;
+  dir?: string;
+  verbose?: boolean;
+  quiet?: boolean;
+  help?: boolean;
+}
+
+/**
+  * Command-line interface for the whole RFO workflow.
+  * Selections are kept in a profile (default: "default"), so `select` and `apply` can run separately.
+  * @example ```sh
+  * rfo select                                   # interactive picker
+  * rfo select --set "Performance/FPS Cap=240" --enable Graphics --yes
+  * rfo apply --dry-run
+  * rfo restore --list
+  * ```
+  */
+export class CLI {
+  public static usage = `Usage: rfo <command> [options]
+
+Commands:
+  fetch, preprocess     Download & preprocess all flag lists
+  update                Re-fetch all flag lists & refresh the lockfile, showing what changed
+  list                  Show flag lists, features & options
+  select                Pick lists & options - interactive unless --set/--enable/--disable/--profile-file/--yes is given
+  apply                 Apply the selected flags to every Roblox install
+  status                Show Roblox installs & the flags currently applied to them
+  import                Classify the flags already in ClientAppSettings.json & select the lists they came from
+  diff                  Show what apply would change
+  export <file>         Write the selected flags to a file - JSON, or a TOML fflags table for .toml
+  watch                 Keep flags applied across Roblox updates, until interrupted
+  restore [id]          Restore a ClientAppSettings.json backup - the newest one if no id is given
+  lint <file...>        Validate flag list files
+  build <dir>           Build a flag list from a directory of flag files & its manifest.json5
+  verify <file|url>     Validate a published flag list & check every file against its digest
+  audit <snapshot>      Find unknown, mistyped & default flags in the selected flags & every flag list, against known flags (e.g. FVariables.txt)
+  registry <url>        Show the flag lists a registry offers - add it to urls.registries in config.json5 to use them
+  bench <name> <dir>    Record a benchmark run from the frame-time CSVs & client logs in dir, against the flags currently applied
+  compare <a> <b>       Compare benchmark run b against baseline a
+
+Options:
+  --profile <name>        Profile to read & save selections in (default: default)
+  --profile-file <file>   Read selections from a profile file instead
+  --set <list/feature=a,b>  Select options of a feature (repeatable)
+  --enable <list>         Enable a flag list (repeatable)
+  --disable <list>        Disable a flag list (repeatable)
+  --offline               Resolve flag lists from the cache & lockfile only
+  -y, --yes               Never prompt
+  --dry-run               apply: only show the changes, import: only show the analysis
+  --no-backup             apply: don't back up ClientAppSettings.json
+  --list                  restore: list backups, bench: list benchmark runs
+  --json                  Print machine-readable JSON
+  --out <file>            build: where to write the list (default: <dir>/flaglists.<format>)
+  --format <format>       build: json5, json or toml (default: json5, or by --out extension)
+  --dir <dir>             verify: read files from this directory instead of the list's baseurl
+  -v, --verbose           Show progress - with dev mode on, diagnostics too
+  -q, --quiet             Only show errors
+  -h, --help              Show this help`;
+
+  public rfo = new RFO();
+  public options: CLIOptions = { profile: 'default' };
+
+  /**
+    * Runs a command.
+    * @param {string[]} argv Arguments, without the node & script paths
+    * @returns {Promise<number>} Exit code
+    */
+  public async run(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        profile: { type: 'string', default: 'default' },
+        'profile-file': { type: 'string' },
+        set: { type: 'string', multiple: true },
+        enable: { type: 'string', multiple: true },
+        disable: { type: 'string', multiple: true },
+        offline: { type: 'boolean' },
+        yes: { type: 'boolean', short: 'y' },
+        'dry-run': { type: 'boolean' },
+        'no-backup': { type: 'boolean' },
+        list: { type: 'boolean' },
+        json: { type: 'boolean' },
+        out: { type: 'string' },
+        format: { type: 'string' },
+        dir: { type: 'string' },
+        verbose: { type: 'boolean', short: 'v' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    this.options = values as CLIOptions;
+    const [command, ...args] = positionals;
+    this.rfo.events.level = this.options.quiet ? 'error' : this.options.verbose ? 'debug' : 'warn';
+    this.rfo.events.on('log', (entry) => console.error(entry.level === 'error' || entry.level === 'warn' ? `${entry.level}: ${entry.message}` : entry.message));
+    if (this.options.offline)
+      this.rfo.preprocessor.configOverrides = { ...this.rfo.preprocessor.configOverrides, lock: { offline: true } };
+    if (this.options.help || !command) {
+      console.log(CLI.usage);
+      return command || this.options.help ? 0 : 1;
+    }
+    switch (command) {
+      case 'fetch':
+      case 'preprocess':
+        return await this.fetch();
+      case 'update':
+        return await this.update();
+      case 'list':
+        return await this.list();
+      case 'select':
+        return await this.select();
+      case 'apply':
+        return await this.apply();
+      case 'status':
+        return await this.status();
+      case 'import':
+        return await this.importSettings();
+      case 'diff':
+        return await this.diff();
+      case 'export':
+        return await this.exportFlags(args[0]);
+      case 'watch':
+        return await this.watch();
+      case 'restore':
+        return await this.restore(args[0]);
+      case 'lint':
+        return this.lint(args);
+      case 'build':
+        return await this.build(args[0]);
+      case 'verify':
+        return await this.verify(args[0]);
+      case 'audit':
+        return await this.audit(args[0]);
+      case 'registry':
+        return await this.registry(args[0]);
+      case 'bench':
+        return await this.bench(args[0], args[1]);
+      case 'compare':
+        return await this.compare(args[0], args[1]);
+      default:
+        console.error(`Unknown command: ${command}\n\n${CLI.usage}`);
+        return 1;
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private async fetch(): Promise<number> {
+    await this.rfo.preprocessFlags(true);
+    const lists = this.rfo.processedFlagList.flatMap((processedFlagList) => Object.values(processedFlagList));
+    console.log(`Preprocessed ${lists.length} flag lists with ${lists.reduce((count, list) => count + list.features.length, 0)} features`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async update(): Promise<number> {
+    const changes = await this.rfo.updateFlags();
+    if (this.options.json) {
+      console.log(JSON.stringify(changes, null, 2));
+      return 0;
+    }
+    for (const url of changes.added) console.log(`+ ${url}`);
+    for (const url of changes.removed) console.log(`- ${url}`);
+    for (const { url } of changes.changed) console.log(`~ ${url}`);
+    console.log(`${changes.addedFiles.length} flag files added, ${changes.removedFiles.length} removed`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async list(): Promise<number> {
+    await this.loadSelections();
+    const lists = this.lists();
+    if (this.options.json) {
+      console.log(JSON.stringify(lists.map(([key, list]) => ({
+        key,
+        id: list.id,
+        enabled: list.enabled,
+        constraints: list.constraints,
+        features: list.features.map((feature) => ({ name: feature.name, question: feature.question, multiple: feature.multiple, min: feature.min, max: feature.max, options: Object.keys(feature.options), value: feature.value, constraints: feature.constraints, optionConstraints: feature.optionConstraints })),
+      })), null, 2));
+      return 0;
+    }
+    for (const [key, list] of lists) {
+      console.log(`[${list.enabled ? 'x' : ' '}] ${key}`);
+      for (const feature of list.features) {
+        if (!SelectionResolver.isAvailable(feature.constraints, this.rfo.platform)) continue;
+        console.log(`    ${feature.name}${feature.multiple ? ` (pick ${feature.min}-${feature.max})` : ''}`);
+        const selected = Array.isArray(feature.value) ? feature.value : [feature.value];
+        for (const option of Object.keys(feature.options))
+          console.log(`      ${selected.includes(option) ? '*' : '-'} ${option}`);
+      }
+    }
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async select(): Promise<number> {
+    await this.loadSelections();
+    const nonInteractive = this.options.yes || this.options['profile-file'] || this.options.set || this.options.enable || this.options.disable;
+    if (nonInteractive)
+      this.applyArgumentSelections();
+    else if (!await this.promptSelections())
+      return 1;
+    const profile = await this.rfo.saveProfile(this.options.profile);
+    console.log(`Saved selections to profile ${profile.name}`);
+    for (const violation of SelectionResolver.check(this.rfo.processedFlagList, this.rfo.platform))
+      console.warn(`Cannot be applied: ${violation.message}`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async apply(): Promise<number> {
+    await this.loadSelections();
+    this.applyArgumentSelections();
+    await this.rfo.findRoblox();
+    await this.rfo.applyFlags({ dryRun: this.options['dry-run'], backup: !this.options['no-backup'] });
+    this.printDiffs(this.rfo.lastApply);
+    if (!this.options['dry-run'])
+      console.log(`Applied flags to ${this.rfo.robloxPaths.length} Roblox installs`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async status(): Promise<number> {
+    await this.rfo.findRoblox();
+    const installs = [];
+    for (const install of this.rfo.robloxInstalls) {
+      const applier = this.rfo.applierFor(install.path);
+      const flags = existsSync(applier.target(install.path)) ? await applier.read(install.path) : null;
+      installs.push({ ...install, applier: applier.name, flags });
+    }
+    if (this.options.json) {
+      console.log(JSON.stringify(installs, null, 2));
+      return 0;
+    }
+    if (installs.length === 0) console.log('No Roblox installs found');
+    for (const install of installs) {
+      const tags = [install.kind, install.launcher, install.applier, install.active ? 'active' : install.latest ? 'latest' : 'stale'];
+      console.log(`${install.path} (${tags.join(', ')}, modified ${new Date(install.mtime).toLocaleString()}): ${install.flags ? `${Object.keys(install.flags).length} flags applied` : 'no flags applied'}`);
+    }
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async importSettings(): Promise<number> {
+    await this.rfo.preprocessFlags(true);
+    await this.rfo.findRoblox();
+    const imports = await this.rfo.importSettings();
+    if (this.options.json) console.log(JSON.stringify(imports, null, 2));
+    else for (const imported of imports) {
+      const count = (kind: string) => imported.flags.filter((flag) => flag.kind === kind).length;
+      console.log(`${imported.file}: ${imported.flags.length} flags - ${count('list')} from flag lists, ${count('customized')} customized, ${count('unknown')} unknown`);
+      for (const [key, selection] of Object.entries(imported.lists)) {
+        if (!selection.enabled) continue;
+        console.log(`  [x] ${key}`);
+        for (const [featureName, value] of Object.entries(selection.features))
+          console.log(`        ${featureName}: ${Array.isArray(value) ? value.join(', ') : value}`);
+      }
+      for (const flag of Object.keys(imported.unmatched)) console.log(`  ! ${flag} = ${JSON.stringify(imported.unmatched[flag])}`);
+      if (imported.missing.length > 0) console.log(`  ${imported.missing.length} flags of the inferred lists are not set`);
+    }
+    if (this.options['dry-run']) return 0;
+    const imported = imports.find((imported) => imported.flags.length > 0);
+    if (!imported) {
+      console.log('No existing flags to import');
+      return 0;
+    }
+    const unmatched = Object.keys(imported.unmatched).length;
+    let keep = true;
+    if (unmatched > 0 && !this.options.yes && !this.options.json) {
+      const { value } = await prompts({ type: 'confirm', name: 'value', message: `Keep the ${unmatched} flags no flag list covers as overwrites?`, initial: true });
+      if (value === undefined) return 1;
+      keep = value;
+    }
+    for (const mismatch of this.rfo.adoptImport(imported, { overwrites: keep ? 'global' : false }))
+      console.warn(`Skipped ${mismatch.path}: ${mismatch.reason}`);
+    const profile = await this.rfo.saveProfile(this.options.profile);
+    if (!this.options.json) console.log(`Imported ${imported.file} into profile ${profile.name}`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async diff(): Promise<number> {
+    await this.loadSelections();
+    this.applyArgumentSelections();
+    await this.rfo.findRoblox();
+    this.printDiffs(await this.rfo.diffFlags());
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async exportFlags(file?: string): Promise<number> {
+    if (!file) {
+      console.error('export: no file given');
+      return 1;
+    }
+    await this.loadSelections();
+    this.applyArgumentSelections();
+    const flags = await this.rfo.exportFlags(file);
+    console.log(`Exported ${Object.keys(flags).length} flags to ${file}`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async watch(): Promise<number> {
+    await this.loadSelections();
+    this.applyArgumentSelections();
+    await this.rfo.findRoblox();
+    const watcher = this.rfo.createWatcher();
+    watcher.on('versionAdded', (versionPath) => console.log(`New Roblox version: ${versionPath}`));
+    watcher.on('drifted', (settingsFile, reason) => console.log(`${settingsFile} was ${reason}`));
+    watcher.on('applied', (robloxPaths) => console.log(`Applied flags to ${robloxPaths.join(', ')}`));
+    watcher.on('error', (error) => console.error(error.message));
+    await watcher.start();
+    console.log('Watching for Roblox updates - press Ctrl+C to stop');
+    await new Promise<void>((resolve) => process.once('SIGINT', () => resolve()));
+    watcher.stop();
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async restore(id?: string): Promise<number> {
+    if (this.options.list) {
+      const snapshots = await this.rfo.listBackups();
+      if (this.options.json) console.log(JSON.stringify(snapshots, null, 2));
+      else if (snapshots.length === 0) console.log('No backups found');
+      else for (const snapshot of snapshots)
+        console.log(`${snapshot.id}  ${new Date(snapshot.createdAt).toLocaleString()}  ${snapshot.installPath}${snapshot.existed ? '' : ' (no settings)'}`);
+      return 0;
+    }
+    if (id) {
+      const snapshot = await this.rfo.restore(id);
+      console.log(`Restored ${snapshot.file}`);
+      return 0;
+    }
+    await this.rfo.findRoblox();
+    for (const snapshot of await this.rfo.rollback())
+      console.log(`Restored ${snapshot.file}`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private lint(files: string[]): number {
+    if (files.length === 0) {
+      console.error('lint: no files given');
+      return 1;
+    }
+    let failed = false;
+    for (const file of files) {
+      const issues = FlagListValidator.validate(FlagListValidator.parse(readFileSync(file, 'utf-8'), file));
+      for (const issue of issues)
+        console.log(`${file}: ${issue.severity}: ${issue.path}: ${issue.message}`);
+      failed = failed || issues.some((issue) => issue.severity === 'error');
+    }
+    return failed ? 1 : 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async build(dir?: string): Promise<number> {
+    if (!dir) {
+      console.error('build: no directory given');
+      return 1;
+    }
+    const out = this.options.out;
+    const format = (this.options.format ?? (out?.endsWith('.toml') ? 'toml' : out?.endsWith('.json') ? 'json' : 'json5')) as FlagListFormat;
+    if (!['json5', 'json', 'toml'].includes(format)) throw new Error(`Invalid --format ${format}, expected json5, json or toml`);
+    const { flagList, issues, files } = await FlagListBuilder.build(dir);
+    this.printIssues(issues);
+    if (issues.some((issue) => issue.severity === 'error')) return 1;
+    const file = out ?? `${dir}/flaglists.${format}`;
+    await writeFileAtomic(file, FlagListBuilder.stringify(flagList, format));
+    console.log(`Built ${Object.keys(flagList).length} flag lists with ${files.length} files to ${file}`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async verify(source?: string): Promise<number> {
+    if (!source) {
+      console.error('verify: no flag list given');
+      return 1;
+    }
+    const remote = /^[a-z][a-z0-9+.-]*:\/\//i.test(source);
+    let text: string;
+    if (remote) {
+      const response = await this.rfo.preprocessor.http.get(source);
+      if (response.status !== 200) throw new Error(`Failed to fetch ${source}: ${response.status} ${response.statusText}`);
+      text = response.data.toString('utf-8');
+    } else text = readFileSync(source, 'utf-8');
+    const issues = await FlagListBuilder.verify(FlagListValidator.parse(text, source), { dir: this.options.dir, http: this.rfo.preprocessor.http, allowLocal: true });
+    this.printIssues(issues);
+    if (issues.some((issue) => issue.severity === 'error')) return 1;
+    if (!this.options.json) console.log(`${source} is intact`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async audit(snapshot?: string): Promise<number> {
+    if (!snapshot) {
+      console.error('audit: no snapshot given');
+      return 1;
+    }
+    const catalog = await RFO.FlagCatalog.load(snapshot);
+    await this.loadSelections();
+    const { merged, lists } = this.rfo.auditFlags(catalog);
+    if (this.options.json) {
+      console.log(JSON.stringify({ merged, lists }, null, 2));
+    } else {
+      console.log(`Selected flags (${merged.length} issues):`);
+      for (const issue of merged) console.log(`  ${RFO.FlagCatalog.describe(issue)}`);
+      console.log(`Flag lists (${lists.length} issues):`);
+      for (const issue of lists) console.log(`  ${RFO.FlagCatalog.describe(issue)}`);
+    }
+    return [...merged, ...lists].some((issue) => issue.kind !== 'default') ? 1 : 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async registry(url?: string): Promise<number> {
+    if (!url) {
+      console.error('registry: no registry given');
+      return 1;
+    }
+    const lists = await this.rfo.preprocessor.fetchRegistry({ url });
+    if (this.options.json) {
+      console.log(JSON.stringify(lists, null, 2));
+      return 0;
+    }
+    for (const list of lists) {
+      console.log(`${list.name}${list.namespace ? ` (${list.namespace})` : ''}: ${list.url}`);
+      if (list.description) console.log(`    ${list.description}`);
+    }
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async bench(name?: string, dir?: string): Promise<number> {
+    if (this.options.list) {
+      const runs = await Promise.all((await this.rfo.benchmarks.list()).map((run) => this.rfo.benchmarks.load(run)));
+      if (this.options.json) console.log(JSON.stringify(runs, null, 2));
+      else if (runs.length === 0) console.log('No benchmark runs found');
+      else for (const run of runs)
+        console.log(`${run.name}  ${new Date(run.createdAt).toLocaleString()}  ${run.stats.averageFps.toFixed(1)} FPS, ${run.stats.lowFps.toFixed(1)} 1% low, ${Object.keys(run.flags).length} flags`);
+      return 0;
+    }
+    if (!name || !dir) {
+      console.error('bench: no run name & directory given');
+      return 1;
+    }
+    await this.rfo.findRoblox();
+    // Without an install, the run is recorded against the selected flags
+    if (this.rfo.robloxPaths.length === 0) await this.loadSelections();
+    const run = await this.rfo.recordBenchmark(name, dir);
+    if (this.options.json) {
+      console.log(JSON.stringify(run, null, 2));
+      return 0;
+    }
+    const { stats } = run;
+    console.log(`${run.name}: ${stats.frames} frames from ${run.sources.length} files, ${Object.keys(run.flags).length} flags`);
+    console.log(`  ${stats.averageFps.toFixed(1)} FPS, ${stats.lowFps.toFixed(1)} 1% low`);
+    console.log(`  frame time: mean ${stats.meanFrameTime.toFixed(2)} ms, p50 ${stats.p50FrameTime.toFixed(2)} ms, p95 ${stats.p95FrameTime.toFixed(2)} ms, p99 ${stats.p99FrameTime.toFixed(2)} ms`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async compare(baseline?: string, candidate?: string): Promise<number> {
+    if (!baseline || !candidate) {
+      console.error('compare: no benchmark runs given');
+      return 1;
+    }
+    const comparison = await this.rfo.compareBenchmarks(baseline, candidate);
+    if (this.options.json) {
+      console.log(JSON.stringify(comparison, null, 2));
+      return 0;
+    }
+    console.log(`${candidate} against ${baseline}:`);
+    for (const metric of comparison.metrics) console.log(`  ${RFO.BenchmarkManager.describe(metric)}`);
+    const { added, removed, changed } = comparison.flags;
+    console.log(`Flags: ${added.length} added, ${removed.length} removed, ${changed.length} changed`);
+    for (const { flag, value } of added) console.log(`  + ${flag} = ${JSON.stringify(value)}`);
+    for (const { flag, value } of removed) console.log(`  - ${flag} = ${JSON.stringify(value)}`);
+    for (const { flag, before, after } of changed) console.log(`  ~ ${flag}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`);
+    return 0;
+  }
+
+  /**
+    * Internal Method
+    */
+  private printIssues(issues: ValidationIssue[]) {
+    if (this.options.json) console.log(JSON.stringify(issues, null, 2));
+    else for (const issue of issues) console.log(`${issue.severity}: ${issue.path}: ${issue.message}`);
+  }
+
+  /**
+    * Internal Method
+    */
+  private async loadSelections() {
+    await this.rfo.preprocessFlags(true);
+    const profileFile = this.options['profile-file'];
+    const profile = profileFile
+      ? ProfileManager.parse(readFileSync(profileFile, 'utf-8'))
+      : (await this.rfo.profiles.list()).includes(this.options.profile) ? await this.rfo.profiles.load(this.options.profile) : null;
+    if (!profile) return;
+    for (const mismatch of this.rfo.useProfile(profile))
+      console.warn(`Skipped ${mismatch.path}: ${mismatch.reason}`);
+  }
+
+  /**
+    * Internal Method
+    */
+  private applyArgumentSelections() {
+    for (const key of this.options.enable ?? []) this.rfo.enableList(key);
+    for (const key of this.options.disable ?? []) this.rfo.enableList(key, false);
+    for (const selection of this.options.set ?? []) {
+      const match = /^([^/]+)\/([^=]+)=(.*)$/.exec(selection);
+      if (!match) throw new Error(`Invalid --set ${selection}, expected list/feature=option[,option]`);
+      const [, key, featureName, value] = match;
+      const feature = this.findList(key).features.find((feature) => feature.name === featureName);
+      const values = value === '' ? [] : value.split(',');
+      this.rfo.setFeature(key, featureName, feature?.multiple || values.length !== 1 ? values : values[0]);
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private async promptSelections(): Promise<boolean> {
+    let cancelled = false;
+    const onCancel = () => {
+      cancelled = true;
+      return false;
+    };
+    for (const [key, list] of this.lists()) {
+      const { enabled } = await prompts({ type: 'confirm', name: 'enabled', message: `Enable ${key}?`, initial: list.enabled }, { onCancel });
+      if (cancelled) return false;
+      list.enabled = enabled;
+      if (!enabled) continue;
+      for (const feature of list.features) {
+        if (!SelectionResolver.isAvailable(feature.constraints, this.rfo.platform)) continue;
+        feature.value = await this.promptFeature(feature, onCancel);
+        if (cancelled) return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async promptFeature(feature: ProcessedFeature, onCancel: () => boolean): Promise<any> {
+    const options = Object.keys(feature.options);
+    const message = feature.question ?? feature.name;
+    if (feature.multiple) {
+      const { value } = await prompts({
+        type: 'multiselect',
+        name: 'value',
+        message,
+        min: feature.min,
+        max: feature.max,
+        choices: options.map((option) => ({ title: option, value: option, selected: feature.value.includes(option) })),
+      }, { onCancel });
+      return value ?? feature.value;
+    }
+    const { value } = await prompts({
+      type: 'select',
+      name: 'value',
+      message,
+      initial: Math.max(options.indexOf(feature.value as string), 0),
+      choices: options.map((option) => ({ title: option, value: option })),
+    }, { onCancel });
+    return value ?? feature.value;
+  }
+
+  /**
+    * Internal Method
+    */
+  private printDiffs(diffs: SettingsDiff[]) {
+    if (this.options.json) {
+      console.log(JSON.stringify(diffs, null, 2));
+      return;
+    }
+    for (const diff of diffs) {
+      console.log(`${diff.file}:`);
+      for (const { flag, value } of diff.added) console.log(`  + ${flag} = ${JSON.stringify(value)}`);
+      for (const { flag, value } of diff.removed) console.log(`  - ${flag} = ${JSON.stringify(value)}`);
+      for (const { flag, before, after } of diff.changed) console.log(`  ~ ${flag}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`);
+      if (diff.added.length + diff.removed.length + diff.changed.length === 0) console.log('  (no changes)');
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private lists(): [string, ProcessedFlagListItem][] {
+    return RFO.FlagListPreprocessor.entries(this.rfo.processedFlagList);
+  }
+
+  /**
+    * Internal Method
+    */
+  private findList(key: string): ProcessedFlagListItem {
+    const list = RFO.FlagListPreprocessor.findListItem(this.rfo.processedFlagList, key);
+    if (!list) throw new Error(`Unknown flag list ${key}`);
+    return list;
+  }
+}
+
+if (require.main === module) {
+  new CLI().run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  }, (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
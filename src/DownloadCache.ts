@@ -0,0 +1,317 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import { writeFileAtomic } from './FsUtil';
+
+export type CacheEntry = {
+  /** URL the entry was downloaded from */
+  source: string;
+  /** Hash algorithm the entry is keyed by */
+  algorithm: string;
+  /** Size in bytes */
+  size: number;
+  /** Last read or write, in ms since epoch */
+  lastUsed: number;
+}
+export type CacheIndex = Record<string, CacheEntry>
+export type EvictionOptions = {
+  /** Maximum total size in bytes - 0 to disable */
+  maxSize?: number;
+  /** Maximum time since last use in ms - 0 to disable */
+  maxAge?: number;
+  /** Entries used at or after this time are never evicted */
+  keepSince?: number;
+  /** Current time, defaults to Date.now() */
+  now?: number;
+}
+
+/**
+  * Storage backend for {@link DownloadCache}.
+  * Swap in a {@link MemoryCacheStore} to keep tests off the disk.
+  */
+export interface CacheStore {
+  /** Reads an entry - undefined if it does not exist */
+  read(key: string): Promise<Buffer | undefined>;
+  /** Writes an entry atomically */
+  write(key: string, data: Buffer): Promise<void>;
+  /** Deletes an entry, if it exists */
+  delete(key: string): Promise<void>;
+  /** Returns the location of an entry, as handed out by {@link FlagListPreprocessor.downloadFile} */
+  locate(key: string): string;
+  /** Reads the metadata index */
+  readIndex(): Promise<CacheIndex>;
+  /** Writes the metadata index */
+  writeIndex(index: CacheIndex): Promise<void>;
+}
+
+/**
+  * Stores cache entries as files in a directory, alongside an `index.json` metadata index.
+  * @example ```ts
+  * const store = new FsCacheStore('./_cache');
+  * ```
+  */
+export class FsCacheStore implements CacheStore {
+  constructor(public readonly root: string = '_cache') { }
+
+  public async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.locate(key));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  public async write(key: string, data: Buffer): Promise<void> {
+    await writeFileAtomic(this.locate(key), data);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.locate(key), { force: true });
+  }
+
+  public locate(key: string): string {
+    // Keys come from flag lists - anything but a hex digest could point outside root
+    if (!DownloadCache.isDigest(key)) throw new Error('Invalid cache key: ' + key);
+    return path.join(this.root, key);
+  }
+
+  public async readIndex(): Promise<CacheIndex> {
+    const index = await fs.readFile(path.join(this.root, 'index.json')).catch(() => undefined);
+    if (!index) return {};
+    try {
+      return JSON.parse(index.toString('utf-8'));
+    } catch (error) {
+      // A corrupt index only loses metadata - entries are re-verified on read anyway
+      return {};
+    }
+  }
+
+  public async writeIndex(index: CacheIndex): Promise<void> {
+    await writeFileAtomic(path.join(this.root, 'index.json'), Buffer.from(JSON.stringify(index, null, 2)));
+  }
+}
+
+/**
+  * Keeps cache entries in memory.
+  * @example ```ts
+  * const preprocessor = new RFO.FlagListPreprocessor();
+  * preprocessor.cache = new DownloadCache(new MemoryCacheStore());
+  * ```
+  */
+export class MemoryCacheStore implements CacheStore {
+  public entries = new Map<string, Buffer>();
+  public index: CacheIndex = {};
+
+  public async read(key: string): Promise<Buffer | undefined> {
+    return this.entries.get(key);
+  }
+
+  public async write(key: string, data: Buffer): Promise<void> {
+    this.entries.set(key, data);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public locate(key: string): string {
+    return `memory://${key}`;
+  }
+
+  public async readIndex(): Promise<CacheIndex> {
+    return { ...this.index };
+  }
+
+  public async writeIndex(index: CacheIndex): Promise<void> {
+    this.index = { ...index };
+  }
+}
+
+/**
+  * Content-addressed download cache.
+  * Entries are keyed by their digest and re-verified against it on every read.
+  * @example ```ts
+  * const cache = new DownloadCache(new FsCacheStore('./_cache'));
+  * const location = await cache.put(buffer, { source: 'https://rfo.sh/flags/flags.json', algorithm: 'SHA512', digest });
+  * await cache.get(digest, 'SHA512'); // => location, or undefined if missing/corrupt
+  * await cache.evict({ maxSize: 50 * 1024 * 1024 });
+  * ```
+  */
+export class DownloadCache {
+  /**
+    * In-memory copy of the store's index
+    * @private @internal
+    */
+  private index: Promise<CacheIndex> | null = null;
+  /**
+    * Pending index write - writes are chained so they never interleave
+    * @private @internal
+    */
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(public readonly store: CacheStore = new FsCacheStore()) { }
+
+  /**
+    * Hashes data with the given algorithm.
+    * @param {string} algorithm Hash algorithm, e.g. SHA512
+    * @param {Buffer} data Data to hash
+    * @returns {string} Hex digest
+    */
+  public static digest(algorithm: string, data: Buffer): string {
+    return crypto.createHash(algorithm).update(data).digest('hex');
+  }
+
+  /**
+    * Checks whether a key is a hex digest - the only keys entries are stored under.
+    * @param {string} digest Digest, e.g. from a flag list
+    * @returns {boolean} Whether it is valid
+    */
+  public static isDigest(digest: string): boolean {
+    return typeof digest === 'string' && /^[0-9a-f]+$/i.test(digest);
+  }
+
+  /**
+    * Looks up a verified entry.
+    * Entries whose contents no longer match their digest are deleted.
+    * @param {string} digest Expected digest
+    * @param {string} algorithm Algorithm the digest was computed with
+    * @returns {Promise<string | undefined>} Location of the entry, or undefined on a miss
+    */
+  public async get(digest: string, algorithm: string): Promise<string | undefined> {
+    DownloadCache.assertDigest(digest);
+    return (await this.read(digest, algorithm)) ? this.store.locate(digest) : undefined;
+  }
+
+  /**
+    * Reads a verified entry's contents.
+    * @param {string} digest Expected digest
+    * @param {string} algorithm Algorithm the digest was computed with
+    * @returns {Promise<Buffer | undefined>} Contents, or undefined on a miss
+    */
+  public async read(digest: string, algorithm: string): Promise<Buffer | undefined> {
+    DownloadCache.assertDigest(digest);
+    const data = await this.store.read(digest);
+    if (!data) return undefined;
+    if (DownloadCache.digest(algorithm, data) !== digest) {
+      await this.delete(digest);
+      return undefined;
+    }
+    const index = await this.loadIndex();
+    index[digest] = {
+      source: index[digest]?.source ?? '',
+      algorithm,
+      size: data.length,
+      lastUsed: Date.now(),
+    };
+    await this.saveIndex();
+    return data;
+  }
+
+  /**
+    * Stores data under its digest.
+    * @param {Buffer} data Data to store
+    * @param {object} meta Source URL, algorithm and optionally the already-computed digest
+    * @returns {Promise<string>} Location of the entry
+    */
+  public async put(data: Buffer, meta: { source: string; algorithm: string; digest?: string }): Promise<string> {
+    const digest = meta.digest ?? DownloadCache.digest(meta.algorithm, data);
+    DownloadCache.assertDigest(digest);
+    await this.store.write(digest, data);
+    const index = await this.loadIndex();
+    index[digest] = {
+      source: meta.source,
+      algorithm: meta.algorithm,
+      size: data.length,
+      lastUsed: Date.now(),
+    };
+    await this.saveIndex();
+    return this.store.locate(digest);
+  }
+
+  /**
+    * Marks entries as used without reading them, so eviction keeps them.
+    * @param {string[]} digests Digests of the entries
+    * @returns {Promise<string[]>} Digests that are not in the cache
+    */
+  public async touch(digests: string[]): Promise<string[]> {
+    const index = await this.loadIndex();
+    const missing = digests.filter((digest) => !index[digest]);
+    const now = Date.now();
+    for (const digest of digests)
+      if (index[digest]) index[digest] = { ...index[digest], lastUsed: now };
+    if (missing.length < digests.length) await this.saveIndex();
+    return missing;
+  }
+
+  /**
+    * Deletes an entry and its metadata.
+    * @param {string} digest Digest of the entry
+    */
+  public async delete(digest: string): Promise<void> {
+    DownloadCache.assertDigest(digest);
+    await this.store.delete(digest);
+    const index = await this.loadIndex();
+    delete index[digest];
+    await this.saveIndex();
+  }
+
+  /**
+    * Lists the metadata of every entry.
+    * @returns {Promise<CacheIndex>} Index, keyed by digest
+    */
+  public async entries(): Promise<CacheIndex> {
+    return { ...await this.loadIndex() };
+  }
+
+  /**
+    * Evicts entries older than maxAge, then least-recently-used entries until the cache fits in maxSize.
+    * @param {EvictionOptions} options Limits
+    * @returns {Promise<string[]>} Evicted digests
+    */
+  public async evict(options: EvictionOptions = {}): Promise<string[]> {
+    const { maxSize = 0, maxAge = 0, keepSince = Infinity, now = Date.now() } = options;
+    const index = await this.loadIndex();
+    const evictable = (entry: CacheEntry) => entry.lastUsed < keepSince;
+    const byAge = Object.entries(index).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    const evicted: string[] = [];
+    let totalSize = byAge.reduce((size, [, entry]) => size + entry.size, 0);
+    for (const [digest, entry] of byAge) {
+      if (!evictable(entry)) continue;
+      const tooOld = maxAge > 0 && now - entry.lastUsed > maxAge;
+      const tooBig = maxSize > 0 && totalSize > maxSize;
+      if (!tooOld && !tooBig) continue;
+      // A tampered index only loses its bogus entries, never files outside the store
+      if (DownloadCache.isDigest(digest)) await this.store.delete(digest);
+      delete index[digest];
+      totalSize -= entry.size;
+      evicted.push(digest);
+    }
+    if (evicted.length > 0) await this.saveIndex();
+    return evicted;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static assertDigest(digest: string) {
+    if (!this.isDigest(digest)) throw new Error('Invalid cache key: ' + digest);
+  }
+
+  /**
+    * Internal Method
+    */
+  private loadIndex(): Promise<CacheIndex> {
+    if (!this.index) this.index = this.store.readIndex();
+    return this.index;
+  }
+
+  /**
+    * Internal Method
+    */
+  private saveIndex(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => this.store.writeIndex(await this.loadIndex()));
+    return this.saving;
+  }
+}
@@ -0,0 +1,214 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import json5 from 'json5';
+import { writeFileAtomic } from './FsUtil';
+import { RobloxInstall } from './RobloxVersionSearcher';
+import { Toml } from './Toml';
+
+/**
+  * Writes merged flags where a launcher or Roblox itself picks them up.
+  * {@link RFO.applyFlags} uses the first applier in {@link RFO.appliers} that detects an install - add your own to support new launchers.
+  * @example ```ts
+  * class MyLauncherApplier implements FlagApplier {
+  *   public name = 'my-launcher';
+  *   public detect(installPath: string) { return installPath.includes('MyLauncher'); }
+  *   public target(installPath: string) { return path.join(installPath, '..', 'flags.json'); }
+  *   public async read(installPath: string) { return JSON.parse(await fs.readFile(this.target(installPath), 'utf-8').catch(() => '{}')); }
+  *   public async write(installPath: string, flags: Record<string, any>) { await writeFileAtomic(this.target(installPath), JSON.stringify(flags)); }
+  * }
+  * rfo.appliers.unshift(new MyLauncherApplier());
+  * ```
+  */
+export interface FlagApplier {
+  /** Name, for logs */
+  readonly name: string;
+  /** Whether this applier handles an install */
+  detect(installPath: string, install?: RobloxInstall): boolean;
+  /** File the flags of an install go to */
+  target(installPath: string): string;
+  /** Reads the flags currently applied to an install - an empty object if there are none */
+  read(installPath: string): Promise<Record<string, any>>;
+  /** Writes the flags of an install to its target file, keeping anything else in it */
+  write(installPath: string, flags: Record<string, any>): Promise<void>;
+  /** Part of the target the flags of an install go to, if installs share a target without sharing flags - e.g. a TOML table */
+  section?(installPath: string): string;
+}
+
+/**
+  * Reads a file, null if it does not exist.
+  * @private @internal
+  */
+async function readText(file: string): Promise<string | null> {
+  return await fs.readFile(file, 'utf-8').catch(() => null);
+}
+
+/**
+  * Parses a JSON/JSON5 file, an empty object if it does not exist or can't be parsed.
+  * @private @internal
+  */
+async function readJson(file: string): Promise<Record<string, any>> {
+  const text = await readText(file);
+  if (text === null) return {};
+  try {
+    const parsed = json5.parse(text);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    // An unparseable file gets backed up and replaced like any other
+    return {};
+  }
+}
+
+/**
+  * Reads a table of a TOML file, an empty object if it does not exist or can't be parsed.
+  * @private @internal
+  */
+async function readTomlTable(file: string, table: string): Promise<Record<string, any>> {
+  try {
+    return Toml.readTable(await readText(file) ?? '', table) ?? {};
+  } catch (error) {
+    // Like unparseable JSON - the table is replaced on the next write
+    return {};
+  }
+}
+
+/**
+  * Writes `<install>/ClientSettings/ClientAppSettings.json` - what Roblox reads on every platform. Detects every install, so it goes last.
+  */
+export class ClientAppSettingsApplier implements FlagApplier {
+  public name = 'client-app-settings';
+
+  public detect(installPath: string): boolean {
+    return true;
+  }
+
+  public target(installPath: string): string {
+    return `${installPath}/ClientSettings/ClientAppSettings.json`;
+  }
+
+  public async read(installPath: string): Promise<Record<string, any>> {
+    return await readJson(this.target(installPath));
+  }
+
+  public async write(installPath: string, flags: Record<string, any>): Promise<void> {
+    await writeFileAtomic(this.target(installPath), JSON.stringify(flags, null, 2));
+  }
+}
+
+/**
+  * Writes `Roblox.app/Contents/MacOS/ClientSettings/ClientAppSettings.json`, for installs given as the app bundle or its MacOS directory.
+  */
+export class MacApplier extends ClientAppSettingsApplier {
+  public name = 'macos';
+
+  public detect(installPath: string): boolean {
+    return /\.app([\\/]Contents[\\/]MacOS)?[\\/]?$/i.test(installPath);
+  }
+
+  public target(installPath: string): string {
+    const macOSDir = /\.app[\\/]?$/i.test(installPath) ? path.join(installPath, 'Contents', 'MacOS') : installPath;
+    return super.target(macOSDir.replace(/[\\/]$/, ''));
+  }
+}
+
+/**
+  * Writes `Modifications/ClientSettings/ClientAppSettings.json` of Bloxstrap & Fishstrap, which copy it into every version they install.
+  */
+export class BloxstrapApplier extends ClientAppSettingsApplier {
+  public name = 'bloxstrap';
+
+  public detect(installPath: string, install?: RobloxInstall): boolean {
+    return install?.launcher === 'bloxstrap' || install?.launcher === 'fishstrap' || /[\\/](Bloxstrap|Fishstrap)[\\/]Versions[\\/][^\\/]+[\\/]?$/i.test(installPath);
+  }
+
+  public target(installPath: string): string {
+    return path.join(installPath, '..', '..', 'Modifications', 'ClientSettings', 'ClientAppSettings.json');
+  }
+}
+
+/**
+  * Writes the `fflags` object of Sober's `config.json`, keeping its other settings.
+  */
+export class SoberApplier implements FlagApplier {
+  public name = 'sober';
+
+  public detect(installPath: string, install?: RobloxInstall): boolean {
+    return install?.launcher === 'sober' || /org\.vinegarhq\.Sober/.test(installPath);
+  }
+
+  public target(installPath: string): string {
+    // <app>/data/sober -> <app>/config/sober/config.json
+    return path.join(installPath, '..', '..', 'config', 'sober', 'config.json');
+  }
+
+  public async read(installPath: string): Promise<Record<string, any>> {
+    return { ...(await readJson(this.target(installPath))).fflags };
+  }
+
+  public async write(installPath: string, flags: Record<string, any>): Promise<void> {
+    const file = this.target(installPath);
+    const config = await readJson(file);
+    await writeFileAtomic(file, JSON.stringify({ ...config, fflags: flags }, null, 2));
+  }
+}
+
+/**
+  * Writes the `[player.fflags]` or `[studio.fflags]` table of Vinegar's `config.toml`, keeping the rest of the file as written.
+  */
+export class VinegarApplier implements FlagApplier {
+  public name = 'vinegar';
+
+  constructor(public configHome: string = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config')) { }
+
+  public detect(installPath: string, install?: RobloxInstall): boolean {
+    return install?.launcher === 'vinegar' || /[\\/]vinegar[\\/]versions[\\/]/i.test(installPath);
+  }
+
+  public target(installPath: string): string {
+    const flatpak = /^(.*[\\/]org\.vinegarhq\.Vinegar)[\\/]/.exec(installPath);
+    return flatpak ? path.join(flatpak[1], 'config', 'vinegar', 'config.toml') : path.join(this.configHome, 'vinegar', 'config.toml');
+  }
+
+  public async read(installPath: string): Promise<Record<string, any>> {
+    return await readTomlTable(this.target(installPath), this.section(installPath));
+  }
+
+  public async write(installPath: string, flags: Record<string, any>): Promise<void> {
+    const file = this.target(installPath);
+    await writeFileAtomic(file, Toml.replaceTable(await readText(file) ?? '', this.section(installPath), flags));
+  }
+
+  public section(installPath: string): string {
+    return existsSync(path.join(installPath, 'RobloxPlayerBeta.exe')) ? 'player.fflags' : 'studio.fflags';
+  }
+}
+
+/**
+  * Writes flags to a fixed file, as JSON or as a TOML `[fflags]` table. Detects no installs - use it through {@link RFO.exportFlags}.
+  * @example ```ts
+  * await new ExportApplier('./flags.toml').write(undefined, rfo.mergeFlagFiles());
+  * await rfo.exportFlags('./flags.json');
+  * ```
+  */
+export class ExportApplier implements FlagApplier {
+  public name = 'export';
+
+  constructor(public file: string, public format: 'json' | 'toml' = file.endsWith('.toml') ? 'toml' : 'json') { }
+
+  public detect(installPath: string): boolean {
+    return false;
+  }
+
+  public target(installPath?: string): string {
+    return this.file;
+  }
+
+  public async read(installPath?: string): Promise<Record<string, any>> {
+    if (this.format === 'json') return await readJson(this.file);
+    return await readTomlTable(this.file, 'fflags');
+  }
+
+  public async write(installPath: string | undefined, flags: Record<string, any>): Promise<void> {
+    await writeFileAtomic(this.file, this.format === 'json' ? JSON.stringify(flags, null, 2) : Toml.stringify({ fflags: flags }));
+  }
+}
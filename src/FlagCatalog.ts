@@ -0,0 +1,252 @@
+import { promises as fs, readFileSync } from 'fs';
+import json5 from 'json5';
+import { FlagListPreprocessor, ProcessedFlagList } from './FlagListPreprocessor';
+import { FlagListValidator } from './FlagListValidator';
+import { FlagMerger, FlagSource } from './FlagMerger';
+import { FlagModel, FlagValueType } from './FlagModel';
+
+export type CatalogEntry = {
+  /** Flag key */
+  flag: string;
+  /** Value type - from the snapshot, or the key prefix */
+  type: FlagValueType;
+  /** Engine default, if the snapshot has it */
+  default?: any;
+}
+/** unknown flags do not exist in the snapshot, type mismatches can't be coerced to its type, default ones are set to the engine default */
+export type CatalogIssueKind = 'unknown' | 'type' | 'default'
+export type CatalogIssue = {
+  /** Flag key */
+  flag: string;
+  /** Value as supplied */
+  value: any;
+  /** What is wrong with it */
+  kind: CatalogIssueKind;
+  /** Human-readable description */
+  message: string;
+  /** Where the value came from, if known */
+  source?: FlagSource;
+  /** Type the snapshot expects, for type */
+  expected?: FlagValueType;
+  /** Engine default, for default */
+  default?: any;
+  /** Similar known flags it was likely renamed to, best first, for unknown */
+  suggestions?: string[];
+}
+
+/**
+  * Known flags of a Roblox build, with their types & defaults, to find flags that do nothing.
+  * Snapshots are JSON/JSON5/TOML objects of flag to default (or to { type, default }), arrays of { name, type, default }, or text dumps with one flag per line, e.g. FVariables.txt.
+  * @example ```ts
+  * const catalog = await FlagCatalog.load('./FVariables.txt');
+  * catalog.check({ FFlagDebugGraphicsPreferVulkn: true });
+  * // => [{ flag: 'FFlagDebugGraphicsPreferVulkn', kind: 'unknown', suggestions: ['FFlagDebugGraphicsPreferVulkan'], ... }]
+  * catalog.checkLists(rfo.processedFlagList); // every flag of every file, with its source
+  * ```
+  */
+export class FlagCatalog {
+  /** Entries by flag key */
+  public entries = new Map<string, CatalogEntry>();
+  /**
+    * Internal Method
+    */
+  private bigramCache = new Map<string, Set<string>>();
+  /**
+    * Internal Method
+    */
+  private nameCache = new Map<string, string>();
+  /**
+    * Internal Method
+    */
+  private suggestionCache = new Map<string, string[]>();
+
+  constructor(entries: CatalogEntry[] = []) {
+    for (const entry of entries) this.entries.set(entry.flag, entry);
+  }
+
+  /**
+    * Reads a snapshot file.
+    * @param {string} file Snapshot file
+    * @returns {Promise<FlagCatalog>} Catalog
+    */
+  public static async load(file: string): Promise<FlagCatalog> {
+    return this.parse(await fs.readFile(file, 'utf-8'), file);
+  }
+
+  /**
+    * Parses a snapshot - JSON, JSON5 & TOML by file extension or a leading {, a text dump otherwise.
+    * @param {string} text Snapshot contents
+    * @param {string} fileName File name, used for the extension
+    * @returns {FlagCatalog} Catalog
+    * @throws {Error} If a structured snapshot is neither an object nor an array
+    */
+  public static parse(text: string, fileName: string = ''): FlagCatalog {
+    if (!/\.(json5?|toml)$/i.test(fileName) && !text.trimStart().startsWith('{')) {
+      const entries: CatalogEntry[] = [];
+      for (const line of text.split(/\r?\n/)) {
+        // [C++] DFIntTaskSchedulerTargetFps, DFIntTaskSchedulerTargetFps=60 or DFIntTaskSchedulerTargetFps: 60
+        const match = /^\s*(?:\[[^\]]*\]\s*)?([A-Za-z_][A-Za-z0-9_]*)\s*(?:[=:]\s*(.*?))?\s*$/.exec(line.replace(/\s(#|\/\/).*$/, ''));
+        if (match) entries.push(this.entry(match[1], undefined, match[2] === undefined ? undefined : this.parseValue(match[2])));
+      }
+      return new FlagCatalog(entries);
+    }
+    const snapshot = FlagListValidator.parse(text, fileName || 'snapshot.json5') as any;
+    if (Array.isArray(snapshot))
+      return new FlagCatalog(snapshot
+        .filter((item) => typeof (item?.name ?? item?.flag) === 'string')
+        .map((item) => this.entry(item.name ?? item.flag, item.type, item.default ?? item.value)));
+    if (typeof snapshot !== 'object' || snapshot === null)
+      throw new Error(`Invalid flag snapshot ${fileName}, expected an object or array of flags`);
+    return new FlagCatalog(Object.entries(snapshot).map(([flag, value]) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? this.entry(flag, (value as any).type, (value as any).default ?? (value as any).value)
+        : this.entry(flag, undefined, value)));
+  }
+
+  /** Number of known flags */
+  public get size() {
+    return this.entries.size;
+  }
+
+  /**
+    * Checks whether a flag exists in the snapshot.
+    * @param {string} flag Flag key
+    * @returns {boolean} Whether it is known
+    */
+  public has(flag: string): boolean {
+    return this.entries.has(flag);
+  }
+
+  /**
+    * Checks flags against the snapshot.
+    * @param {Record<string, any>} flags Flags, e.g. merged output
+    * @param {Function} sourceOf Where each flag came from, for reporting
+    * @returns {CatalogIssue[]} Unknown, mistyped & default flags
+    */
+  public check(flags: Record<string, any>, sourceOf: (flag: string) => FlagSource | undefined = () => undefined): CatalogIssue[] {
+    const issues: CatalogIssue[] = [];
+    for (const [flag, value] of Object.entries(flags)) {
+      const source = sourceOf(flag);
+      const located = source ? { source } : {};
+      const entry = this.entries.get(flag);
+      if (!entry) {
+        // The same unknown flag tends to be in many files
+        if (!this.suggestionCache.has(flag)) this.suggestionCache.set(flag, this.suggest(flag));
+        const suggestions = this.suggestionCache.get(flag)!;
+        issues.push({ flag, value, kind: 'unknown', message: `${flag} is not a known flag${suggestions.length > 0 ? `, did you mean ${suggestions.join(' or ')}?` : ''}`, ...located, suggestions });
+        continue;
+      }
+      const coerced = FlagModel.coerceTo(entry.type, value);
+      if (!coerced.ok)
+        issues.push({ flag, value, kind: 'type', message: `${flag} takes ${entry.type === 'integer' ? 'an' : 'a'} ${entry.type}, not ${JSON.stringify(value)}`, ...located, expected: entry.type });
+      else if (entry.default !== undefined && JSON.stringify(coerced.value) === JSON.stringify(entry.default))
+        issues.push({ flag, value, kind: 'default', message: `${flag} is set to its default ${JSON.stringify(entry.default)}`, ...located, default: entry.default });
+    }
+    return issues;
+  }
+
+  /**
+    * Checks every flag file of every flag list against the snapshot, enabled or not.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {Function} readFlagFile Reads a flag file, defaults to parsing it from disk
+    * @returns {CatalogIssue[]} Issues, with the list, feature, option & file each came from
+    */
+  public checkLists(processedFlagLists: ProcessedFlagList[], readFlagFile: (file: string) => Record<string, any> = (file) => json5.parse(readFileSync(file, 'utf8'))): CatalogIssue[] {
+    const issues: CatalogIssue[] = [];
+    const checkFiles = (files: string[], source: Omit<FlagSource, 'file'>) => {
+      for (const file of files)
+        issues.push(...this.check(readFlagFile(file), () => ({ ...source, file })));
+    };
+    for (const [key, list] of FlagListPreprocessor.entries(processedFlagLists)) {
+      checkFiles(list.base, { list: key, feature: null, option: null });
+      for (const feature of list.features)
+        for (const [option, files] of Object.entries(feature.options))
+          checkFiles(files, { list: key, feature: feature.name, option });
+    }
+    return issues;
+  }
+
+  /**
+    * Suggests known flags an unknown one was likely renamed to - the same name under another prefix, or a similar name.
+    * @param {string} flag Unknown flag key
+    * @param {number} limit Maximum suggestions
+    * @param {number} threshold Minimum similarity of names, from 0 to 1
+    * @returns {string[]} Known flags, most similar first
+    */
+  public suggest(flag: string, limit: number = 3, threshold: number = 0.6): string[] {
+    const wanted = this.name(flag);
+    const wantedBigrams = this.bigrams(wanted);
+    const scored: { flag: string; score: number }[] = [];
+    for (const known of this.entries.keys()) {
+      if (known === flag) continue;
+      const name = this.name(known);
+      if (Math.abs(name.length - wanted.length) > Math.max(name.length, wanted.length) / 2) continue;
+      let score = 1;
+      if (name !== wanted) {
+        const bigrams = this.bigrams(name);
+        let shared = 0;
+        for (const bigram of bigrams) if (wantedBigrams.has(bigram)) shared++;
+        score = (2 * shared) / (bigrams.size + wantedBigrams.size || 1);
+      }
+      if (score >= threshold) scored.push({ flag: known, score });
+    }
+    return scored.sort((a, b) => b.score - a.score || a.flag.localeCompare(b.flag)).slice(0, limit).map(({ flag }) => flag);
+  }
+
+  /**
+    * Describes an issue with its source, for printing.
+    * @param {CatalogIssue} issue Issue
+    * @returns {string} `kind: message (source)`
+    */
+  public static describe(issue: CatalogIssue): string {
+    return `${issue.kind}: ${issue.message}${issue.source ? ` - ${FlagMerger.describe(issue.source)}` : ''}`;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static entry(flag: string, type: unknown, defaultValue: any): CatalogEntry {
+    const aliases: Record<string, FlagValueType> = { boolean: 'boolean', bool: 'boolean', flag: 'boolean', integer: 'integer', int: 'integer', number: 'integer', string: 'string' };
+    let entryType = typeof type === 'string' ? aliases[type.toLowerCase()] : undefined;
+    entryType = entryType ?? FlagModel.parseKey(flag).type;
+    if (entryType === 'unknown' && defaultValue !== undefined && defaultValue !== null)
+      entryType = typeof defaultValue === 'boolean' ? 'boolean' : Number.isInteger(defaultValue) ? 'integer' : 'string';
+    const coerced = defaultValue === undefined || defaultValue === null ? null : FlagModel.coerceTo(entryType, defaultValue);
+    return { flag, type: entryType, ...(coerced?.ok ? { default: coerced.value } : {}) };
+  }
+
+  /**
+    * Internal Method
+    */
+  private static parseValue(raw: string): any {
+    if (/^(['"]).*\1$/.test(raw)) return raw.slice(1, -1);
+    if (/^(true|false)$/i.test(raw)) return raw.toLowerCase() === 'true';
+    if (/^-?\d+$/.test(raw)) return parseInt(raw, 10);
+    return raw;
+  }
+
+  /**
+    * Internal Method
+    */
+  private name(flag: string): string {
+    let name = this.nameCache.get(flag);
+    if (name === undefined) {
+      name = FlagModel.parseKey(flag).name.toLowerCase();
+      this.nameCache.set(flag, name);
+    }
+    return name;
+  }
+
+  /**
+    * Internal Method
+    */
+  private bigrams(name: string): Set<string> {
+    let bigrams = this.bigramCache.get(name);
+    if (!bigrams) {
+      bigrams = new Set<string>();
+      for (let index = 0; index < name.length - 1; index++) bigrams.add(name.slice(index, index + 2));
+      this.bigramCache.set(name, bigrams);
+    }
+    return bigrams;
+  }
+}
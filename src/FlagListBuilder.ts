@@ -0,0 +1,225 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import json5 from 'json5';
+import { Feature, File, FlagItem, FlagItemExtension, FlagList, FlagListDocument } from './MiscTypes';
+import { FlagListComposer } from './FlagListComposer';
+import { FlagListPreprocessor } from './FlagListPreprocessor';
+import { FlagListValidator, ValidationIssue } from './FlagListValidator';
+import { HttpClient } from './HttpClient';
+import { DownloadCache } from './DownloadCache';
+import { Toml } from './Toml';
+
+/** A feature with its options as flag file paths, relative to the source directory - directories include every .json/.json5 file in them */
+export type ManifestFeature<T extends string = string> = Feature<T> extends infer F ? F extends any ? Omit<F, 'options'> & { options: Record<T, string | string[]> } : never : never
+export type ManifestListItem = Omit<FlagItem, 'baseurl' | 'base' | 'features'> & {
+  /** Base URL - defaults to the manifest's */
+  baseurl?: string,
+  /** Base flag file paths */
+  base?: string | string[],
+  /** Feature List */
+  features?: ManifestFeature[],
+}
+export type FlagListManifest = {
+  /** Base URL the source directory gets hosted at - e.g. https://rfo.sh/flags/ */
+  baseurl: string,
+  /** Flag lists by key */
+  lists: Record<string, ManifestListItem>,
+}
+export type FlagListFormat = 'json5' | 'json' | 'toml'
+export type BuildResult = {
+  /** The built flag list - only safe to publish without error issues */
+  flagList: FlagList;
+  /** Missing or unparseable flag files, and everything {@link FlagListValidator.validate} reports */
+  issues: ValidationIssue[];
+  /** Every flag file referenced, relative to the source directory */
+  files: string[];
+}
+export type VerifyOptions = {
+  /** Read files from this directory instead of downloading them from their baseurl */
+  dir?: string;
+  /** HTTP client to download with */
+  http?: HttpClient;
+  /** Allow file:// & localhost URLs */
+  allowLocal?: boolean;
+}
+
+/**
+  * Builds flag lists from a directory of flag files & a manifest, hashing every file, and verifies published lists against their files.
+  * @example ```ts
+  * // flags/manifest.json5: { baseurl: 'https://example.com/flags/', lists: { Performance: { name: 'Performance', default: true, base: 'base.json', features: [...] } } }
+  * const { flagList, issues } = await FlagListBuilder.build('./flags');
+  * if (!issues.some((issue) => issue.severity === 'error'))
+  *   writeFileSync('./flags/flaglists.json5', FlagListBuilder.stringify(flagList, 'json5'));
+  * const problems = await FlagListBuilder.verify(flagList); // => [] once the directory is hosted
+  * ```
+  */
+export class FlagListBuilder {
+  /** Manifest file names looked for in a source directory, in order */
+  public static manifestFiles = ['manifest.json5', 'manifest.json', 'manifest.toml'];
+
+  /**
+    * Reads the manifest of a source directory.
+    * @param {string} dir Source directory
+    * @returns {Promise<FlagListManifest>} Manifest
+    * @throws {Error} If there is no manifest, or it has no baseurl or lists
+    */
+  public static async readManifest(dir: string): Promise<FlagListManifest> {
+    const manifestFile = this.manifestFiles.map((file) => path.join(dir, file)).find((file) => existsSync(file));
+    if (!manifestFile) throw new Error(`No manifest in ${dir}, expected one of ${this.manifestFiles.join(', ')}`);
+    const manifest = FlagListValidator.parse(await fs.readFile(manifestFile, 'utf-8'), manifestFile) as FlagListManifest;
+    if (typeof manifest?.baseurl !== 'string' || typeof manifest.lists !== 'object' || manifest.lists === null)
+      throw new Error(`Invalid manifest ${manifestFile}, expected baseurl & lists`);
+    return manifest;
+  }
+
+  /**
+    * Builds a flag list, hashing every flag file with SHA512.
+    * @param {string} dir Source directory, hosted at the manifest's baseurl
+    * @param {FlagListManifest} manifest Manifest - read from the directory if omitted
+    * @returns {Promise<BuildResult>} Flag list, issues & referenced files
+    */
+  public static async build(dir: string, manifest?: FlagListManifest): Promise<BuildResult> {
+    manifest = manifest ?? await this.readManifest(dir);
+    const issues: ValidationIssue[] = [];
+    const hashed = new Map<string, File | null>();
+    const toFiles = async (paths: string | string[] | undefined, issuePath: string): Promise<File[]> => {
+      const files: File[] = [];
+      for (const relativePath of await this.expand(dir, typeof paths === 'string' ? [paths] : paths ?? [], issuePath, issues)) {
+        if (!hashed.has(relativePath)) hashed.set(relativePath, await this.hashFile(dir, relativePath, issuePath, issues));
+        const file = hashed.get(relativePath);
+        if (file) files.push(file);
+      }
+      return files;
+    };
+
+    const flagList: FlagList = {};
+    for (const [key, item] of Object.entries(manifest.lists)) {
+      const listPath = `lists[${JSON.stringify(key)}]`;
+      const { base, features = [], baseurl = manifest.baseurl, ...rest } = item;
+      const built: FlagItem = { ...rest, baseurl, base: await toFiles(base, `${listPath}.base`), features: [] };
+      for (const [index, feature] of features.entries()) {
+        const options: Record<string, File[]> = {};
+        for (const [option, paths] of Object.entries(feature.options ?? {}))
+          options[option] = await toFiles(paths as string | string[], `${listPath}.features[${index}].options[${JSON.stringify(option)}]`);
+        built.features.push({ ...feature, options } as Feature<string>);
+      }
+      flagList[key] = built;
+    }
+    issues.push(...FlagListValidator.validate(flagList));
+    return { flagList, issues, files: [...hashed.keys()] };
+  }
+
+  /**
+    * Serializes a flag list for hosting.
+    * @param {FlagList} flagList Flag list
+    * @param {FlagListFormat} format json5, json or toml
+    * @returns {string} Document
+    */
+  public static stringify(flagList: FlagList, format: FlagListFormat = 'json5'): string {
+    if (format === 'toml') return Toml.stringify(flagList);
+    return `${format === 'json' ? JSON.stringify(flagList, null, 2) : json5.stringify(flagList, null, 2)}\n`;
+  }
+
+  /**
+    * Re-checks a published flag list: validates it, and downloads (or reads) every file to compare it to its digest.
+    * @param {unknown} flagList Parsed flag list
+    * @param {VerifyOptions} options Where to get the files from
+    * @returns {Promise<ValidationIssue[]>} Every problem found - empty if the list & its files are intact
+    */
+  public static async verify(flagList: unknown, options: VerifyOptions = {}): Promise<ValidationIssue[]> {
+    const issues = FlagListValidator.validate(flagList);
+    if (issues.some((issue) => issue.severity === 'error')) return issues;
+    const { dir, http = new HttpClient(), allowLocal = false } = options;
+    const checks: Promise<void>[] = [];
+    const check = (file: File, baseurl: string, issuePath: string) => checks.push((async () => {
+      const location = dir ? path.join(dir, file.f) : `${baseurl}${file.f}`;
+      let data: Buffer | null;
+      try {
+        if (dir) data = await fs.readFile(location).catch(() => null);
+        else {
+          if (!allowLocal && FlagListPreprocessor.isLocalSource(location)) throw new Error('local sources need allowLocal');
+          const response = await http.get(location);
+          data = response.status === 200 ? response.data : null;
+        }
+      } catch (error) {
+        issues.push({ path: issuePath, message: `${location} could not be fetched: ${error.message}`, severity: 'error' });
+        return;
+      }
+      if (!data) {
+        issues.push({ path: issuePath, message: `${location} does not exist`, severity: 'error' });
+        return;
+      }
+      if (file.h.algorithm === 'none')
+        issues.push({ path: issuePath, message: `${file.f} is not hashed`, severity: 'warning' });
+      else if (DownloadCache.digest(file.h.algorithm, data) !== file.h.digest)
+        issues.push({ path: issuePath, message: `${location} does not match its ${file.h.algorithm} digest`, severity: 'error' });
+      const parseIssue = this.parseIssue(data, file.f, issuePath);
+      if (parseIssue) issues.push(parseIssue);
+    })());
+    for (const [key, item] of FlagListComposer.items(flagList as FlagListDocument)) {
+      const listPath = `lists[${JSON.stringify(key)}]`;
+      // Files of extensions without a baseurl are relative to the extended item, in another list
+      if (item.baseurl === undefined && !dir) {
+        issues.push({ path: `${listPath}.baseurl`, message: `extends ${(item as FlagItemExtension).extends} without a baseurl, its files are not checked`, severity: 'warning' });
+        continue;
+      }
+      const baseurl = item.baseurl ?? '';
+      (item.base ?? []).forEach((file, index) => check(file, baseurl, `${listPath}.base[${index}]`));
+      (item.features ?? []).forEach((feature, featureIndex) => {
+        for (const [option, files] of Object.entries<File[] | null>(feature.options ?? {}))
+          (files ?? []).forEach((file, index) => check(file, baseurl, `${listPath}.features[${featureIndex}].options[${JSON.stringify(option)}][${index}]`));
+      });
+    }
+    await Promise.all(checks);
+    return issues;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static async expand(dir: string, paths: string[], issuePath: string, issues: ValidationIssue[]): Promise<string[]> {
+    const expanded: string[] = [];
+    for (const relativePath of paths) {
+      const stat = await fs.stat(path.join(dir, relativePath)).catch(() => null);
+      if (!stat) {
+        issues.push({ path: issuePath, message: `${relativePath} does not exist`, severity: 'error' });
+        continue;
+      }
+      if (!stat.isDirectory()) {
+        expanded.push(relativePath.split(path.sep).join('/'));
+        continue;
+      }
+      const entries = (await fs.readdir(path.join(dir, relativePath))).filter((entry) => /\.json5?$/i.test(entry)).sort();
+      if (entries.length === 0) issues.push({ path: issuePath, message: `${relativePath} has no flag files`, severity: 'warning' });
+      expanded.push(...entries.map((entry) => path.posix.join(relativePath.split(path.sep).join('/'), entry)));
+    }
+    return expanded;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static async hashFile(dir: string, relativePath: string, issuePath: string, issues: ValidationIssue[]): Promise<File | null> {
+    const data = await fs.readFile(path.join(dir, relativePath)).catch(() => null);
+    if (!data) {
+      issues.push({ path: issuePath, message: `${relativePath} can't be read`, severity: 'error' });
+      return null;
+    }
+    const parseIssue = this.parseIssue(data, relativePath, issuePath);
+    if (parseIssue) issues.push(parseIssue);
+    return { f: relativePath, h: { algorithm: 'SHA512', digest: FlagListPreprocessor.sha512digest(data) } };
+  }
+
+  /**
+    * Internal Method
+    */
+  private static parseIssue(data: Buffer, file: string, issuePath: string): ValidationIssue | null {
+    try {
+      const flags = json5.parse(data.toString('utf-8'));
+      if (typeof flags === 'object' && flags !== null && !Array.isArray(flags)) return null;
+      return { path: issuePath, message: `${file} is not a flag object`, severity: 'error' };
+    } catch (error) {
+      return { path: issuePath, message: `${file} is not valid JSON: ${error.message}`, severity: 'error' };
+    }
+  }
+}
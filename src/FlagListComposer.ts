@@ -0,0 +1,220 @@
+import { Feature, File, FlagItem, FlagItemExtension, FlagList, FlagListDocument, FlagListInclude, FlagListSource } from './MiscTypes';
+
+export type NamespacedFlagList = {
+  /** Namespace of the list's items */
+  namespace: string;
+  /** The list as published */
+  flagList: FlagListDocument;
+}
+
+/**
+  * Thrown when flag lists include or extend each other in a circle, or extend an item that does not exist.
+  */
+export class FlagListCompositionError extends Error {
+  constructor(message: string, public readonly chain: string[]) {
+    super(`${message}: ${chain.join(' -> ')}`);
+    this.name = 'FlagListCompositionError';
+  }
+}
+
+/**
+  * Resolves how flag lists build on each other: `$include` pulls in further lists, `extends` bases an item on another one, and namespaces keep equal keys of different lists apart.
+  * Items are referenced as `namespace:key` across lists, and by their plain key within one.
+  * @example ```ts
+  * // https://example.com/competitive.json5:
+  * // { $namespace: 'competitive', $include: ['base.json5'], Performance: { extends: 'base:Performance', features: [{ name: 'FPS Cap', default: '360' }] } }
+  * const [base, competitive] = FlagListComposer.compose([
+  *   { namespace: 'base', flagList: baseList },
+  *   { namespace: 'competitive', flagList: competitiveList },
+  * ]);
+  * competitive.Performance.features[0].default; // => '360', with every other property of base:Performance
+  * ```
+  */
+export class FlagListComposer {
+  /** Characters namespaces may consist of */
+  public static namespacePattern = /^[A-Za-z0-9_.-]+$/;
+
+  /**
+    * Checks whether a key of a flag list document is a directive rather than an item.
+    * @param {string} key Key
+    * @returns {boolean} Whether it starts with $
+    */
+  public static isDirective(key: string): boolean {
+    return key.startsWith('$');
+  }
+
+  /**
+    * Lists the items of a flag list document, leaving out its directives.
+    * @param {FlagListDocument} flagList Flag list document
+    * @returns {[string, FlagItem | FlagItemExtension][]} Items by key
+    */
+  public static items(flagList: FlagListDocument): [string, FlagItem | FlagItemExtension][] {
+    return Object.entries(flagList).filter(([key]) => !this.isDirective(key)) as [string, FlagItem | FlagItemExtension][];
+  }
+
+  /**
+    * Checks whether an item extends another one.
+    * @param {FlagItem | FlagItemExtension} item Item
+    * @returns {boolean} Whether it has extends
+    */
+  public static isExtension(item: FlagItem | FlagItemExtension): item is FlagItemExtension {
+    return typeof (item as FlagItemExtension).extends === 'string';
+  }
+
+  /**
+    * Resolves the includes of a flag list document.
+    * @param {FlagListDocument} flagList Flag list document
+    * @param {string} url URL the document came from, or flagLists/<file> for local lists
+    * @returns {FlagListSource[]} Sources of the included lists, with absolute URLs
+    */
+  public static includes(flagList: FlagListDocument, url: string): FlagListSource[] {
+    return (flagList.$include ?? []).map((include) => {
+      // Only the user's own config may relax trust.policy for a list
+      const { signature, ...source }: FlagListInclude = typeof include === 'string' ? { url: include } : include;
+      const resolved = this.resolveUrl(source.url, url);
+      return { ...source, name: source.name ?? resolved, url: resolved };
+    });
+  }
+
+  /**
+    * Resolves a URL or path relative to the list referencing it.
+    * Local lists can only include other lists in flagLists/, by relative path, or remote lists by URL.
+    * @param {string} url URL or relative path
+    * @param {string} base URL of the referencing list, or flagLists/<file> for local lists
+    * @returns {string} Absolute URL, or flagLists/<file>
+    * @throws {Error} If a relative path can't be resolved, e.g. from an inline list
+    */
+  public static resolveUrl(url: string, base: string): string {
+    if (/^[a-z][a-z0-9+.-]+:/i.test(url)) return url;
+    if (base.startsWith('flagLists/')) {
+      const resolved = decodeURIComponent(new URL(url, `file:///${base}`).pathname.slice(1));
+      if (!resolved.startsWith('flagLists/')) throw new Error(`${url} from ${base} is outside of flagLists/`);
+      return resolved;
+    }
+    try {
+      return new URL(url, base).href;
+    } catch (error) {
+      throw new Error(`Can't resolve ${url} relative to ${base}`);
+    }
+  }
+
+  /**
+    * Picks the namespace of a flag list: its $namespace, the source's namespace, or a slug of the source's name - suffixed with -2, -3... if taken.
+    * @param {FlagListDocument} flagList Flag list document
+    * @param {Pick<FlagListSource, 'name' | 'namespace'>} source Where the list came from
+    * @param {Set<string>} taken Namespaces already in use - the picked one is added
+    * @returns {string} Namespace
+    */
+  public static namespace(flagList: FlagListDocument, source: Pick<FlagListSource, 'name' | 'namespace'>, taken: Set<string> = new Set()): string {
+    const wanted = flagList.$namespace ?? source.namespace ?? (source.name.replace(/\.(json5?|toml)$/i, '').toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '') || 'list');
+    let namespace = wanted;
+    for (let suffix = 2; taken.has(namespace); suffix++) namespace = `${wanted}-${suffix}`;
+    taken.add(namespace);
+    return namespace;
+  }
+
+  /**
+    * Splits an item reference into namespace & key.
+    * @param {string} ref namespace:key, or a plain key
+    * @param {string} namespace Namespace of plain keys
+    * @returns {{ namespace: string, key: string }} Namespace & key
+    */
+  public static parseRef(ref: string, namespace: string): { namespace: string, key: string } {
+    const separator = ref.indexOf(':');
+    return separator === -1 ? { namespace, key: ref } : { namespace: ref.slice(0, separator), key: ref.slice(separator + 1) };
+  }
+
+  /**
+    * Finds a circle in an include graph.
+    * @param {Map<string, string[]>} edges Included URLs by URL
+    * @param {string[]} roots URLs to start from, in order
+    * @returns {string[] | null} The URLs of the first circle found, starting & ending with the same one - null if there is none
+    */
+  public static findCycle(edges: Map<string, string[]>, roots: string[] = [...edges.keys()]): string[] | null {
+    const done = new Set<string>();
+    const visit = (url: string, chain: string[]): string[] | null => {
+      if (chain.includes(url)) return [...chain.slice(chain.indexOf(url)), url];
+      if (done.has(url)) return null;
+      for (const included of edges.get(url) ?? []) {
+        const cycle = visit(included, [...chain, url]);
+        if (cycle) return cycle;
+      }
+      done.add(url);
+      return null;
+    };
+    for (const root of roots) {
+      const cycle = visit(root, []);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  /**
+    * Flattens the items of namespaced flag lists, resolving every extends.
+    * @param {NamespacedFlagList[]} flagLists Flag lists with their namespaces
+    * @returns {FlagList[]} Plain flag lists, in the same order - directives left out
+    * @throws {FlagListCompositionError} If items extend each other in a circle, or extend an item that does not exist
+    */
+  public static compose(flagLists: NamespacedFlagList[]): FlagList[] {
+    const byNamespace = new Map(flagLists.map(({ namespace, flagList }) => [namespace, flagList]));
+    const resolved = new Map<string, FlagItem>();
+    const resolveItem = (namespace: string, key: string, chain: string[]): FlagItem => {
+      const id = `${namespace}:${key}`;
+      if (resolved.has(id)) return resolved.get(id)!;
+      if (chain.includes(id)) throw new FlagListCompositionError('Circular extends', [...chain, id]);
+      const flagList = byNamespace.get(namespace);
+      if (!flagList || this.isDirective(key) || !Object.prototype.hasOwnProperty.call(flagList, key))
+        throw new FlagListCompositionError(`Extended item ${id} does not exist`, [...chain, id]);
+      const item = flagList[key] as FlagItem | FlagItemExtension;
+      let flagItem: FlagItem;
+      if (this.isExtension(item)) {
+        const target = this.parseRef(item.extends, namespace);
+        flagItem = this.extend(resolveItem(target.namespace, target.key, [...chain, id]), item);
+      } else {
+        flagItem = item;
+      }
+      resolved.set(id, flagItem);
+      return flagItem;
+    };
+    return flagLists.map(({ namespace, flagList }) =>
+      Object.fromEntries(this.items(flagList).map(([key]) => [key, resolveItem(namespace, key, [])])));
+  }
+
+  /**
+    * Applies an extension to the item it extends.
+    * Its files are relative to its baseurl, or the extended item's if it has none - with a different baseurl, every file is made absolute.
+    * Features are matched by name: options merge, options set to null are removed, and features the item lacks are added.
+    * @param {FlagItem} base Extended item
+    * @param {FlagItemExtension} extension Extension
+    * @returns {FlagItem} A new item - neither argument is modified
+    */
+  public static extend(base: FlagItem, extension: FlagItemExtension): FlagItem {
+    const { extends: _extends, features = [], base: baseFiles, baseurl = base.baseurl, ...rest } = extension;
+    const rebase = baseurl !== base.baseurl;
+    const own = (files: File[]) => rebase ? files.map((file) => ({ ...file, f: `${baseurl}${file.f}` })) : files;
+    const inherited = (files: File[]) => rebase ? files.map((file) => ({ ...file, f: `${base.baseurl}${file.f}` })) : files;
+    const extended: FlagItem = {
+      ...base,
+      ...rest,
+      baseurl: rebase ? '' : base.baseurl,
+      base: baseFiles ? own(baseFiles) : inherited(base.base),
+      features: base.features.map((feature) => ({
+        ...feature,
+        options: Object.fromEntries(Object.entries<File[]>(feature.options).map(([option, files]) => [option, inherited(files)])),
+      })),
+    };
+    for (const { options = {}, ...featureExtension } of features) {
+      const index = extended.features.findIndex((feature) => feature.name === featureExtension.name);
+      const feature = { ...extended.features[index], ...featureExtension, options: { ...extended.features[index]?.options } } as Feature<string>;
+      for (const [option, files] of Object.entries(options)) {
+        if (files === null) delete feature.options[option];
+        else feature.options[option] = own(files);
+      }
+      if (feature.optionConstraints)
+        feature.optionConstraints = Object.fromEntries(Object.entries(feature.optionConstraints).filter(([option]) => Object.prototype.hasOwnProperty.call(feature.options, option)));
+      if (index === -1) extended.features.push(feature);
+      else extended.features[index] = feature;
+    }
+    return extended;
+  }
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import { writeFileAtomic } from './FsUtil';
+import { DetachedSignature } from './FlagListSignature';
+
+export type LockedFile = {
+  /** Full URL the file was downloaded from */
+  url: string;
+  /** Hash algorithm of the digest - files listed with algorithm none are locked by their SHA512 */
+  algorithm: string;
+  /** Digest of the file contents */
+  digest: string;
+}
+export type LockedFlagList = {
+  /** Human-Readable Name */
+  name: string;
+  /** URL the list was fetched from, or flagLists/<file> for local lists */
+  url: string;
+  /** SHA512 of the list document */
+  digest: string;
+  /** Verified publisher signature of the list document, checked again when resolving offline */
+  signature?: DetachedSignature;
+  /** Every flag file the list pulled */
+  files: LockedFile[];
+}
+export type LockedRegistry = {
+  /** Registry index URL */
+  url: string;
+  /** SHA512 of the index document */
+  digest: string;
+}
+export type Lockfile = {
+  /** Format version */
+  version: 1;
+  /** Resolved flag lists, in resolution order */
+  lists: LockedFlagList[];
+  /** Registry indexes the lists were picked from */
+  registries?: LockedRegistry[];
+}
+export type LockChanges = {
+  /** URLs of lists that were not locked before */
+  added: string[];
+  /** URLs of lists that are no longer resolved */
+  removed: string[];
+  /** Lists whose document changed */
+  changed: { url: string; from: string; to: string }[];
+  /** Flag files that were not locked before */
+  addedFiles: LockedFile[];
+  /** Flag files that are no longer pulled */
+  removedFiles: LockedFile[];
+}
+
+/**
+  * Reads & writes the lockfile, which pins every resolved flag list & flag file to a digest for offline, reproducible resolution.
+  * @example ```ts
+  * const lock = new FlagListLock('./rfo-lock.json');
+  * const before = await lock.read();
+  * // ...
+  * console.log(FlagListLock.diff(before, await lock.read()));
+  * ```
+  */
+export class FlagListLock {
+  /** Current lockfile format version */
+  public static version = 1 as const;
+
+  constructor(public file: string = './rfo-lock.json') { }
+
+  /**
+    * Compares two lockfiles.
+    * @param {Lockfile | null} before Old lockfile, null if there was none
+    * @param {Lockfile | null} after New lockfile
+    * @returns {LockChanges} What changed
+    */
+  public static diff(before: Lockfile | null, after: Lockfile | null): LockChanges {
+    const beforeLists = new Map((before?.lists ?? []).map((list) => [list.url, list]));
+    const afterLists = new Map((after?.lists ?? []).map((list) => [list.url, list]));
+    const fileKey = (file: LockedFile) => `${file.url}\n${file.digest}`;
+    const beforeFiles = new Map((before?.lists ?? []).flatMap((list) => list.files).map((file) => [fileKey(file), file]));
+    const afterFiles = new Map((after?.lists ?? []).flatMap((list) => list.files).map((file) => [fileKey(file), file]));
+    return {
+      added: [...afterLists.keys()].filter((url) => !beforeLists.has(url)),
+      removed: [...beforeLists.keys()].filter((url) => !afterLists.has(url)),
+      changed: [...afterLists.values()]
+        .filter((list) => beforeLists.has(list.url) && beforeLists.get(list.url)!.digest !== list.digest)
+        .map((list) => ({ url: list.url, from: beforeLists.get(list.url)!.digest, to: list.digest })),
+      addedFiles: [...afterFiles.entries()].filter(([key]) => !beforeFiles.has(key)).map(([, file]) => file),
+      removedFiles: [...beforeFiles.entries()].filter(([key]) => !afterFiles.has(key)).map(([, file]) => file),
+    };
+  }
+
+  /**
+    * Reads the lockfile.
+    * @returns {Promise<Lockfile | null>} Lockfile, or null if it does not exist
+    */
+  public async read(): Promise<Lockfile | null> {
+    const text = await fs.readFile(this.file, 'utf-8').catch(() => null);
+    if (text === null) return null;
+    const lock = JSON.parse(text);
+    if (lock.version !== FlagListLock.version)
+      throw new Error(`Unsupported lockfile version: ${lock.version}`);
+    return lock;
+  }
+
+  /**
+    * Writes the lockfile.
+    * @param {Lockfile} lock Lockfile
+    */
+  public async write(lock: Lockfile): Promise<void> {
+    await writeFileAtomic(this.file, JSON.stringify(lock, null, 2));
+  }
+}
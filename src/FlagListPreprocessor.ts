@@ -1,38 +1,81 @@
-import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import json5 from 'json5';
-import toml from 'toml';
 import crypto from 'crypto';
-import axios from 'axios';
-import { Config, FlagList, File } from './MiscTypes';
+import { Config, Constraints, FlagList, FlagListDocument, FlagListRegistry, FlagListSource, File, RegistrySource } from './MiscTypes';
+import { DownloadCache, FsCacheStore } from './DownloadCache';
+import { FlagListValidator, ValidationIssue } from './FlagListValidator';
+import { FlagListLock, LockChanges, LockedFile, LockedFlagList, LockedRegistry, Lockfile } from './FlagListLock';
+import { FlagListComposer, FlagListCompositionError, NamespacedFlagList } from './FlagListComposer';
+import { DetachedSignature, FlagListSignature } from './FlagListSignature';
+import { CacheEvent, DownloadProgress, RFOEvents } from './RFOEvents';
+import { AxiosTransport, HttpClient } from './HttpClient';
+import { PreprocessSnapshot, Snapshot, SnapshotList, SnapshotSource } from './PreprocessSnapshot';
+import { WorkerPool } from './WorkerPool';
+import { SelectionResolver } from './SelectionResolver';
+import { StorageAdapter } from './Storage';
+import { NodeStorage } from './NodeStorage';
 
 //////
 
 export type ProcessedFeature = {
   name: string;
+  question: string | null;
   options: Record<string, string[]>;
   default: string[];
   value: string[];
   multiple: true;
   min: number;
   max: number;
+  constraints: Constraints;
+  optionConstraints: Record<string, Constraints>;
 } | {
   name: string;
+  question: string | null;
   options: Record<string, string[]>;
   default: string;
   value: string;
   multiple: false;
   min: null;
   max: null;
+  constraints: Constraints;
+  optionConstraints: Record<string, Constraints>;
 }
 export type ProcessedFlagListItem = {
   name: string;
+  /** namespace:key - unique across flag lists */
+  id: string;
   baseurl: string;
   default: boolean;
   enabled: boolean;
   base: string[];
   features: ProcessedFeature[];
+  constraints: Constraints;
 }
 export type ProcessedFlagList = Record<string, ProcessedFlagListItem>
+export type DownloadOptions = {
+  /** Cache to store the file in */
+  cache?: DownloadCache;
+  /** HTTP client to download with */
+  http?: HttpClient;
+  /** Never touch the network - resolve from the cache only */
+  offline?: boolean;
+  /** Download files even if they are cached, verifying them against their digest */
+  revalidate?: boolean;
+  /** Allow file:// & localhost sources */
+  allowLocal?: boolean;
+  /** Locked digests by URL, to find unhashed files in the cache when offline */
+  locked?: Record<string, LockedFile>;
+  /** Called with the URL & digest of every file resolved */
+  onDownload?: (file: LockedFile) => void;
+  /** Receives diagnostics */
+  log?: (message: string) => void;
+  /** Called as bytes of a file are received */
+  onProgress?: (progress: DownloadProgress) => void;
+  /** Called when a file is found in the cache */
+  onCacheHit?: (event: CacheEvent) => void;
+  /** Called when a file has to be downloaded */
+  onCacheMiss?: (event: CacheEvent) => void;
+}
 
 /**
  * Preprocesses Flag Lists, to provide easier-to-use and cached flag lists.
@@ -47,6 +90,7 @@ export class FlagListPreprocessor {
     * Downloads a file with a checksum & cache.
     * @param {File} file File to download
     * @param {string} baseUrl Base URL to prepend
+    * @param {DownloadOptions} options Cache & offline options
     * @returns Path to downloaded file
     * @example ```ts
     * const file = {
@@ -59,7 +103,8 @@ export class FlagListPreprocessor {
     * const cachedFilePath = await FlagListPreprocessor.downloadFile(file);
     * ```
     */
-  static async downloadFile(file: File, baseUrl: string = ''): Promise<string> {
+  static async downloadFile(file: File, baseUrl: string = '', options: DownloadOptions = {}): Promise<string> {
+    const { cache = new DownloadCache(), http = new HttpClient(), offline = false, revalidate = false, allowLocal = false, locked = {}, onDownload = () => { }, log = () => { }, onProgress = () => { }, onCacheHit = () => { }, onCacheMiss = () => { } } = options;
     file = {
       ...file,
       f: `${baseUrl}${file.f}`,
@@ -71,33 +116,96 @@ export class FlagListPreprocessor {
       throw new Error('FATAL: INSECURE: SHA1 is not supported');
     }
     if (file.h.algorithm !== 'none') {
-      const fileRoute = `_cache/${file.h.digest}`;
-      if (existsSync(fileRoute)) {
-        return fileRoute;
+      if (!DownloadCache.isDigest(file.h.digest)) {
+        throw new Error(`File ${file.f} has an invalid digest: ${file.h.digest}`);
+      }
+      const cached = offline || !revalidate ? await cache.get(file.h.digest, file.h.algorithm) : undefined;
+      if (cached) {
+        log(`Cache hit: ${file.f} (${file.h.algorithm} ${file.h.digest})`);
+        onCacheHit({ url: file.f, algorithm: file.h.algorithm, digest: file.h.digest });
+        onDownload({ url: file.f, algorithm: file.h.algorithm, digest: file.h.digest });
+        return cached;
+      }
+      if (offline) {
+        throw new Error(`File ${file.f} is not cached and cannot be downloaded offline`);
       }
-      const fileResponse = await axios.get(fileRoute);
+      log(`Downloading ${file.f}${revalidate ? ' (revalidating)' : ''}`);
+      onCacheMiss({ url: file.f, algorithm: file.h.algorithm, digest: file.h.digest });
+      const fileResponse = await this.request(http, file.f, allowLocal, onProgress);
       if (fileResponse.status !== 200) {
-        throw new Error(`Failed to download file ${file.f} from ${fileRoute}: ${fileResponse.status} ${fileResponse.statusText}`);
+        throw new Error(`Failed to download file ${file.f}: ${fileResponse.status} ${fileResponse.statusText}`);
       }
-      const fileBuffer = Buffer.from(fileResponse.data, 'binary');
-      const fileHash = crypto.createHash(file.h.algorithm).update(fileBuffer).digest('hex');
+      const fileHash = DownloadCache.digest(file.h.algorithm, fileResponse.data);
       if (fileHash !== file.h.digest) {
-        throw new Error(`File ${file.f} from ${fileRoute} has an invalid hash`);
+        throw new Error(`File ${file.f} has an invalid hash`);
+      }
+      onDownload({ url: file.f, algorithm: file.h.algorithm, digest: fileHash });
+      return await cache.put(fileResponse.data, { source: file.f, algorithm: file.h.algorithm, digest: fileHash });
+    } else if (offline) {
+      const lockedFile = locked[file.f];
+      if (lockedFile && !DownloadCache.isDigest(lockedFile.digest)) {
+        throw new Error(`File ${file.f} has an invalid digest in the lockfile: ${lockedFile.digest}`);
+      }
+      const cached = lockedFile && await cache.get(lockedFile.digest, lockedFile.algorithm);
+      if (!cached) {
+        throw new Error(`File ${file.f} is not ${lockedFile ? 'cached' : 'in the lockfile'} and cannot be downloaded offline`);
       }
-      writeFileSync(fileRoute, fileBuffer);
-      return fileRoute;
+      log(`Cache hit: ${file.f} (locked ${lockedFile.algorithm} ${lockedFile.digest})`);
+      onCacheHit({ url: file.f, algorithm: lockedFile.algorithm, digest: lockedFile.digest });
+      onDownload(lockedFile);
+      return cached;
     } else {
-      const fileResponse = await axios.get(file.f, { responseType: 'arraybuffer' });
+      log(`Downloading ${file.f} (unhashed)`);
+      onCacheMiss({ url: file.f, algorithm: 'none', digest: null });
+      const fileResponse = await this.request(http, file.f, allowLocal, onProgress);
       if (fileResponse.status !== 200) {
         throw new Error(`Failed to download file ${file.f}: ${fileResponse.status} ${fileResponse.statusText}`);
       }
-      const fileBuffer = Buffer.from(fileResponse.data, 'binary');
-      const fileHash = crypto.createHash('SHA512').update(fileBuffer).digest('hex');
-      writeFileSync(`_cache/${fileHash}`, fileBuffer);
-      return `_cache/${fileHash}`;
+      const fileHash = DownloadCache.digest('SHA512', fileResponse.data);
+      onDownload({ url: file.f, algorithm: 'SHA512', digest: fileHash });
+      return await cache.put(fileResponse.data, { source: file.f, algorithm: 'SHA512', digest: fileHash });
     }
   }
 
+  /**
+    * Checks whether a URL points at this machine - file:// & localhost sources are only allowed in dev mode.
+    * @param {string} url URL
+    * @returns {boolean} Whether it is local
+    * @example ```ts
+    * FlagListPreprocessor.isLocalSource('file:///home/me/flaglists.json5'); // => true
+    * FlagListPreprocessor.isLocalSource('http://localhost:8080/flaglists.json5'); // => true
+    * ```
+    */
+  public static isLocalSource(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return false;
+    }
+    if (parsed.protocol === 'file:') return true;
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    return host === 'localhost' || host.endsWith('.localhost') || /^127\./.test(host) || host === '::1' || host === '0.0.0.0';
+  }
+
+  /**
+    * Internal Method
+    */
+  private static pickConstraints(constraints: Constraints): Constraints {
+    const { requires, conflicts, platforms } = constraints;
+    return { ...(requires ? { requires } : {}), ...(conflicts ? { conflicts } : {}), ...(platforms ? { platforms } : {}) };
+  }
+
+  /**
+    * Internal Method
+    */
+  private static async request(http: HttpClient, url: string, allowLocal: boolean, onProgress: (progress: DownloadProgress) => void = () => { }): Promise<{ status: number; statusText: string; data: Buffer }> {
+    if (!allowLocal && this.isLocalSource(url))
+      throw new Error(`${url} is a local source, which is only allowed in dev mode`);
+    return await http.get(url, (loaded, total) => onProgress({ url, loaded, total }));
+  }
+
+
   /**
    * Merges obj and defaultObj, defaulting obj to defaultObj.
    * @param {T} obj Object to default
@@ -145,6 +253,25 @@ export class FlagListPreprocessor {
     return crypto.createHash('SHA512').update(hash).digest('hex');
   }
 
+  /**
+    * Finds a flag list item by its key or namespace:key in processed flag lists - see {@link SelectionResolver.findListItem}.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {string} key Flag list key, or namespace:key
+    * @returns {ProcessedFlagListItem | undefined} The first item with that key, or the item with that id
+    */
+  public static findListItem(processedFlagLists: ProcessedFlagList[], key: string): ProcessedFlagListItem | undefined {
+    return SelectionResolver.findListItem(processedFlagLists, key);
+  }
+
+  /**
+    * Lists every flag list item under a unique reference - see {@link SelectionResolver.entries}.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @returns {[string, ProcessedFlagListItem][]} Items by reference, in order
+    */
+  public static entries(processedFlagLists: ProcessedFlagList[]): [string, ProcessedFlagListItem][] {
+    return SelectionResolver.entries(processedFlagLists);
+  }
+
   /**
     * Flag List Dir
     */
@@ -156,31 +283,163 @@ export class FlagListPreprocessor {
     */
   public config: Config;
   /**
-    * The flag lists.
-    * @type {FlagList[]}
+    * The flag lists, as published.
+    * @type {FlagListDocument[]}
     * @private @internal
     */
-  private flagLists: FlagList[];
+  private flagLists: FlagListDocument[];
+  /**
+    * The download cache - assign a {@link DownloadCache} with a custom {@link CacheStore} to replace it.
+    * @type {DownloadCache}
+    */
+  public cache: DownloadCache;
+  /**
+    * The lockfile
+    * @type {FlagListLock}
+    */
+  public lock: FlagListLock;
+  /**
+    * The preprocessing snapshot
+    * @type {PreprocessSnapshot}
+    */
+  public snapshot: PreprocessSnapshot;
+  /**
+    * Resolves flag files - its size follows config.network.workers
+    * @type {WorkerPool}
+    */
+  public workers: WorkerPool;
+  /**
+    * Progress events & log entries
+    * @type {RFOEvents}
+    */
+  public events = new RFOEvents();
+  /**
+    * The HTTP client - assign an {@link HttpClient} with a custom {@link Transport} to replace it. Its options follow config.network.
+    * @type {HttpClient}
+    */
+  public http: HttpClient;
+  /**
+    * Config values that take precedence over the config file, e.g. `{ lock: { offline: true } }`
+    */
+  public configOverrides: Record<string, any> = {};
+  /**
+    * Where each fetched flag list came from
+    * @private @internal
+    */
+  private flagListSources = new WeakMap<FlagListDocument, Omit<LockedFlagList, 'files'>>();
+  /**
+    * Namespaces requested by the sources of fetched flag lists
+    * @private @internal
+    */
+  private flagListNamespaces = new WeakMap<FlagListDocument, string>();
+  /**
+    * The lockfile being resolved from in offline mode
+    * @private @internal
+    */
+  private locked: Lockfile | null = null;
+  /**
+    * Lock entries recorded during processing
+    * @private @internal
+    */
+  private lockedLists: LockedFlagList[] = [];
+  /**
+    * Registry indexes fetched during processing
+    * @private @internal
+    */
+  private lockedRegistries: LockedRegistry[] = [];
+  /**
+    * The lockfile of the previous run, compared against when config.hashChecks.update is set
+    * @private @internal
+    */
+  private previousLock: Lockfile | null = null;
+  /**
+    * URLs of the flag lists the last run found unchanged & resolved from the lockfile, with config.hashChecks.update set
+    */
+  public unchanged: string[] = [];
+  /**
+    * The snapshot of the previous run, reused from where inputs are unchanged
+    * @private @internal
+    */
+  private previousSnapshot: Snapshot | null = null;
+  /**
+    * Flag list documents fetched during processing, for the snapshot
+    * @private @internal
+    */
+  private snapshotSources: SnapshotSource[] = [];
+  /**
+    * URLs of the flag lists the last run reused from the snapshot, without processing them
+    */
+  public reused: string[] = [];
+  /**
+    * URLs of the flag lists the server reported unmodified in the last run
+    */
+  public notModified: string[] = [];
 
-  constructor() {
-    this.config = this.loadConfig();
+  /**
+    * @param {StorageAdapter} storage Where the config & local flag lists are read from
+    */
+  constructor(public storage: StorageAdapter = new NodeStorage()) {
+    // Storage is async - the config is read from disk here, and through storage by every run
+    this.config = storage instanceof NodeStorage ? this.loadConfig(storage.locate('./config.json5')) : this.loadConfig(undefined, null);
     this.flagLists = [];
+    this.cache = new DownloadCache(new FsCacheStore(this.config.cache.dir));
+    this.lock = new FlagListLock(this.config.lock.file);
+    this.snapshot = new PreprocessSnapshot(this.config.snapshot.file);
+    this.http = new HttpClient(new AxiosTransport(), this.config.network);
+    this.workers = new WorkerPool(this.config.network.workers);
   }
 
   /**
     * Loads the config from a specified file.
     * @param {string} configFile Path to config file
+    * @param {string | null} configText Contents of the config file, null if there is none - read from disk if omitted
     * @returns {Config} Config
     * @example ```ts
     * const config = preprocessor.loadConfig('./config.json5'); // => config with default values inserted where undefined
     * ```
     */
-  public loadConfig(configFile: string = './config.json5'): Config {
+  public loadConfig(configFile: string = './config.json5', configText?: string | null): Config {
     const defaultConfig: Config = {
       dev: false,
       hashChecks: {
         update: false,
-        flags: false,
+        flags: true,
+      },
+      validation: 'strict',
+      cache: {
+        dir: '_cache',
+        maxSize: 0,
+        maxAge: 0,
+      },
+      backups: {
+        dir: '_backups',
+        keep: 20,
+      },
+      profiles: {
+        dir: 'profiles',
+      },
+      benchmarks: {
+        dir: 'benchmarks',
+      },
+      lock: {
+        file: 'rfo-lock.json',
+        offline: false,
+      },
+      snapshot: {
+        file: 'rfo-snapshot.json',
+      },
+      network: {
+        timeout: 30000,
+        retries: 3,
+        retryDelay: 500,
+        concurrency: 8,
+        workers: 8,
+        proxy: '',
+      },
+      trust: {
+        keys: {},
+        policy: 'ignore',
+        localPolicy: 'ignore',
       },
       urls: {
         flagLists: [],
@@ -188,82 +447,383 @@ export class FlagListPreprocessor {
           name: 'Default Flags',
           url: 'https://raw.githubusercontent.com/rbxflags/Flags/main/flaglists.json5',
         },
+        registries: [],
       },
     };
-    const configData = existsSync(configFile) ? json5.parse(readFileSync(configFile, 'utf-8')) : {};
-    return FlagListPreprocessor.defaultRecursive(configData, defaultConfig);
+    if (configText === undefined) configText = existsSync(configFile) ? readFileSync(configFile, 'utf-8') : null;
+    const configData = configText === null ? {} : json5.parse(configText);
+    return FlagListPreprocessor.defaultRecursive(JSON.parse(JSON.stringify(this.configOverrides ?? {})), FlagListPreprocessor.defaultRecursive(configData, defaultConfig));
+  }
+
+  /**
+    * Reads & loads the config through storage.
+    * @param {string} configFile Config file key
+    * @returns {Promise<Config>} Config
+    */
+  public async readConfig(configFile: string = './config.json5'): Promise<Config> {
+    return this.loadConfig(configFile, await this.storage.read(configFile) ?? null);
+  }
+
+  /**
+    * Fetches a registry index, resolving the URLs of its lists.
+    * @param {RegistrySource} registry Registry, and the lists to pick from it
+    * @returns {Promise<FlagListRegistry['lists']>} Sources of the picked lists
+    * @example ```ts
+    * const lists = await preprocessor.fetchRegistry({ url: 'https://example.com/registry.json5' });
+    * lists.map((list) => list.name); // => ['Competitive', 'Potato PC']
+    * ```
+    */
+  public async fetchRegistry(registry: RegistrySource): Promise<FlagListRegistry['lists']> {
+    let registryText: string;
+    if (this.locked) {
+      const lockedRegistry = this.locked.registries?.find((locked) => locked.url === registry.url);
+      const registryBuffer = lockedRegistry && await this.cache.read(lockedRegistry.digest, 'SHA512');
+      if (!registryBuffer)
+        throw new Error(`Registry ${registry.url} is not ${lockedRegistry ? 'cached' : 'in the lockfile'} and cannot be fetched offline`);
+      registryText = registryBuffer.toString('utf-8');
+    } else {
+      this.debug(`Fetching registry ${registry.url}`);
+      const registryResponse = await FlagListPreprocessor.request(this.http, registry.url, this.config.dev);
+      if (registryResponse.status !== 200)
+        throw new Error(`Failed to fetch registry ${registry.url}: ${registryResponse.status} ${registryResponse.statusText}`);
+      registryText = registryResponse.data.toString('utf-8');
+    }
+    const digest = FlagListPreprocessor.sha512digest(registryText);
+    if (!this.locked)
+      await this.cache.put(Buffer.from(registryText), { source: registry.url, algorithm: 'SHA512', digest });
+    if (!this.lockedRegistries.some((locked) => locked.url === registry.url))
+      this.lockedRegistries.push({ url: registry.url, digest });
+    let index: FlagListRegistry;
+    try {
+      index = FlagListValidator.parse(registryText, registry.url) as FlagListRegistry;
+    } catch (error) {
+      this.events.error(`Failed to parse registry ${registry.url}`, error);
+      throw new Error(`Failed to parse registry ${registry.url}`);
+    }
+    if (!Array.isArray(index?.lists) || index.lists.some((list) => typeof list?.name !== 'string' || typeof list.url !== 'string'))
+      throw new Error(`Invalid registry ${registry.url}, expected lists with name & url`);
+    const picked = index.lists.filter((list) => !registry.lists || registry.lists.includes(list.name) || registry.lists.includes(list.namespace));
+    for (const wanted of registry.lists ?? [])
+      if (!picked.some((list) => list.name === wanted || list.namespace === wanted))
+        this.events.warn(`Registry ${registry.url} has no flag list ${wanted}`);
+    // Registries are not trusted to weaken trust.policy - their lists are verified like any other
+    return picked.map(({ signature, signatureUrl, ...list }) => ({
+      ...list,
+      url: FlagListComposer.resolveUrl(list.url, registry.url),
+      ...(list.mirrors ? { mirrors: list.mirrors.map((mirror) => FlagListComposer.resolveUrl(mirror, registry.url)) } : {}),
+    }));
   }
 
   /**
     * Internal Method
     */
-  private async fetchFlagLists(): Promise<void> {
-    // push from config
-    const flagListsData = await Promise.all([
-      this.fetchFlagList(this.config.urls.defaultFlagList),
-      ...this.config.urls.flagLists.map((flagList) => this.fetchFlagList(flagList)),
-    ]);
-    this.flagLists = flagListsData.filter((flagList) => flagList !== null) as FlagList[];
+  private async fetchFlagLists(): Promise<FlagListDocument[]> {
+    const registries = await Promise.all(this.config.urls.registries.map((registry) => this.fetchRegistry(registry)));
+    const roots = [this.config.urls.defaultFlagList, ...this.config.urls.flagLists, ...registries.flat()];
+    const documents = new Map<string, Promise<FlagListDocument | null>>();
+    const sources = new Map<string, FlagListSource>();
+    const includes = new Map<string, string[]>();
+    const visit = (source: FlagListSource, loading: Promise<FlagListDocument | null>): Promise<void> => {
+      documents.set(source.url, loading);
+      sources.set(source.url, source);
+      return loading.then(async (flagList) => {
+        if (!flagList) return;
+        const included = FlagListComposer.includes(flagList, source.url);
+        includes.set(source.url, included.map((includedSource) => includedSource.url));
+        await Promise.all(included.map(async (includedSource) => {
+          // Lists reached more than once are only fetched once
+          if (documents.has(includedSource.url)) {
+            this.debug(`Flag list ${includedSource.url} included by ${source.url} is already resolved`);
+            return;
+          }
+          if (includedSource.url.startsWith('flagLists/'))
+            throw new Error(`Flag list ${source.name} includes ${includedSource.url}, which does not exist`);
+          await visit(includedSource, this.fetchFlagList(includedSource));
+        }));
+      });
+    };
+    // push from config & registries
+    const fetching: Promise<void>[] = [];
+    for (const root of roots)
+      if (!documents.has(root.url)) fetching.push(visit(root, this.fetchFlagList(root)));
+    await Promise.all(fetching);
     // push from disk
-    this.flagLists.push(...this.readLocalFlagLists());
+    const localLists = (await this.readLocalFlagLists()).map((flagList) => ({ flagList, source: this.flagListSources.get(flagList)! }));
+    await Promise.all(localLists.map(({ flagList, source }) => visit({ name: source.name, url: source.url }, Promise.resolve(flagList))));
+
+    const order = [...new Set([...roots.map((root) => root.url), ...localLists.map(({ source }) => source.url)])];
+    const cycle = FlagListComposer.findCycle(includes, order);
+    if (cycle) throw new FlagListCompositionError('Circular include', cycle);
+    // Every list comes before the lists it includes
+    const ordered: string[] = [];
+    const add = (url: string) => {
+      if (ordered.includes(url)) return;
+      ordered.push(url);
+      (includes.get(url) ?? []).forEach(add);
+    };
+    order.forEach(add);
+    const flagLists: FlagListDocument[] = [];
+    for (const url of ordered) {
+      const flagList = await documents.get(url);
+      if (!flagList) continue;
+      const namespace = sources.get(url)?.namespace;
+      if (namespace) this.flagListNamespaces.set(flagList, namespace);
+      flagLists.push(flagList);
+    }
+    return flagLists;
   }
 
   /**
     * Internal Method
     */
-  private async fetchFlagList(flagListUrl: { name: string; url: string }): Promise<FlagList | null> {
+  private async fetchFlagList(flagListUrl: FlagListSource): Promise<FlagListDocument | null> {
+    const event = { name: flagListUrl.name, url: flagListUrl.url };
+    this.events.emit('fetchStart', event);
     try {
-      const flagResponse = await axios.get(flagListUrl.url);
-      if (flagResponse.status !== 200) {
-        console.warn(`Failed to fetch flag list ${flagListUrl.name} from ${flagListUrl.url}`);
-        return null;
+      const flagList = await this.loadFlagList(flagListUrl);
+      this.events.emit('fetchEnd', flagList
+        ? { ...event, status: this.locked ? 'cached' : this.notModified.includes(flagListUrl.url) ? 'not-modified' : 'fetched', digest: this.flagListSources.get(flagList)!.digest }
+        : { ...event, status: 'failed', digest: null });
+      if (flagList) this.events.info(`${this.locked ? 'Loaded' : 'Fetched'} flag list ${flagListUrl.name} from ${flagListUrl.url}`);
+      return flagList;
+    } catch (error) {
+      this.events.emit('fetchEnd', { ...event, status: 'failed', digest: null, error });
+      throw error;
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private async loadFlagList(flagListUrl: FlagListSource): Promise<FlagListDocument | null> {
+    const policy = flagListUrl.signature ?? this.config.trust.policy;
+    let flagListText: string;
+    let signature: DetachedSignature | null;
+    let flagListJson: unknown;
+    let validators: Pick<SnapshotSource, 'etag' | 'lastModified'> = {};
+    if (this.locked) {
+      const lockedList = this.locked.lists.find((list) => list.url === flagListUrl.url);
+      const flagListBuffer = lockedList && await this.cache.read(lockedList.digest, 'SHA512');
+      if (!flagListBuffer)
+        throw new Error(`Flag list ${flagListUrl.name} from ${flagListUrl.url} is not ${lockedList ? 'cached' : 'in the lockfile'} and cannot be fetched offline`);
+      flagListText = flagListBuffer.toString('utf-8');
+      signature = lockedList.signature ?? null;
+    } else {
+      const urls = [flagListUrl.url, ...(flagListUrl.mirrors ?? [])];
+      for (const url of urls)
+        if (!this.config.dev && FlagListPreprocessor.isLocalSource(url))
+          throw new Error(`Flag list ${flagListUrl.name} from ${url} is a local source, which is only allowed in dev mode`);
+      // Ask for the list only if it changed since the snapshot, as long as the copy it refers to is still cached
+      const previous = this.previousSnapshot?.sources.find((source) => source.url === flagListUrl.url);
+      const cachedBuffer = previous && (previous.etag || previous.lastModified) ? await this.cache.read(previous.digest, 'SHA512') : undefined;
+      const conditionalHeaders = cachedBuffer ? {
+        ...(previous.etag ? { 'If-None-Match': previous.etag } : {}),
+        ...(previous.lastModified ? { 'If-Modified-Since': previous.lastModified } : {}),
+      } : undefined;
+      this.debug(`Fetching flag list ${flagListUrl.name} from ${urls.join(', ')}${conditionalHeaders ? ' (conditionally)' : ''}`);
+      const { url, response: flagResponse } = await this.http.getFirst(urls, undefined, conditionalHeaders).catch((error) => {
+        this.events.error(`Failed to fetch flag list ${flagListUrl.name} from ${flagListUrl.url}`, error);
+        throw new Error(`Failed to fetch flag list ${flagListUrl.name} from ${flagListUrl.url}`);
+      });
+      if (flagResponse.status === 304 && cachedBuffer) {
+        this.debug(`Flag list ${flagListUrl.url} is not modified, using the cached copy`);
+        this.notModified.push(flagListUrl.url);
+        flagListText = cachedBuffer.toString('utf-8');
+        signature = previous.signature ?? null;
+        validators = { etag: flagResponse.headers?.['etag'] ?? previous.etag, lastModified: flagResponse.headers?.['last-modified'] ?? previous.lastModified };
+      } else {
+        if (flagResponse.status !== 200) {
+          this.events.warn(`Failed to fetch flag list ${flagListUrl.name} from ${flagListUrl.url}: ${flagResponse.status} ${flagResponse.statusText}`);
+          return null;
+        }
+        if (url !== flagListUrl.url)
+          this.events.warn(`Fetched flag list ${flagListUrl.name} from mirror ${url}`);
+        flagListText = flagResponse.data.toString('utf-8');
+        signature = policy === 'ignore' ? null : await this.fetchSignature(flagListUrl.signatureUrl ?? `${url}.sig`);
+        validators = { etag: flagResponse.headers?.['etag'], lastModified: flagResponse.headers?.['last-modified'] };
       }
-      const flagListText = flagResponse.data;
-      const flagListJson = json5.parse(flagListText) as FlagList;
-      return flagListJson;
+    }
+    const signedBy = FlagListSignature.check(flagListText, signature, this.config.trust.keys, policy, `${flagListUrl.name} (${flagListUrl.url})`, (error) => this.events.warn(error.message, error));
+    if (signedBy) this.debug(`Flag list ${flagListUrl.url} is signed by ${signedBy}`);
+    try {
+      flagListJson = FlagListValidator.parse(flagListText, flagListUrl.url);
     } catch (error) {
-      console.error(error);
+      this.events.error(`Failed to parse flag list ${flagListUrl.name} from ${flagListUrl.url}`, error);
       throw new Error(`Failed to parse flag list ${flagListUrl.name} from ${flagListUrl.url}`);
     }
+    const digest = FlagListPreprocessor.sha512digest(flagListText);
+    this.debug(`Flag list ${flagListUrl.url} has digest ${digest.slice(0, 16)}`);
+    if (!this.locked) {
+      await this.cache.put(Buffer.from(flagListText), { source: flagListUrl.url, algorithm: 'SHA512', digest });
+      this.snapshotSources.push({
+        url: flagListUrl.url,
+        digest,
+        ...(validators.etag ? { etag: validators.etag } : {}),
+        ...(validators.lastModified ? { lastModified: validators.lastModified } : {}),
+        ...(signedBy ? { signature } : {}),
+      });
+    }
+    const flagList: FlagListDocument = FlagListValidator.check(flagListJson, this.config.validation, `${flagListUrl.name} (${flagListUrl.url})`, this.onValidationIssue(`${flagListUrl.name} (${flagListUrl.url})`));
+    this.flagListSources.set(flagList, { name: flagListUrl.name, url: flagListUrl.url, digest, ...(signedBy ? { signature } : {}) });
+    return flagList;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async fetchSignature(signatureUrl: string): Promise<DetachedSignature | null> {
+    try {
+      const signatureResponse = await FlagListPreprocessor.request(this.http, signatureUrl, this.config.dev);
+      return signatureResponse.status === 200 ? FlagListSignature.parse(signatureResponse.data.toString('utf-8')) : null;
+    } catch (error) {
+      return null;
+    }
   }
 
   /**
     * Internal Method
     */
-  private readLocalFlagLists(): FlagList[] {
-    const flagListFiles = existsSync(this.flagListDir) ? readdirSync(this.flagListDir) : [];
-    return flagListFiles.map((flagList) => {
-      const flagListText = readFileSync(`${this.flagListDir}/${flagList}`, 'utf-8');
+  private async readLocalFlagLists(): Promise<FlagListDocument[]> {
+    const flagListFiles = (await this.storage.list(this.flagListDir)).filter((file) => !file.endsWith('.sig'));
+    return await Promise.all(flagListFiles.map(async (flagList) => {
+      const flagListText = await this.storage.read(`${this.flagListDir}/${flagList}`);
+      if (flagListText === undefined) throw new Error(`Failed to read flag list ${flagList}`);
+      const signatureFile = `${this.flagListDir}/${flagList}.sig`;
+      let signature: DetachedSignature | null = null;
       try {
-        const flagListJson = (flagList.toLowerCase().endsWith('json') ? JSON.parse : flagList.endsWith('toml') ? toml.parse : json5.parse)(flagListText) as FlagList;
-        return flagListJson;
+        const signatureText = await this.storage.read(signatureFile);
+        if (signatureText !== undefined) signature = FlagListSignature.parse(signatureText);
       } catch (error) {
-        console.error(error);
+        // Checked as unsigned below, so the policy decides
+        this.events.warn(`Ignoring unreadable signature file ${signatureFile}`, error);
+      }
+      FlagListSignature.check(flagListText, signature, this.config.trust.keys, this.config.trust.localPolicy, flagList, (error) => this.events.warn(error.message, error));
+      let flagListJson: unknown;
+      try {
+        flagListJson = FlagListValidator.parse(flagListText, flagList);
+      } catch (error) {
+        this.events.error(`Failed to parse flag list ${flagList}`, error);
         throw new Error(`Failed to parse flag list ${flagList}`);
       }
+      const flagListChecked: FlagListDocument = FlagListValidator.check(flagListJson, this.config.validation, flagList, this.onValidationIssue(flagList));
+      this.flagListSources.set(flagListChecked, { name: flagList, url: `flagLists/${flagList}`, digest: FlagListPreprocessor.sha512digest(flagListText) });
+      return flagListChecked;
+    }));
+  }
+
+  /**
+    * Internal Method
+    */
+  private async processFlagLists(): Promise<SnapshotList[]> {
+    // Lists are processed side by side, their files bounded by the worker pool - results & lock entries keep list order
+    return await Promise.all(this.composeFlagLists().map(({ namespace, flagList }) => this.processFlagList(flagList, namespace)));
+  }
+
+  /**
+    * Internal Method
+    */
+  private composeFlagLists(): { namespace: string; flagList: FlagList }[] {
+    const taken = new Set<string>();
+    const namespaced: NamespacedFlagList[] = this.flagLists.map((flagList) => {
+      const source = this.flagListSources.get(flagList);
+      const namespace = FlagListComposer.namespace(flagList, { name: source?.name ?? 'inline', namespace: this.flagListNamespaces.get(flagList) }, taken);
+      if (flagList.$namespace && namespace !== flagList.$namespace)
+        this.events.warn(`Namespace ${flagList.$namespace} of ${source?.url ?? 'an inline flag list'} is already taken, using ${namespace}`);
+      return { namespace, flagList };
+    });
+    return FlagListComposer.compose(namespaced).map((flagList, index) => {
+      const { namespace, flagList: document } = namespaced[index];
+      const source = this.flagListSources.get(document);
+      if (source) this.flagListSources.set(flagList, source);
+      // Extensions were only checked for what they set - check what they became
+      const extended = Object.fromEntries(FlagListComposer.items(document).filter(([, item]) => FlagListComposer.isExtension(item)).map(([key]) => [key, flagList[key]]));
+      const name = source ? `${source.name} (${source.url})` : 'flag list';
+      if (Object.keys(extended).length > 0) {
+        const valid = FlagListValidator.check(extended, this.config.validation, name, this.onValidationIssue(name));
+        for (const key of Object.keys(extended))
+          if (!(key in valid)) delete flagList[key];
+      }
+      return { namespace, flagList };
     });
   }
 
   /**
     * Internal Method
     */
-  private async processFlagLists(): Promise<ProcessedFlagList[]> {
-    const processedFlagLists: ProcessedFlagList[] = [];
-    for (const flagList of this.flagLists) {
-      const processedFlagList = await this.processFlagList(flagList);
-      processedFlagLists.push(processedFlagList);
+  private async processFlagList(flagList: FlagList, namespace: string): Promise<SnapshotList> {
+    const source = this.flagListSources.get(flagList) ?? (() => {
+      const flagListText = JSON.stringify(flagList);
+      return { name: 'Inline Flag List', url: `inline:${FlagListPreprocessor.sha512digest(flagListText).slice(0, 16)}`, digest: FlagListPreprocessor.sha512digest(flagListText) };
+    })();
+    const lockedList: LockedFlagList = { ...source, files: [] };
+    // Processed output depends on the composed list, its namespace & where the cache hands out files - any valid key shows where
+    const input = PreprocessSnapshot.input([namespace, this.cache.store.locate(FlagListPreprocessor.sha512digest('')), flagList]);
+    const snapshotted = this.config.hashChecks.flags
+      ? this.previousSnapshot?.lists.find((list) => list.lock.url === source.url && list.input === input)
+      : undefined;
+    if (snapshotted) {
+      // Files are re-verified like any other cache read, so deleted or tampered ones are downloaded again below
+      const cached = await Promise.all(snapshotted.lock.files.map((file) => DownloadCache.isDigest(file.digest)
+        ? this.workers.run(() => this.cache.get(file.digest, file.algorithm))
+        : undefined));
+      const missing = cached.filter((location) => !location);
+      if (missing.length === 0) {
+        this.debug(`Flag list ${source.url} is unchanged, reused from the snapshot`);
+        this.reused.push(source.url);
+        return { input, lock: { ...lockedList, files: snapshotted.lock.files }, processed: snapshotted.processed };
+      }
+      this.debug(`Flag list ${source.url} is unchanged, but ${missing.length} of its files are no longer cached or intact`);
     }
-    return processedFlagLists;
+    const downloadOptions: DownloadOptions = {
+      cache: this.cache,
+      http: this.http,
+      offline: this.locked !== null,
+      revalidate: !this.config.hashChecks.flags,
+      allowLocal: this.config.dev,
+      locked: Object.fromEntries((this.locked?.lists ?? []).flatMap((list) => list.files).map((file) => [file.url, file])),
+      onDownload: (file) => {
+        if (!lockedList.files.some((lockedFile) => lockedFile.url === file.url && lockedFile.digest === file.digest))
+          lockedList.files.push(file);
+      },
+      log: (message) => this.debug(message),
+      onProgress: (progress) => this.events.emit('downloadProgress', progress),
+      onCacheHit: (event) => this.events.emit('cacheHit', event),
+      onCacheMiss: (event) => this.events.emit('cacheMiss', event),
+    };
+    // Unchanged since the last run - resolve from the previous lock entry instead of downloading again
+    const previous = this.config.hashChecks.update && this.config.hashChecks.flags && !this.locked
+      ? this.previousLock?.lists.find((list) => list.url === source.url && list.digest === source.digest)
+      : undefined;
+    if (previous) {
+      try {
+        const processedFlagList = await this.processFlagListItems(flagList, namespace, {
+          ...downloadOptions,
+          offline: true,
+          locked: Object.fromEntries(previous.files.map((file) => [file.url, file])),
+        });
+        this.debug(`Flag list ${source.url} is unchanged (${source.digest.slice(0, 16)}), resolved from the lockfile`);
+        this.unchanged.push(source.url);
+        lockedList.files.sort((a, b) => a.url.localeCompare(b.url));
+        return { input, lock: lockedList, processed: processedFlagList };
+      } catch (error) {
+        this.debug(`Flag list ${source.url} is unchanged, but not fully cached: ${error.message}`);
+        lockedList.files = [];
+      }
+    }
+    const processedFlagList = await this.processFlagListItems(flagList, namespace, downloadOptions);
+    lockedList.files.sort((a, b) => a.url.localeCompare(b.url));
+    return { input, lock: lockedList, processed: processedFlagList };
   }
 
   /**
     * Internal Method
     */
-  private async processFlagList(flagList: FlagList): Promise<ProcessedFlagList> {
+  private async processFlagListItems(flagList: FlagList, namespace: string, downloadOptions: DownloadOptions): Promise<ProcessedFlagList> {
     const processedFlagList: ProcessedFlagList = {};
     for (const [name, flagListItem] of Object.entries(flagList)) {
       const { baseurl, base, features } = flagListItem;
-      const baseFiles = await Promise.all(base.map((file) => FlagListPreprocessor.downloadFile(file, baseurl)));
+      const download = (file: File) => this.workers.run(() => FlagListPreprocessor.downloadFile(file, baseurl, downloadOptions));
+      const baseFiles = await Promise.all(base.map(download));
       const processedFeatures = await Promise.all(
         features.map(async (feature) => {
           if (!feature.name) {
@@ -271,7 +831,7 @@ export class FlagListPreprocessor {
           }
           const processedOptions = await Promise.all(
             Object.entries(feature.options).map(async ([optionName, files]) => {
-              const filesDownloaded = await Promise.all(files.map((file) => FlagListPreprocessor.downloadFile(file, baseurl)));
+              const filesDownloaded = await Promise.all(files.map(download));
               return {
                 name: optionName,
                 files: filesDownloaded,
@@ -280,31 +840,39 @@ export class FlagListPreprocessor {
           );
           const processedFeature: ProcessedFeature = feature.multiple ? {
             name: feature.name,
+            question: feature.question ?? null,
             options: Object.fromEntries(processedOptions.map((option) => [option.name, option.files])),
             default: feature.default,
             value: feature.default,
             multiple: true,
             min: feature.min,
             max: feature.max,
+            constraints: FlagListPreprocessor.pickConstraints(feature),
+            optionConstraints: feature.optionConstraints ?? {},
           } : {
             name: feature.name,
+            question: feature.question ?? null,
             options: Object.fromEntries(processedOptions.map((option) => [option.name, option.files])),
             default: feature.default,
             value: feature.default,
             multiple: false,
             min: null,
             max: null,
+            constraints: FlagListPreprocessor.pickConstraints(feature),
+            optionConstraints: feature.optionConstraints ?? {},
           }
           return processedFeature;
         })
       );
       const processedFlagListItem: ProcessedFlagListItem = {
         name,
+        id: `${namespace}:${name}`,
         baseurl,
         default: flagListItem.default,
         base: baseFiles,
         features: processedFeatures,
         enabled: flagListItem.default,
+        constraints: FlagListPreprocessor.pickConstraints(flagListItem),
       };
       processedFlagList[name] = processedFlagListItem;
     }
@@ -313,21 +881,114 @@ export class FlagListPreprocessor {
 
   /**
     * Processes the flag lists.
-    * @param {FlagList[]} flagLists Flag lists to process
+    * Resolves from the cache & lockfile only if config.lock.offline is set, otherwise records what was resolved in the lockfile.
+    * Lists whose inputs are unchanged since the last run are reused from the snapshot, see config.snapshot.
+    * @param {FlagListDocument[]} flagLists Flag lists to process
     * @param {boolean} pushFlagListsFromDisk Whether to include flag lists in the flagLists/ dir & from the config
     * @returns {Promise<ProcessedFlagList[]>} Processed flag lists
     * @example ```ts
     * const processedFlagLists = await preprocessor.process(); // => processed flag lists
     * ```
     */
-  public async process(flagLists: FlagList[] | null = null, pushFlagListsFromDisk: boolean = true): Promise<ProcessedFlagList[]> {
-    if (!existsSync('_cache'))
-      mkdirSync('_cache');
-    this.config = this.loadConfig();
-    if (flagLists)
-      this.flagLists.push(...flagLists);
-    if (pushFlagListsFromDisk)
-      await this.fetchFlagLists();
-    return await this.processFlagLists();
+  public async process(flagLists: FlagListDocument[] | null = null, pushFlagListsFromDisk: boolean = true): Promise<ProcessedFlagList[]> {
+    this.config = await this.readConfig();
+    return await this.resolve(flagLists, pushFlagListsFromDisk, this.config.lock.offline);
+  }
+
+  /**
+    * Processes the flag lists online, refreshing the lockfile.
+    * @param {FlagListDocument[]} flagLists Flag lists to process
+    * @param {boolean} pushFlagListsFromDisk Whether to include flag lists in the flagLists/ dir & from the config
+    * @returns Processed flag lists, and what changed in the lockfile
+    * @example ```ts
+    * const { changes } = await preprocessor.update();
+    * console.log(changes.changed); // => [{ url: 'https://.../flaglists.json5', from: '...', to: '...' }]
+    * ```
+    */
+  public async update(flagLists: FlagListDocument[] | null = null, pushFlagListsFromDisk: boolean = true): Promise<{ processed: ProcessedFlagList[]; changes: LockChanges }> {
+    this.config = await this.readConfig();
+    this.lock = new FlagListLock(this.config.lock.file);
+    const before = await this.lock.read();
+    const processed = await this.resolve(flagLists, pushFlagListsFromDisk, false);
+    return { processed, changes: FlagListLock.diff(before, await this.lock.read()) };
+  }
+
+  /**
+    * Internal Method
+    */
+  private async resolve(flagLists: FlagListDocument[] | null, pushFlagListsFromDisk: boolean, offline: boolean): Promise<ProcessedFlagList[]> {
+    const startedAt = Date.now();
+    if (this.cache.store instanceof FsCacheStore && this.cache.store.root !== this.config.cache.dir)
+      this.cache = new DownloadCache(new FsCacheStore(this.config.cache.dir));
+    if (this.lock.file !== this.config.lock.file)
+      this.lock = new FlagListLock(this.config.lock.file);
+    if (this.config.snapshot.file && this.snapshot.file !== this.config.snapshot.file)
+      this.snapshot = new PreprocessSnapshot(this.config.snapshot.file);
+    this.http.options = { ...this.http.options, ...this.config.network };
+    this.workers.size = this.config.network.workers;
+    this.locked = null;
+    this.previousLock = null;
+    this.previousSnapshot = this.config.snapshot.file ? await this.snapshot.read() : null;
+    if (offline) {
+      this.locked = await this.lock.read();
+      if (!this.locked) throw new Error(`Offline mode requires a lockfile, but ${this.lock.file} does not exist`);
+    } else if (this.config.hashChecks.update) {
+      this.previousLock = await this.lock.read().catch(() => null);
+    }
+    this.lockedLists = [];
+    this.lockedRegistries = [];
+    this.unchanged = [];
+    this.snapshotSources = [];
+    this.reused = [];
+    this.notModified = [];
+    try {
+      // Rebuilt every run, so processing again never duplicates lists
+      this.flagLists = [
+        ...(flagLists ?? []).map((flagList) => FlagListValidator.check(flagList, this.config.validation, 'flag list', this.onValidationIssue('flag list'))),
+        ...(pushFlagListsFromDisk ? await this.fetchFlagLists() : []),
+      ];
+      const results = await this.processFlagLists();
+      const processedFlagLists = results.map((result) => result.processed);
+      this.lockedLists = results.map((result) => result.lock);
+      if (!offline)
+        await this.lock.write({ version: FlagListLock.version, lists: this.lockedLists, ...(this.lockedRegistries.length > 0 ? { registries: this.lockedRegistries } : {}) });
+      // Written before the lists are handed out, so it holds default selections
+      if (this.config.snapshot.file)
+        await this.snapshot.write({
+          version: PreprocessSnapshot.version,
+          sources: offline || !pushFlagListsFromDisk ? this.previousSnapshot?.sources ?? [] : this.snapshotSources,
+          lists: results,
+        });
+      if (this.reused.length > 0) this.debug(`Reused ${this.reused.length} of ${results.length} flag lists from the snapshot`);
+      const evicted = await this.cache.evict({
+        maxSize: this.config.cache.maxSize,
+        maxAge: this.config.cache.maxAge,
+        keepSince: startedAt,
+      });
+      if (evicted.length > 0) this.debug(`Evicted ${evicted.length} cache entries`);
+      this.debug(`Processed ${processedFlagLists.length} flag lists in ${Date.now() - startedAt}ms`);
+      return processedFlagLists;
+    } finally {
+      this.locked = null;
+      this.previousLock = null;
+      this.previousSnapshot = null;
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private debug(message: string): void {
+    if (this.config.dev) this.events.debug(message);
   }
-}
\ No newline at end of file
+
+  /**
+    * Internal Method
+    */
+  private onValidationIssue(source: string): (issue: ValidationIssue) => void {
+    return (issue) => {
+      this.events.emit('validationIssue', source, issue);
+      this.events.log(issue.severity === 'error' ? 'error' : 'warn', `${source}: ${issue.severity}: ${issue.path}: ${issue.message}`);
+    };
+  }
+}
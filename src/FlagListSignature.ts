@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+
+/** require rejects unsigned or badly signed lists, warn only reports them, ignore skips verification */
+export type SignaturePolicy = 'require' | 'warn' | 'ignore'
+export type DetachedSignature = {
+  /** ID of the publisher key in {@link Config.trust.keys} */
+  keyId: string | null;
+  /** Base64 Ed25519 signature of the flag list document */
+  signature: string;
+}
+
+/**
+  * Base class of signature verification failures.
+  */
+export class SignatureError extends Error {
+  constructor(public readonly source: string, message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+/**
+  * The flag list has no signature.
+  */
+export class MissingSignatureError extends SignatureError {
+  constructor(source: string) {
+    super(source, `Flag list ${source} is not signed`);
+    this.name = 'MissingSignatureError';
+  }
+}
+/**
+  * The signature names a key that is not trusted.
+  */
+export class UntrustedKeyError extends SignatureError {
+  constructor(source: string, public readonly keyId: string | null) {
+    super(source, keyId === null ? `Flag list ${source} is not signed by any trusted key` : `Flag list ${source} is signed by untrusted key ${keyId}`);
+    this.name = 'UntrustedKeyError';
+  }
+}
+/**
+  * The signature does not match the document.
+  */
+export class InvalidSignatureError extends SignatureError {
+  constructor(source: string, public readonly keyId: string | null) {
+    super(source, `Flag list ${source} has an invalid signature${keyId === null ? '' : ` for key ${keyId}`}`);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+/**
+  * Detached Ed25519 signatures for flag list documents.
+  * A signature file holds `{ "keyId": "...", "signature": "<base64>" }`, or just the base64 signature.
+  * @example ```ts
+  * const { publicKey, privateKey } = FlagListSignature.generateKeyPair();
+  * const signature = FlagListSignature.sign(flagListText, privateKey, 'rfo');
+  * writeFileSync('flaglists.json5.sig', FlagListSignature.stringify(signature));
+  * FlagListSignature.verify(flagListText, signature, { rfo: publicKey }, 'flaglists.json5'); // => 'rfo'
+  * ```
+  */
+export class FlagListSignature {
+  /** DER prefix of an Ed25519 SubjectPublicKeyInfo, followed by the 32 raw key bytes */
+  private static ed25519SpkiPrefix = Buffer.from('302a300506032b6570032100', 'hex');
+
+  /**
+    * Generates a publisher key pair.
+    * @returns PEM encoded public & private keys
+    */
+  public static generateKeyPair(): { publicKey: string; privateKey: string } {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    return {
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    };
+  }
+
+  /**
+    * Signs a flag list document.
+    * @param {string | Buffer} data Document, exactly as published
+    * @param {string} privateKey PEM encoded Ed25519 private key
+    * @param {string} keyId ID the key is trusted under
+    * @returns {DetachedSignature} Signature
+    */
+  public static sign(data: string | Buffer, privateKey: string, keyId: string | null = null): DetachedSignature {
+    const signature = crypto.sign(null, Buffer.from(data), crypto.createPrivateKey(privateKey));
+    return { keyId, signature: signature.toString('base64') };
+  }
+
+  /**
+    * Parses a signature file.
+    * @param {string} text Signature file contents
+    * @returns {DetachedSignature} Signature
+    */
+  public static parse(text: string): DetachedSignature {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('{'))
+      return { keyId: null, signature: trimmed };
+    const parsed = JSON.parse(trimmed);
+    if (typeof parsed.signature !== 'string')
+      throw new Error('Invalid signature file');
+    return { keyId: typeof parsed.keyId === 'string' ? parsed.keyId : null, signature: parsed.signature };
+  }
+
+  /**
+    * Serializes a signature file.
+    * @param {DetachedSignature} signature Signature
+    * @returns {string} Signature file contents
+    */
+  public static stringify(signature: DetachedSignature): string {
+    return JSON.stringify(signature, null, 2);
+  }
+
+  /**
+    * Verifies a document against its signature.
+    * Signatures without a key ID are checked against every trusted key.
+    * @param {string | Buffer} data Document
+    * @param {DetachedSignature | null} signature Signature, null if there is none
+    * @param {Record<string, string>} keys Trusted keys by ID - PEM or base64 raw Ed25519 public keys
+    * @param {string} source Name of the document, for errors
+    * @returns {string} ID of the key that signed it
+    * @throws {SignatureError} If the signature is missing, untrusted or invalid
+    */
+  public static verify(data: string | Buffer, signature: DetachedSignature | null, keys: Record<string, string>, source: string): string {
+    if (!signature) throw new MissingSignatureError(source);
+    const candidates = signature.keyId === null ? Object.keys(keys) : [signature.keyId];
+    if (candidates.length === 0 || !candidates.every((keyId) => Object.prototype.hasOwnProperty.call(keys, keyId)))
+      throw new UntrustedKeyError(source, signature.keyId);
+    const signatureBuffer = Buffer.from(signature.signature, 'base64');
+    for (const keyId of candidates) {
+      let valid: boolean;
+      try {
+        valid = crypto.verify(null, Buffer.from(data), this.toPublicKey(keys[keyId]), signatureBuffer);
+      } catch (error) {
+        // Malformed keys & signatures fail like any other bad signature, so the warn policy covers them
+        throw new SignatureError(source, `Flag list ${source} could not be verified with key ${keyId}: ${error.message}`);
+      }
+      if (valid) return keyId;
+    }
+    throw new InvalidSignatureError(source, signature.keyId);
+  }
+
+  /**
+    * Checks a document according to a policy.
+    * @param {string | Buffer} data Document
+    * @param {DetachedSignature | null} signature Signature, null if there is none
+    * @param {Record<string, string>} keys Trusted keys by ID
+    * @param {SignaturePolicy} policy What to do with failures
+    * @param {string} source Name of the document, for errors
+    * @param {Function} onWarning Receives failures under the warn policy - nothing is printed by default
+    * @returns {string | null} ID of the key that signed it, null if it is not verified
+    * @throws {SignatureError} Under the require policy
+    */
+  public static check(data: string | Buffer, signature: DetachedSignature | null, keys: Record<string, string>, policy: SignaturePolicy, source: string, onWarning: (error: SignatureError) => void = () => { }): string | null {
+    if (policy === 'ignore') return null;
+    try {
+      return this.verify(data, signature, keys, source);
+    } catch (error) {
+      const failure = error instanceof SignatureError ? error : new SignatureError(source, `Flag list ${source} could not be verified: ${error.message}`);
+      if (policy === 'require') throw failure;
+      onWarning(failure);
+      return null;
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private static toPublicKey(key: string): crypto.KeyObject {
+    if (key.includes('-----BEGIN'))
+      return crypto.createPublicKey(key);
+    return crypto.createPublicKey({
+      key: Buffer.concat([this.ed25519SpkiPrefix, Buffer.from(key, 'base64')]),
+      format: 'der',
+      type: 'spki',
+    });
+  }
+}
@@ -0,0 +1,355 @@
+import json5 from 'json5';
+import toml from 'toml';
+import { FlagList } from './MiscTypes';
+import { FlagListComposer } from './FlagListComposer';
+
+export type ValidationSeverity = 'error' | 'warning'
+export type ValidationIssue = {
+  /** JSON path of the offending value, e.g. lists["Perf"].features[2].default */
+  path: string;
+  /** What is wrong with it */
+  message: string;
+  /** Errors break processing, warnings only look suspicious */
+  severity: ValidationSeverity;
+}
+/** strict throws on errors, warn reports them and drops the items they are in */
+export type ValidationMode = 'strict' | 'warn'
+
+/**
+  * Thrown by {@link FlagListValidator.check} in strict mode.
+  */
+export class FlagListValidationError extends Error {
+  constructor(public readonly source: string, public readonly issues: ValidationIssue[]) {
+    super(`Invalid flag list ${source}:\n${issues.map((issue) => `  ${issue.severity}: ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'FlagListValidationError';
+  }
+}
+
+/**
+  * Validates flag lists against the types in MiscTypes, reporting every problem with its path.
+  * @example ```ts
+  * const flagList = RFO.FlagListValidator.parse(readFileSync('./flaglists.json5', 'utf-8'), 'flaglists.json5');
+  * const issues = RFO.FlagListValidator.validate(flagList);
+  * // => [{ path: 'lists["Perf"].features[2].default', message: 'must be one of the option keys: "Low", "High"', severity: 'error' }]
+  * ```
+  */
+export class FlagListValidator {
+  /** Hash algorithms accepted in {@link FileHash.algorithm}, besides 'none' */
+  public static supportedAlgorithms = ['SHA256', 'SHA384', 'SHA512', 'SHA3-256', 'SHA3-384', 'SHA3-512'];
+  /** Hash algorithms rejected as insecure */
+  public static insecureAlgorithms = ['MD5', 'SHA1'];
+
+  /**
+    * Parses a flag list document, picking JSON, TOML or JSON5 by file extension.
+    * @param {string} text Document contents
+    * @param {string} fileName File name or URL, used for the extension
+    * @returns {unknown} Parsed, unvalidated document
+    */
+  public static parse(text: string, fileName: string = ''): unknown {
+    const lowerName = fileName.toLowerCase();
+    return (lowerName.endsWith('.json') ? JSON.parse : lowerName.endsWith('.toml') ? toml.parse : json5.parse)(text);
+  }
+
+  /**
+    * Validates a flag list. Items with extends are only checked for what they set - {@link FlagListComposer.compose} them and validate the result to check the rest.
+    * @param {unknown} flagList Parsed flag list
+    * @param {string} root Path prefix for issues
+    * @returns {ValidationIssue[]} Every problem found - empty if the list is valid
+    */
+  public static validate(flagList: unknown, root: string = 'lists'): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!this.isObject(flagList)) {
+      issues.push({ path: root, message: 'must be an object of flag list items', severity: 'error' });
+      return issues;
+    }
+    for (const [key, item] of Object.entries(flagList)) {
+      const path = `${root}[${JSON.stringify(key)}]`;
+      if (FlagListComposer.isDirective(key)) this.validateDirective(key, item, path, issues);
+      else if (this.isObject(item) && item.extends !== undefined) this.validateExtension(item, path, issues);
+      else this.validateItem(item, path, issues);
+    }
+    return issues;
+  }
+
+  /**
+    * Validates a flag list and acts on the result according to the mode.
+    * Only warnings pass through untouched - in warn mode, items with errors are left out so they never reach processing.
+    * @param {unknown} flagList Parsed flag list
+    * @param {ValidationMode} mode strict throws on errors, warn drops the items with errors
+    * @param {string} source Name of the list, for messages
+    * @param {Function} onIssue Receives every issue that does not throw - e.g. {@link RFOEvents.log}, nothing is printed by default
+    * @returns {FlagList} The flag list, without invalid items in warn mode
+    * @throws {FlagListValidationError} In strict mode, if there are errors
+    */
+  public static check(flagList: unknown, mode: ValidationMode = 'strict', source: string = 'flag list', onIssue: (issue: ValidationIssue) => void = () => { }): FlagList {
+    const issues = this.validate(flagList);
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (mode === 'strict' && errors.length > 0)
+      throw new FlagListValidationError(source, issues);
+    for (const issue of issues)
+      onIssue(issue);
+    if (!this.isObject(flagList)) return {};
+    if (errors.length === 0) return flagList as FlagList;
+    return Object.fromEntries(Object.entries(flagList).filter(([key]) => {
+      const path = `lists[${JSON.stringify(key)}]`;
+      return !errors.some((issue) => issue.path === path || issue.path.startsWith(`${path}.`) || issue.path.startsWith(`${path}[`));
+    })) as FlagList;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateItem(item: unknown, path: string, issues: ValidationIssue[]) {
+    if (!this.isObject(item)) {
+      issues.push({ path, message: 'must be an object', severity: 'error' });
+      return;
+    }
+    this.expectType(item.name, 'string', `${path}.name`, issues);
+    this.expectType(item.baseurl, 'string', `${path}.baseurl`, issues);
+    this.expectType(item.default, 'boolean', `${path}.default`, issues);
+    this.validateFiles(item.base, `${path}.base`, issues);
+    this.validateConstraints(item, path, issues);
+    if (!Array.isArray(item.features)) {
+      issues.push({ path: `${path}.features`, message: 'must be an array', severity: 'error' });
+      return;
+    }
+    const featureNames = new Set<string>();
+    item.features.forEach((feature, index) => {
+      const featurePath = `${path}.features[${index}]`;
+      this.validateFeature(feature, featurePath, issues);
+      if (this.isObject(feature) && typeof feature.name === 'string') {
+        if (featureNames.has(feature.name))
+          issues.push({ path: `${featurePath}.name`, message: `duplicate feature name ${JSON.stringify(feature.name)}`, severity: 'warning' });
+        featureNames.add(feature.name);
+      }
+    });
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateDirective(key: string, value: unknown, path: string, issues: ValidationIssue[]) {
+    if (key === '$namespace') {
+      if (typeof value !== 'string' || !FlagListComposer.namespacePattern.test(value))
+        issues.push({ path, message: 'must be a namespace of letters, digits, _, . and -', severity: 'error' });
+    } else if (key === '$include') {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'must be an array of URLs or sources', severity: 'error' });
+        return;
+      }
+      value.forEach((include, index) => {
+        const url = this.isObject(include) ? include.url : include;
+        if (typeof url !== 'string' || url === '')
+          issues.push({ path: `${path}[${index}]`, message: 'must be a URL or an object with url', severity: 'error' });
+        if (this.isObject(include) && include.name !== undefined)
+          this.expectType(include.name, 'string', `${path}[${index}].name`, issues);
+      });
+    } else {
+      issues.push({ path, message: `unknown directive ${key}`, severity: 'warning' });
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateExtension(item: Record<string, any>, path: string, issues: ValidationIssue[]) {
+    if (typeof item.extends !== 'string' || item.extends === '')
+      issues.push({ path: `${path}.extends`, message: 'must be a list key or namespace:key', severity: 'error' });
+    if (item.name !== undefined) this.expectType(item.name, 'string', `${path}.name`, issues);
+    if (item.baseurl !== undefined) this.expectType(item.baseurl, 'string', `${path}.baseurl`, issues);
+    if (item.default !== undefined) this.expectType(item.default, 'boolean', `${path}.default`, issues);
+    if (item.base !== undefined) this.validateFiles(item.base, `${path}.base`, issues);
+    this.validateConstraints(item, path, issues);
+    if (item.features === undefined) return;
+    if (!Array.isArray(item.features)) {
+      issues.push({ path: `${path}.features`, message: 'must be an array', severity: 'error' });
+      return;
+    }
+    item.features.forEach((feature, index) => {
+      const featurePath = `${path}.features[${index}]`;
+      if (!this.isObject(feature)) {
+        issues.push({ path: featurePath, message: 'must be an object', severity: 'error' });
+        return;
+      }
+      if (typeof feature.name !== 'string' || feature.name === '')
+        issues.push({ path: `${featurePath}.name`, message: 'is required', severity: 'error' });
+      if (feature.options === undefined) return;
+      if (!this.isObject(feature.options)) {
+        issues.push({ path: `${featurePath}.options`, message: 'must be an object of option name to files or null', severity: 'error' });
+        return;
+      }
+      for (const [optionName, files] of Object.entries(feature.options))
+        if (files !== null) this.validateFiles(files, `${featurePath}.options[${JSON.stringify(optionName)}]`, issues);
+    });
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateFeature(feature: unknown, path: string, issues: ValidationIssue[]) {
+    if (!this.isObject(feature)) {
+      issues.push({ path, message: 'must be an object', severity: 'error' });
+      return;
+    }
+    if (typeof feature.name !== 'string' || feature.name === '')
+      issues.push({ path: `${path}.name`, message: 'is required', severity: 'error' });
+    if (feature.question !== undefined)
+      this.expectType(feature.question, 'string', `${path}.question`, issues);
+    this.expectType(feature.multiple, 'boolean', `${path}.multiple`, issues);
+    if (!this.isObject(feature.options)) {
+      issues.push({ path: `${path}.options`, message: feature.options === undefined ? 'is required' : 'must be an object of option name to files', severity: 'error' });
+      return;
+    }
+    const optionNames = Object.keys(feature.options);
+    if (optionNames.length === 0)
+      issues.push({ path: `${path}.options`, message: 'must have at least one option', severity: 'error' });
+    for (const [optionName, files] of Object.entries(feature.options))
+      this.validateFiles(files, `${path}.options[${JSON.stringify(optionName)}]`, issues);
+    this.validateConstraints(feature, path, issues);
+    if (feature.optionConstraints !== undefined) {
+      if (!this.isObject(feature.optionConstraints)) {
+        issues.push({ path: `${path}.optionConstraints`, message: 'must be an object of option name to constraints', severity: 'error' });
+      } else {
+        for (const [optionName, constraints] of Object.entries(feature.optionConstraints)) {
+          const constraintsPath = `${path}.optionConstraints[${JSON.stringify(optionName)}]`;
+          if (!optionNames.includes(optionName))
+            issues.push({ path: constraintsPath, message: `is not an option: ${JSON.stringify(optionName)}`, severity: 'error' });
+          if (this.isObject(constraints))
+            this.validateConstraints(constraints, constraintsPath, issues);
+          else
+            issues.push({ path: constraintsPath, message: 'must be an object with requires, conflicts or platforms', severity: 'error' });
+        }
+      }
+    }
+    const optionList = optionNames.map((name) => JSON.stringify(name)).join(', ');
+    if (feature.multiple === true) {
+      if (typeof feature.question !== 'string')
+        issues.push({ path: `${path}.question`, message: 'is required for multiple choice features', severity: 'error' });
+      const minValid = this.expectCount(feature.min, `${path}.min`, issues);
+      const maxValid = this.expectCount(feature.max, `${path}.max`, issues);
+      if (minValid && maxValid) {
+        if ((feature.min as number) > (feature.max as number))
+          issues.push({ path: `${path}.min`, message: `must not be greater than max (${feature.max})`, severity: 'error' });
+        if ((feature.min as number) > optionNames.length)
+          issues.push({ path: `${path}.min`, message: `must not be greater than the number of options (${optionNames.length})`, severity: 'error' });
+      }
+      if (!Array.isArray(feature.default)) {
+        issues.push({ path: `${path}.default`, message: 'must be an array of option keys for multiple choice features', severity: 'error' });
+        return;
+      }
+      feature.default.forEach((value, index) => {
+        if (typeof value !== 'string' || !optionNames.includes(value))
+          issues.push({ path: `${path}.default[${index}]`, message: `must be one of the option keys: ${optionList}`, severity: 'error' });
+        else if (feature.default.indexOf(value) !== index)
+          issues.push({ path: `${path}.default[${index}]`, message: `duplicate option ${JSON.stringify(value)}`, severity: 'error' });
+      });
+      if (minValid && feature.default.length < (feature.min as number))
+        issues.push({ path: `${path}.default`, message: `must select at least min (${feature.min}) options`, severity: 'error' });
+      if (maxValid && feature.default.length > (feature.max as number))
+        issues.push({ path: `${path}.default`, message: `must select at most max (${feature.max}) options`, severity: 'error' });
+    } else if (feature.multiple === false) {
+      if (typeof feature.default !== 'string' || !optionNames.includes(feature.default))
+        issues.push({ path: `${path}.default`, message: `must be one of the option keys: ${optionList}`, severity: 'error' });
+      if (feature.min !== undefined || feature.max !== undefined)
+        issues.push({ path: `${path}.min`, message: 'min/max are ignored on single choice features', severity: 'warning' });
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateConstraints(constraints: Record<string, unknown>, path: string, issues: ValidationIssue[]) {
+    for (const key of ['requires', 'conflicts'] as const) {
+      const refs = constraints[key];
+      if (refs === undefined) continue;
+      if (!Array.isArray(refs)) {
+        issues.push({ path: `${path}.${key}`, message: 'must be an array of list or list/feature=option references', severity: 'error' });
+        continue;
+      }
+      refs.forEach((ref, index) => {
+        if (typeof ref !== 'string' || !/^([^/=]+|[^/=]+\/[^=]+=.+)$/.test(ref))
+          issues.push({ path: `${path}.${key}[${index}]`, message: 'must be a list key or list/feature=option', severity: 'error' });
+      });
+    }
+    const platforms = constraints.platforms;
+    if (platforms === undefined) return;
+    if (!Array.isArray(platforms)) {
+      issues.push({ path: `${path}.platforms`, message: 'must be an array of platforms', severity: 'error' });
+      return;
+    }
+    platforms.forEach((platform, index) => {
+      if (!['windows', 'macos', 'linux'].includes(platform))
+        issues.push({ path: `${path}.platforms[${index}]`, message: 'must be one of windows, macos, linux', severity: 'error' });
+    });
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateFiles(files: unknown, path: string, issues: ValidationIssue[]) {
+    if (!Array.isArray(files)) {
+      issues.push({ path, message: 'must be an array of files', severity: 'error' });
+      return;
+    }
+    files.forEach((file, index) => this.validateFile(file, `${path}[${index}]`, issues));
+  }
+
+  /**
+    * Internal Method
+    */
+  private static validateFile(file: unknown, path: string, issues: ValidationIssue[]) {
+    if (!this.isObject(file)) {
+      issues.push({ path, message: 'must be an object with f and h', severity: 'error' });
+      return;
+    }
+    if (typeof file.f !== 'string' || file.f === '')
+      issues.push({ path: `${path}.f`, message: 'must be a non-empty string', severity: 'error' });
+    const hash = file.h;
+    if (!this.isObject(hash)) {
+      issues.push({ path: `${path}.h`, message: 'must be an object with algorithm and digest', severity: 'error' });
+      return;
+    }
+    if (typeof hash.algorithm !== 'string') {
+      issues.push({ path: `${path}.h.algorithm`, message: 'must be a string', severity: 'error' });
+      return;
+    }
+    if (hash.algorithm === 'none') {
+      if (hash.digest !== undefined && hash.digest !== null)
+        issues.push({ path: `${path}.h.digest`, message: 'must be null when algorithm is none', severity: 'warning' });
+      return;
+    }
+    const algorithm = hash.algorithm.toUpperCase();
+    if (this.insecureAlgorithms.includes(algorithm))
+      issues.push({ path: `${path}.h.algorithm`, message: `${hash.algorithm} is insecure and not supported`, severity: 'error' });
+    else if (!this.supportedAlgorithms.includes(algorithm))
+      issues.push({ path: `${path}.h.algorithm`, message: `unsupported algorithm ${JSON.stringify(hash.algorithm)}, expected one of none, ${this.supportedAlgorithms.join(', ')}`, severity: 'error' });
+    if (typeof hash.digest !== 'string' || !/^[0-9a-f]+$/i.test(hash.digest))
+      issues.push({ path: `${path}.h.digest`, message: 'must be a hex digest', severity: 'error' });
+  }
+
+  /**
+    * Internal Method
+    */
+  private static expectType(value: unknown, type: 'string' | 'boolean', path: string, issues: ValidationIssue[]) {
+    if (typeof value !== type)
+      issues.push({ path, message: value === undefined ? 'is required' : `must be a ${type}`, severity: 'error' });
+  }
+
+  /**
+    * Internal Method
+    */
+  private static expectCount(value: unknown, path: string, issues: ValidationIssue[]): boolean {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      issues.push({ path, message: value === undefined ? 'is required' : 'must be a non-negative integer', severity: 'error' });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,151 @@
+export type FlagSource = {
+  /** Flag list key - namespace:key if an earlier list uses the key - null for overwrites */
+  list: string | null;
+  /** Feature name, null for base files and overwrites */
+  feature: string | null;
+  /** Option name, null for base files and overwrites */
+  option: string | null;
+  /** Flag file the flags were read from, 'overwrites' for {@link RFO.flagOverwrites}, overwrites/<name> for overwrite layers */
+  file: string;
+}
+export type FlagOrigin = {
+  /** Value supplied */
+  value: any;
+  /** Where it was supplied */
+  source: FlagSource;
+}
+export type FlagProvenance = FlagOrigin & {
+  /** Every other value supplied for the flag, in merge order */
+  overridden: FlagOrigin[];
+}
+export type FlagConflict = {
+  /** Flag name */
+  flag: string;
+  /** The value each disagreeing list supplied, in merge order */
+  values: FlagOrigin[];
+  /** The value the policy picked */
+  resolved: FlagOrigin;
+}
+/** How to resolve two lists disagreeing about a flag */
+export type ConflictPolicy = 'last-wins' | 'first-wins' | 'error'
+export type MergeOptions = {
+  /** Conflict policy, defaults to last-wins */
+  policy?: ConflictPolicy;
+  /** Per-flag list priority, highest first - takes precedence over the policy for the flags it names */
+  priority?: Record<string, string[]>;
+}
+export type MergeResult = {
+  /** Merged flags */
+  flags: Record<string, any>;
+  /** Winning source and overridden values of every flag */
+  provenance: Record<string, FlagProvenance>;
+  /** Flags that enabled lists disagree about */
+  conflicts: FlagConflict[];
+  /** Flags removed by an overwrite layer, with the layer and the values it removed */
+  removed: Record<string, { source: FlagSource; overridden: FlagOrigin[] }>;
+}
+export type FlagLayer = {
+  source: FlagSource;
+  flags: Record<string, any>;
+  /** Flags to remove - only honoured for overwrites */
+  remove?: string[];
+}
+
+/**
+  * Thrown by {@link FlagMerger.merge} under the error policy.
+  */
+export class FlagConflictError extends Error {
+  constructor(public readonly conflicts: FlagConflict[]) {
+    super(`Conflicting flags:\n${conflicts.map((conflict) => `  ${conflict.flag}: ${conflict.values.map((origin) => `${JSON.stringify(origin.value)} from ${FlagMerger.describe(origin.source)}`).join(', ')}`).join('\n')}`);
+    this.name = 'FlagConflictError';
+  }
+}
+
+/**
+  * Merges flag files while recording where every flag came from.
+  * Files from the same list override each other in order; lists disagreeing with each other are conflicts, resolved by the policy.
+  * Overwrites always win, later ones over earlier ones, and can remove flags instead of setting them.
+  * @example ```ts
+  * const result = FlagMerger.merge(layers, { policy: 'first-wins', priority: { DFIntTaskSchedulerTargetFps: ['Performance'] } });
+  * result.provenance.DFIntTaskSchedulerTargetFps.source; // => { list: 'Performance', feature: 'FPS Cap', option: '240', file: '_cache/...' }
+  * ```
+  */
+export class FlagMerger {
+  /**
+    * Describes a source for humans.
+    * @param {FlagSource} source Source
+    * @returns {string} e.g. Performance > FPS Cap > 240 (_cache/...)
+    */
+  public static describe(source: FlagSource): string {
+    if (source.list === null) return source.file;
+    return `${[source.list, source.feature, source.option].filter((part) => part !== null).join(' > ')} (${source.file})`;
+  }
+
+  /**
+    * Merges flag layers in order.
+    * @param {FlagLayer[]} layers Parsed flag files with their sources, in merge order
+    * @param {MergeOptions} options Conflict handling
+    * @returns {MergeResult} Merged flags with provenance
+    * @throws {FlagConflictError} Under the error policy, if any unprioritized conflicts exist
+    */
+  public static merge(layers: FlagLayer[], options: MergeOptions = {}): MergeResult {
+    const { policy = 'last-wins', priority = {} } = options;
+    const originsByFlag = new Map<string, FlagOrigin[]>();
+    // The overwrite that removed a flag, unless a later overwrite set it again
+    const removals = new Map<string, FlagSource>();
+    for (const layer of layers) {
+      for (const [flag, value] of Object.entries(layer.flags)) {
+        if (!originsByFlag.has(flag)) originsByFlag.set(flag, []);
+        originsByFlag.get(flag)!.push({ value, source: layer.source });
+        if (layer.source.list === null) removals.delete(flag);
+      }
+      if (layer.source.list === null)
+        for (const flag of layer.remove ?? []) removals.set(flag, layer.source);
+    }
+    const result: MergeResult = { flags: {}, provenance: {}, conflicts: [], removed: {} };
+    const unresolved: FlagConflict[] = [];
+    for (const [flag, origins] of originsByFlag) {
+      const overwrites = origins.filter((origin) => origin.source.list === null);
+      // Within one list later files win - only disagreements between lists are conflicts
+      const perList = new Map<string, FlagOrigin>();
+      for (const origin of origins)
+        if (origin.source.list !== null) {
+          perList.delete(origin.source.list);
+          perList.set(origin.source.list, origin);
+        }
+      const listValues = [...perList.values()];
+      let winner = listValues[listValues.length - 1];
+      const disagreeing = listValues.filter((origin, index) => listValues.findIndex((other) => this.sameValue(other.value, origin.value)) === index);
+      if (disagreeing.length > 1) {
+        const ranking = priority[flag];
+        const ranked = ranking ? listValues.filter((origin) => ranking.includes(origin.source.list!)) : [];
+        if (ranked.length > 0)
+          winner = ranked.sort((a, b) => ranking.indexOf(a.source.list!) - ranking.indexOf(b.source.list!))[0];
+        else if (policy === 'first-wins')
+          winner = listValues[0];
+        const conflict = { flag, values: listValues, resolved: winner };
+        result.conflicts.push(conflict);
+        if (policy === 'error' && ranked.length === 0) unresolved.push(conflict);
+      }
+      if (removals.has(flag)) {
+        result.removed[flag] = { source: removals.get(flag)!, overridden: origins };
+        continue;
+      }
+      if (overwrites.length > 0) winner = overwrites[overwrites.length - 1];
+      result.flags[flag] = winner.value;
+      result.provenance[flag] = {
+        ...winner,
+        overridden: origins.filter((origin) => origin !== winner),
+      };
+    }
+    if (unresolved.length > 0) throw new FlagConflictError(unresolved);
+    return result;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static sameValue(a: any, b: any): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+}
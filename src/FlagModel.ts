@@ -0,0 +1,151 @@
+/** Flag family, from the key prefix - legacy keys have no prefix */
+export type FlagKind = 'FFlag' | 'DFFlag' | 'SFFlag' | 'FInt' | 'DFInt' | 'SFInt' | 'FString' | 'DFString' | 'SFString' | 'FLog' | 'DFLog' | 'SFLog' | 'legacy'
+/** Value type Roblox expects for a flag - unknown for legacy keys */
+export type FlagValueType = 'boolean' | 'integer' | 'string' | 'unknown'
+export type ParsedFlag = {
+  /** Full key, e.g. DFIntTaskSchedulerTargetFps */
+  key: string;
+  /** Prefix family, e.g. DFInt */
+  kind: FlagKind;
+  /** Key without prefix, e.g. TaskSchedulerTargetFps */
+  name: string;
+  /** Dynamic flags (DF*) can change without a client restart */
+  dynamic: boolean;
+  /** Expected value type */
+  type: FlagValueType;
+}
+/** coerce converts what it can and drops the rest, strict throws on any mismatch, off passes everything through */
+export type FlagTypeMode = 'coerce' | 'strict' | 'off'
+export type FlagTypeIssue = {
+  /** Flag key */
+  flag: string;
+  /** Value as supplied */
+  value: any;
+  /** Type Roblox expects */
+  expected: FlagValueType;
+  /** Value after coercion - absent if it was rejected */
+  coerced?: any;
+}
+export type NormalizeResult = {
+  /** Flags with every value matching its type */
+  flags: Record<string, any>;
+  /** Values that were converted */
+  coerced: FlagTypeIssue[];
+  /** Values that were dropped */
+  rejected: FlagTypeIssue[];
+}
+
+/**
+  * Thrown by {@link FlagModel.normalize} in strict mode.
+  */
+export class FlagTypeError extends Error {
+  constructor(public readonly issues: FlagTypeIssue[]) {
+    super(`Mistyped flags:\n${issues.map((issue) => `  ${issue.flag}: expected ${issue.expected}, got ${JSON.stringify(issue.value)}`).join('\n')}`);
+    this.name = 'FlagTypeError';
+  }
+}
+
+/**
+  * Understands the Roblox flag naming scheme.
+  * @example ```ts
+  * RFO.FlagModel.parseKey('DFIntTaskSchedulerTargetFps'); // => { kind: 'DFInt', name: 'TaskSchedulerTargetFps', dynamic: true, type: 'integer', ... }
+  * RFO.FlagModel.normalize({ FFlagDebugGraphicsPreferVulkan: 'true', FIntFoo: 1.5 }).flags; // => { FFlagDebugGraphicsPreferVulkan: true }
+  * ```
+  */
+export class FlagModel {
+  /**
+    * Internal Method
+    */
+  private static prefixPattern = /^(D|S)?F(Flag|Int|String|Log)(?=[A-Z0-9_])/;
+
+  /**
+    * Parses a flag key into its kind and expected type.
+    * @param {string} key Flag key
+    * @returns {ParsedFlag} Parsed key
+    */
+  public static parseKey(key: string): ParsedFlag {
+    const match = this.prefixPattern.exec(key);
+    if (!match)
+      return { key, kind: 'legacy', name: key, dynamic: false, type: 'unknown' };
+    const family = match[2];
+    return {
+      key,
+      kind: match[0] as FlagKind,
+      name: key.slice(match[0].length),
+      dynamic: match[1] === 'D',
+      type: family === 'Flag' ? 'boolean' : family === 'String' ? 'string' : 'integer',
+    };
+  }
+
+  /**
+    * Coerces a value to the type its key expects.
+    * @param {string} key Flag key
+    * @param {any} value Value
+    * @returns Coerced value, or ok: false if it cannot be coerced
+    * @example ```ts
+    * RFO.FlagModel.coerce('FFlagFoo', 'False'); // => { ok: true, value: false }
+    * RFO.FlagModel.coerce('FIntFoo', 1.5); // => { ok: false }
+    * ```
+    */
+  public static coerce(key: string, value: any): { ok: true; value: any } | { ok: false } {
+    return this.coerceTo(this.parseKey(key).type, value);
+  }
+
+  /**
+    * Coerces a value to a type.
+    * @param {FlagValueType} type Type - unknown passes every value through
+    * @param {any} value Value
+    * @returns Coerced value, or ok: false if it cannot be coerced
+    * @example ```ts
+    * RFO.FlagModel.coerceTo('integer', '60'); // => { ok: true, value: 60 }
+    * ```
+    */
+  public static coerceTo(type: FlagValueType, value: any): { ok: true; value: any } | { ok: false } {
+    switch (type) {
+      case 'boolean':
+        if (typeof value === 'boolean') return { ok: true, value };
+        if (typeof value === 'string' && /^(true|false)$/i.test(value)) return { ok: true, value: value.toLowerCase() === 'true' };
+        if (value === 0 || value === 1) return { ok: true, value: value === 1 };
+        return { ok: false };
+      case 'integer':
+        if (typeof value === 'number' && Number.isInteger(value)) return { ok: true, value };
+        if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return { ok: true, value: parseInt(value.trim(), 10) };
+        return { ok: false };
+      case 'string':
+        if (typeof value === 'string') return { ok: true, value };
+        if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) };
+        return { ok: false };
+      default:
+        return { ok: true, value };
+    }
+  }
+
+  /**
+    * Checks every flag against its type.
+    * @param {Record<string, any>} flags Flags
+    * @param {FlagTypeMode} mode What to do with mismatched values
+    * @returns {NormalizeResult} Normalized flags, with what was coerced and rejected
+    * @throws {FlagTypeError} In strict mode, if any value does not match its type
+    */
+  public static normalize(flags: Record<string, any>, mode: FlagTypeMode = 'coerce'): NormalizeResult {
+    const result: NormalizeResult = { flags: {}, coerced: [], rejected: [] };
+    if (mode === 'off') {
+      result.flags = { ...flags };
+      return result;
+    }
+    for (const [flag, value] of Object.entries(flags)) {
+      const coerced = this.coerce(flag, value);
+      const expected = this.parseKey(flag).type;
+      if (!coerced.ok) {
+        result.rejected.push({ flag, value, expected });
+        continue;
+      }
+      if (coerced.value !== value)
+        result.coerced.push({ flag, value, expected, coerced: coerced.value });
+      result.flags[flag] = coerced.value;
+    }
+    if (mode === 'strict' && (result.coerced.length > 0 || result.rejected.length > 0))
+      throw new FlagTypeError([...result.coerced, ...result.rejected]);
+    return result;
+  }
+}
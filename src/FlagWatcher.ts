@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { FSWatcher, existsSync, promises as fs, watch } from 'fs';
+import path from 'path';
+import type { RFO } from './RFO';
+import { Platform } from './MiscTypes';
+
+export type FlagWatcherEvents = {
+  /** A new version directory appeared in a Roblox root */
+  versionAdded: [versionPath: string];
+  /** Flags were (re-)applied to these installs */
+  applied: [robloxPaths: string[]];
+  /** A ClientAppSettings.json no longer matches the merged flags */
+  drifted: [settingsFile: string, reason: 'changed' | 'removed'];
+  /** Something went wrong - the watcher keeps running. Without a listener, errors are logged through rfo.events instead */
+  error: [error: Error];
+}
+export type FlagWatcherOptions = {
+  /** Platform to watch the roots of, defaults to process.platform */
+  platform?: Platform;
+  /** Poll instead of using filesystem events */
+  usePolling?: boolean;
+  /** Poll interval in ms - also used as a fallback when filesystem events are unavailable */
+  pollInterval?: number;
+  /** Time in ms to wait for filesystem events to settle before checking */
+  debounce?: number;
+}
+
+export interface FlagWatcher {
+  on<K extends keyof FlagWatcherEvents>(event: K, listener: (...args: FlagWatcherEvents[K]) => void): this;
+  once<K extends keyof FlagWatcherEvents>(event: K, listener: (...args: FlagWatcherEvents[K]) => void): this;
+  off<K extends keyof FlagWatcherEvents>(event: K, listener: (...args: FlagWatcherEvents[K]) => void): this;
+  emit<K extends keyof FlagWatcherEvents>(event: K, ...args: FlagWatcherEvents[K]): boolean;
+}
+
+/**
+  * Re-applies flags when Roblox updates into a new version directory, or when ClientAppSettings.json is changed or removed by something else.
+  * @example ```ts
+  * const rfo = new RFO();
+  * await rfo.preprocessFlags();
+  * const watcher = new FlagWatcher(rfo);
+  * watcher.on('applied', (paths) => console.log('Applied flags to', paths));
+  * watcher.on('error', (error) => console.error(error));
+  * await watcher.start();
+  * ```
+  */
+export class FlagWatcher extends EventEmitter {
+  /** Version directories seen so far, per root */
+  public knownVersions = new Set<string>();
+  /**
+    * Internal Method
+    */
+  private watchers: FSWatcher[] = [];
+  /**
+    * Internal Method
+    */
+  private settingsWatchers = new Map<string, FSWatcher>();
+  /**
+    * Internal Method
+    */
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  /**
+    * Internal Method
+    */
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  /**
+    * Internal Method
+    */
+  private checking: Promise<void> | null = null;
+  /**
+    * Internal Method
+    */
+  private recheck = false;
+
+  constructor(public rfo: RFO, public options: FlagWatcherOptions = {}) {
+    super();
+  }
+
+  /** Whether the watcher is running */
+  public get running() {
+    return this.watchers.length > 0 || this.settingsWatchers.size > 0 || this.pollTimer !== null;
+  }
+
+  /**
+    * Starts watching, applying the current flags once if they aren't applied yet.
+    */
+  public async start() {
+    if (this.running) return this;
+    const roots = await this.rfo.versionSearcher.getRoots(this.platform);
+    for (const versionPath of await this.listVersions(roots))
+      this.knownVersions.add(versionPath);
+    if (!this.options.usePolling) {
+      try {
+        for (const root of roots)
+          this.watchers.push(this.watchDirectory(root));
+        for (const robloxPath of this.rfo.robloxPaths)
+          this.watchSettings(robloxPath);
+      } catch (error) {
+        // fs.watch is unavailable here (e.g. network drives) - fall back to polling
+        this.closeWatchers();
+      }
+    }
+    // Polling also catches roots created after start
+    this.pollTimer = setInterval(() => this.schedule(), this.options.pollInterval ?? 5000);
+    await this.check();
+    return this;
+  }
+
+  /** Stops watching */
+  public stop() {
+    this.closeWatchers();
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.pollTimer = null;
+    this.debounceTimer = null;
+    return this;
+  }
+
+  /**
+    * Checks for new versions & drifted settings, re-applying flags if needed.
+    * Concurrent calls are coalesced into one follow-up check.
+    */
+  public async check(): Promise<void> {
+    if (this.checking) {
+      this.recheck = true;
+      return await this.checking;
+    }
+    this.checking = this.runCheck()
+      .catch((error) => this.fail(error))
+      .finally(() => {
+        this.checking = null;
+      });
+    await this.checking;
+    if (this.recheck) {
+      this.recheck = false;
+      await this.check();
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private async runCheck() {
+    const roots = await this.rfo.versionSearcher.getRoots(this.platform);
+    const addedVersions = (await this.listVersions(roots)).filter((versionPath) => !this.knownVersions.has(versionPath));
+    for (const versionPath of addedVersions) {
+      this.knownVersions.add(versionPath);
+      this.emit('versionAdded', versionPath);
+    }
+    if (addedVersions.length > 0 || this.rfo.robloxPaths.length === 0) {
+      await this.rfo.findRoblox();
+      for (const versionPath of addedVersions)
+        if (!this.rfo.robloxPaths.includes(versionPath)) this.rfo.robloxPaths.push(versionPath);
+    }
+    // Roblox deletes old versions after updating
+    this.rfo.robloxPaths = this.rfo.robloxPaths.filter((robloxPath) => existsSync(robloxPath));
+    if (this.rfo.robloxPaths.length === 0) return;
+
+    await this.rfo.loadFlagFiles();
+    const flagSources = this.rfo.getFlagSources();
+    let drifted = false;
+    for (const robloxPath of this.rfo.robloxPaths) {
+      const expected = JSON.stringify(this.rfo.mergeFlagFiles(flagSources, robloxPath));
+      const applier = this.rfo.applierFor(robloxPath);
+      const settingsFile = applier.target(robloxPath);
+      if (!existsSync(settingsFile)) {
+        if (!addedVersions.includes(robloxPath)) this.emit('drifted', settingsFile, 'removed');
+        drifted = true;
+        continue;
+      }
+      // Unparseable settings read as empty, so they count as changed
+      const current = JSON.stringify(await applier.read(robloxPath));
+      if (current !== expected) {
+        this.emit('drifted', settingsFile, 'changed');
+        drifted = true;
+      }
+    }
+    if (!drifted) return;
+    await this.rfo.applyFlags();
+    if (!this.options.usePolling)
+      for (const robloxPath of this.rfo.robloxPaths)
+        this.watchSettings(robloxPath);
+    this.emit('applied', [...this.rfo.robloxPaths]);
+  }
+
+  /**
+    * Internal Method
+    */
+  private get platform(): Platform {
+    return this.options.platform ?? process.platform as Platform;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async listVersions(roots: string[]): Promise<string[]> {
+    const versions: string[] = [];
+    for (const root of roots) {
+      const entries = await fs.readdir(root).catch(() => [] as string[]);
+      versions.push(...entries.filter((entry) => entry.startsWith('version-')).map((entry) => path.join(root, entry)));
+    }
+    return versions;
+  }
+
+  /**
+    * Internal Method
+    */
+  private schedule() {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      // Nothing awaits scheduled checks - a throwing 'error' listener must not become an unhandled rejection
+      this.check().catch((error) => this.rfo.events.error('Flag watcher check failed', error));
+    }, this.options.debounce ?? 500);
+  }
+
+  /**
+    * Internal Method
+    */
+  private watchDirectory(directory: string): FSWatcher {
+    const watcher = watch(directory, { persistent: true }, () => this.schedule());
+    watcher.on('error', (error) => this.fail(error));
+    return watcher;
+  }
+
+  /**
+    * Internal Method
+    */
+  private fail(error: unknown) {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    // EventEmitter throws 'error' events nobody listens to, which would crash the process
+    if (this.listenerCount('error') > 0) this.emit('error', failure);
+    else this.rfo.events.error(`Flag watcher: ${failure.message}`, failure);
+  }
+
+  /**
+    * Internal Method
+    */
+  private watchSettings(robloxPath: string) {
+    const settingsDir = path.dirname(this.rfo.applierFor(robloxPath).target(robloxPath));
+    if (!existsSync(settingsDir) || this.settingsWatchers.has(settingsDir)) return;
+    try {
+      this.settingsWatchers.set(settingsDir, this.watchDirectory(settingsDir));
+    } catch (error) {
+      // Covered by polling
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private closeWatchers() {
+    for (const watcher of [...this.watchers, ...this.settingsWatchers.values()]) watcher.close();
+    this.watchers = [];
+    this.settingsWatchers.clear();
+  }
+}
@@ -0,0 +1,24 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+
+/**
+  * Writes a file atomically by writing to a temporary sibling file and renaming it over the target.
+  * A crash mid-write leaves either the old or the new contents, never a truncated file.
+  * @param {string} file Path to write
+  * @param {string | Buffer} data Contents
+  * @example ```ts
+  * await writeFileAtomic('./ClientSettings/ClientAppSettings.json', JSON.stringify(flags, null, 2));
+  * ```
+  */
+export async function writeFileAtomic(file: string, data: string | Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tempFile, data);
+    await fs.rename(tempFile, file);
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+}
@@ -1,3 +1,5 @@
+import type { SignaturePolicy } from './FlagListSignature';
+
 export type Platform = 'Windows' | 'MacOS' | 'Linux' | 'windows' | 'macos' | 'linux' | 'win32' | 'darwin'
 export type FileHash = {
   /** Algorithm, throw err if MD5 */
@@ -16,7 +18,15 @@ export type File = {
   /** File Hash */
   h: FileHash,
 }
-export type Feature<T extends string> = {
+export type Constraints = {
+  /** Selections that must be active - a Flag List Key, or list/feature=option */
+  requires?: string[],
+  /** Selections that must not be active - a Flag List Key, or list/feature=option */
+  conflicts?: string[],
+  /** Platforms it is available on - all if omitted */
+  platforms?: ('windows' | 'macos' | 'linux')[],
+}
+export type Feature<T extends string> = Constraints & ({
   /** Human-Readable Name */
   name: string,
   /** Question */
@@ -31,17 +41,23 @@ export type Feature<T extends string> = {
   min: number,
   /** Maximum Choices */
   max: number,
+  /** Constraints of individual Options */
+  optionConstraints?: Partial<Record<T, Constraints>>,
 } | {
   /** Human-Readable Name */
   name: string,
+  /** Question */
+  question?: string,
   /** Options */
   options: Record<T, File[]>,
   /** Default Option */
   default: T,
   /** Multiple Choice */
   multiple: false,
-}
-export type FlagItem = {
+  /** Constraints of individual Options */
+  optionConstraints?: Partial<Record<T, Constraints>>,
+})
+export type FlagItem = Constraints & {
   /** Base URL - e.g. https://rfo.sh/flags/ */
   baseurl: string,
   /** Is it enabled by default */
@@ -54,31 +70,138 @@ export type FlagItem = {
   features: Feature<any>[],
 }
 export type FlagList = Record<string, FlagItem>
+/** A feature of a {@link FlagItemExtension} - merged into the extended item's feature of the same name, options set to null are removed */
+export type FeatureExtension = Partial<Omit<Feature<any>, 'options'>> & {
+  /** Human-Readable Name - matches the feature to override */
+  name: string,
+  /** Options to add or replace, null to remove one */
+  options?: Record<string, File[] | null>,
+}
+export type FlagItemExtension = Partial<Omit<FlagItem, 'features'>> & {
+  /** Item to extend - a key of the same list, or namespace:key of another */
+  extends: string,
+  /** Features to add or override */
+  features?: FeatureExtension[],
+}
+/** A flag list as published - items may extend others, and directives pull in further lists */
+export type FlagListDocument = {
+  /** Namespace of the list's items - defaults to the source's namespace, or a slug of its name */
+  $namespace?: string,
+  /** Lists to resolve along with this one - URLs or paths relative to it */
+  $include?: (string | FlagListInclude)[],
+} & Record<string, FlagItem | FlagItemExtension>
+export type FlagListInclude = Partial<Omit<FlagListSource, 'url'>> & {
+  /** URL or path relative to the including list */
+  url: string,
+}
+export type FlagListSource = {
+  /** Human-Readable Name */
+  name: string,
+  /** URL */
+  url: string,
+  /** Namespace of the list's items - overridden by the list's $namespace */
+  namespace?: string,
+  /** Mirrors, tried in order when the URL fails */
+  mirrors?: string[],
+  /** Signature Policy - defaults to {@link Config.trust.policy} */
+  signature?: SignaturePolicy,
+  /** Detached Signature URL - defaults to <url>.sig */
+  signatureUrl?: string,
+}
+/** A registry index - lists its publisher offers, relative URLs resolved against the index */
+export type FlagListRegistry = {
+  lists: (FlagListSource & {
+    /** What the list is for */
+    description?: string,
+  })[],
+}
+export type RegistrySource = {
+  /** Registry index URL */
+  url: string,
+  /** Names or namespaces of the lists to use - all if omitted */
+  lists?: string[],
+}
 export type Config = {
-  /** Is the updater in dev mode */
+  /** Is the updater in dev mode - logs diagnostics & allows file:// and localhost sources */
   dev: boolean,
   /** Hash Checks */
   hashChecks: {
-    /** Check for updates */
+    /** Check for updates - Flag lists whose hash matches the lockfile are resolved from it without downloading their files again */
     update: boolean,
-    /** Check if flag list hash matches - If false, always download flags */
+    /** Check if flag list hash matches - If true, trust cached files by digest, if false, always download flags */
     flags: boolean,
   },
+  /** Flag List Validation - strict rejects lists with errors, warn leaves out the items with errors - warnings are only reported either way */
+  validation: 'strict' | 'warn',
+  /** Download Cache */
+  cache: {
+    /** Cache Root Directory */
+    dir: string,
+    /** Maximum Cache Size in Bytes - 0 to disable */
+    maxSize: number,
+    /** Maximum Time in ms since an Entry was last used - 0 to disable */
+    maxAge: number,
+  },
+  /** ClientAppSettings.json Backups */
+  backups: {
+    /** Backup Directory */
+    dir: string,
+    /** Snapshots to keep per Roblox install - 0 to keep all */
+    keep: number,
+  },
+  /** Saved Selections */
+  profiles: {
+    /** Profile Directory */
+    dir: string,
+  },
+  /** Benchmark Runs */
+  benchmarks: {
+    /** Benchmark Directory */
+    dir: string,
+  },
+  /** Lockfile */
+  lock: {
+    /** Lockfile Path */
+    file: string,
+    /** Resolve everything from the cache using the lockfile, without network access */
+    offline: boolean,
+  },
+  /** Preprocessing Snapshot */
+  snapshot: {
+    /** Snapshot Path - processed flag lists are reused from it while their inputs are unchanged, empty to disable */
+    file: string,
+  },
+  /** Network */
+  network: {
+    /** Request Timeout in ms - 0 to disable */
+    timeout: number,
+    /** Retries after Network Errors, Timeouts, 429 & 5xx Responses */
+    retries: number,
+    /** Delay before the first Retry in ms, doubled for every further Retry */
+    retryDelay: number,
+    /** Maximum Requests in Flight - 0 for no Limit */
+    concurrency: number,
+    /** Flag Files resolved at once, from the Cache or Network - 0 for no Limit */
+    workers: number,
+    /** Proxy URL - empty to use HTTP_PROXY etc., false to disable */
+    proxy: string | false,
+  },
+  /** Flag List Signatures */
+  trust: {
+    /** Trusted Publisher Keys by Key ID - Ed25519 Public Keys, PEM or Base64 */
+    keys: Record<string, string>,
+    /** Signature Policy for remote Flag Lists - require rejects unsigned lists, warn only reports them */
+    policy: SignaturePolicy,
+    /** Signature Policy for Flag Lists in flagLists/ - signed with a <file>.sig next to them */
+    localPolicy: SignaturePolicy,
+  },
   /** URLs */
   urls: {
     /** Flag Lists */
-    flagLists: {
-      /** Human-Readable Name */
-      name: string,
-      /** URL */
-      url: string,
-    }[],
+    flagLists: FlagListSource[],
     /** Default Flag List | Unshifted to flagLists */
-    defaultFlagList: {
-      /** Human-Readable Name */
-      name: string,
-      /** URL */
-      url: string,
-    },
+    defaultFlagList: FlagListSource,
+    /** Registries to pull flag lists from, after flagLists */
+    registries: RegistrySource[],
   },
 };
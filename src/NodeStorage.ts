@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './FsUtil';
+import { StorageAdapter } from './Storage';
+
+/**
+  * Keeps files on disk - the default {@link StorageAdapter} in Node.
+  * Relative keys resolve against root, absolute paths are used as they are.
+  * @example ```ts
+  * const profiles = new ProfileManager(new NodeStorage('./profiles'));
+  * ```
+  */
+export class NodeStorage implements StorageAdapter {
+  constructor(public readonly root: string = '.') { }
+
+  public async read(key: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.locate(key), 'utf-8');
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  public async write(key: string, text: string): Promise<void> {
+    await writeFileAtomic(this.locate(key), text);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.locate(key), { force: true });
+  }
+
+  public async list(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(this.locate(dir), { withFileTypes: true }).catch(() => []);
+    return entries.filter((entry) => entry.isFile()).map((entry) => entry.name).sort();
+  }
+
+  /**
+    * Resolves a key to a path on disk.
+    * @param {string} key Key
+    * @returns {string} Path
+    */
+  public locate(key: string): string {
+    return path.resolve(this.root, key);
+  }
+}
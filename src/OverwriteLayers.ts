@@ -0,0 +1,148 @@
+import type { ProcessedFlagList } from './FlagListPreprocessor';
+import { FlagSource } from './FlagMerger';
+import { SelectionResolver } from './SelectionResolver';
+
+/** global, { list } - only while that flag list is enabled, or { install } - only for that Roblox install path and installs below it */
+export type OverwriteScope = 'global' | { list: string } | { install: string }
+export type OverwriteLayer = {
+  /** Layer name, unique - flags it sets come from overwrites/<name> */
+  name: string;
+  /** Where the layer applies */
+  scope: OverwriteScope;
+  /** Higher wins - defaults to 0 for global, 100 for list & 200 for install layers, layers with the same priority win in array order */
+  priority?: number;
+  /** Flags to set */
+  flags: Record<string, any>;
+  /** Flags to remove, even if a flag list or a lower layer sets them */
+  remove?: string[];
+}
+
+/**
+  * Picks & orders the overwrite layers that apply to a merge.
+  * Every layer wins over every flag list; between layers the higher priority wins, and a removal wins over lower layers setting the flag.
+  * @example ```ts
+  * rfo.setOverwriteLayer({ name: 'Studio', scope: { install: 'C:/Users/me/AppData/Local/Roblox/Versions/version-abc' }, flags: { FFlagDebugGraphicsPreferVulkan: true }, remove: ['DFIntTaskSchedulerTargetFps'] });
+  * OverwriteLayers.active(rfo.overwriteLayers, rfo.processedFlagList, installPath).map((layer) => layer.name); // => ['Studio']
+  * ```
+  */
+export class OverwriteLayers {
+  /** Priority of layers without an explicit one, by scope */
+  public static defaultPriority = { global: 0, list: 100, install: 200 };
+
+  /**
+    * Names the kind of a scope.
+    * @param {OverwriteScope} scope Scope
+    * @returns global, list or install
+    */
+  public static scopeKind(scope: OverwriteScope): 'global' | 'list' | 'install' {
+    if (scope === 'global') return 'global';
+    return 'list' in scope ? 'list' : 'install';
+  }
+
+  /**
+    * Gets the effective priority of a layer.
+    * @param {OverwriteLayer} layer Layer
+    * @returns {number} Its priority, or the default of its scope
+    */
+  public static priority(layer: OverwriteLayer): number {
+    return layer.priority ?? this.defaultPriority[this.scopeKind(layer.scope)];
+  }
+
+  /**
+    * Checks whether a layer applies.
+    * @param {OverwriteLayer} layer Layer
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists, for list scopes
+    * @param {string} installPath Roblox install being merged for - install layers never apply without one
+    * @returns {boolean} Whether it applies
+    */
+  public static applies(layer: OverwriteLayer, processedFlagLists: ProcessedFlagList[], installPath?: string): boolean {
+    const scope = layer.scope;
+    if (scope === 'global') return true;
+    if ('list' in scope) return SelectionResolver.findListItem(processedFlagLists, scope.list)?.enabled === true;
+    if (installPath === undefined) return false;
+    const scopePath = this.installPath(scope.install);
+    const target = this.installPath(installPath);
+    return target === scopePath || target.startsWith(scopePath.endsWith('/') ? scopePath : `${scopePath}/`);
+  }
+
+  /**
+    * Picks the layers that apply, in merge order.
+    * @param {OverwriteLayer[]} layers Layers
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists, for list scopes
+    * @param {string} installPath Roblox install being merged for
+    * @returns {OverwriteLayer[]} Applying layers, lowest priority first
+    */
+  public static active(layers: OverwriteLayer[], processedFlagLists: ProcessedFlagList[], installPath?: string): OverwriteLayer[] {
+    return layers
+      .map((layer, index) => ({ layer, index }))
+      .filter(({ layer }) => this.applies(layer, processedFlagLists, installPath))
+      .sort((a, b) => this.priority(a.layer) - this.priority(b.layer) || a.index - b.index)
+      .map(({ layer }) => layer);
+  }
+
+  /**
+    * Gets the merge source of a layer.
+    * @param {OverwriteLayer} layer Layer
+    * @returns {FlagSource} Source with file overwrites/<name>
+    */
+  public static source(layer: OverwriteLayer): FlagSource {
+    return { list: null, feature: null, option: null, file: `overwrites/${layer.name}` };
+  }
+
+  /**
+    * Checks layers for missing or duplicate names & malformed scopes.
+    * @param {OverwriteLayer[]} layers Layers
+    * @throws {Error} If any layer is invalid
+    */
+  public static validate(layers: OverwriteLayer[]): void {
+    const names = new Set<string>();
+    for (const layer of layers) {
+      if (typeof layer.name !== 'string' || layer.name === '') throw new Error('Overwrite layers need a name');
+      if (names.has(layer.name)) throw new Error('Duplicate overwrite layer: ' + layer.name);
+      names.add(layer.name);
+      if (!this.isScope(layer.scope))
+        throw new Error(`Invalid scope of overwrite layer ${layer.name}, expected 'global', { list } or { install }`);
+      if (typeof layer.flags !== 'object' || layer.flags === null) throw new Error(`Overwrite layer ${layer.name} has no flags`);
+    }
+  }
+
+  /**
+    * Copies layers, so they can be changed without affecting the originals.
+    * @param {OverwriteLayer[]} layers Layers
+    * @returns {OverwriteLayer[]} Copies
+    */
+  public static clone(layers: OverwriteLayer[]): OverwriteLayer[] {
+    return layers.map((layer) => ({
+      ...layer,
+      scope: layer.scope === 'global' ? 'global' : { ...layer.scope },
+      flags: { ...layer.flags },
+      ...(layer.remove ? { remove: [...layer.remove] } : {}),
+    }));
+  }
+
+  /**
+    * Internal Method
+    */
+  private static isScope(scope: unknown): scope is OverwriteScope {
+    // Layers come from profiles on disk, so their scopes are checked as unknown
+    if (scope === 'global') return true;
+    if (typeof scope !== 'object' || scope === null) return false;
+    return ('list' in scope && typeof scope.list === 'string') || ('install' in scope && typeof scope.install === 'string');
+  }
+
+  /**
+    * Internal Method
+    */
+  private static installPath(installPath: string): string {
+    // Compared without a filesystem - Windows paths are case-insensitive
+    const windows = /^[a-z]:|\\/i.test(installPath);
+    const segments: string[] = [];
+    for (const segment of installPath.replace(/\\/g, '/').split('/')) {
+      if (segment === '' || segment === '.') continue;
+      if (segment === '..') segments.pop();
+      else segments.push(segment);
+    }
+    const normalized = `${installPath.startsWith('/') ? '/' : ''}${segments.join('/')}`;
+    return windows ? normalized.toLowerCase() : normalized;
+  }
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { writeFileAtomic } from './FsUtil';
+import { DetachedSignature } from './FlagListSignature';
+import { LockedFlagList } from './FlagListLock';
+import type { ProcessedFlagList } from './FlagListPreprocessor';
+
+export type SnapshotSource = {
+  /** URL the list was fetched from */
+  url: string;
+  /** SHA512 of the list document, which is kept in the download cache */
+  digest: string;
+  /** ETag the server sent, for If-None-Match */
+  etag?: string;
+  /** Last-Modified the server sent, for If-Modified-Since */
+  lastModified?: string;
+  /** Verified publisher signature of the document, checked again when the server reports it unmodified */
+  signature?: DetachedSignature;
+}
+export type SnapshotList = {
+  /** Hash of everything processing the list depends on - see {@link PreprocessSnapshot.input} */
+  input: string;
+  /** Lock entry of the list, with every flag file it pulled */
+  lock: LockedFlagList;
+  /** The processed list, with default selections */
+  processed: ProcessedFlagList;
+}
+export type Snapshot = {
+  /** Format version */
+  version: 1;
+  /** Fetched list documents, to request them conditionally */
+  sources: SnapshotSource[];
+  /** Processed lists, in resolution order */
+  lists: SnapshotList[];
+}
+
+/**
+  * Reads & writes the preprocessing snapshot: processed flag lists with the hashes of their inputs, so unchanged lists are neither downloaded nor processed again.
+  * Unlike the lockfile it is only a cache - a missing, outdated or unreadable snapshot just means a full run.
+  * @example ```ts
+  * const snapshot = new PreprocessSnapshot('./rfo-snapshot.json');
+  * (await snapshot.read())?.lists.map((list) => list.lock.url); // => URLs processed last run
+  * ```
+  */
+export class PreprocessSnapshot {
+  /** Current snapshot format version */
+  public static version = 1 as const;
+
+  constructor(public file: string = './rfo-snapshot.json') { }
+
+  /**
+    * Hashes the inputs of processing a list.
+    * @param {unknown} input Anything JSON-serializable, e.g. namespace, cache location & composed list
+    * @returns {string} SHA512 hex digest
+    */
+  public static input(input: unknown): string {
+    return crypto.createHash('SHA512').update(JSON.stringify(input)).digest('hex');
+  }
+
+  /**
+    * Reads the snapshot.
+    * @returns {Promise<Snapshot | null>} Snapshot, or null if it does not exist, can't be parsed or has another version
+    */
+  public async read(): Promise<Snapshot | null> {
+    const text = await fs.readFile(this.file, 'utf-8').catch(() => null);
+    if (text === null) return null;
+    try {
+      const snapshot = JSON.parse(text);
+      return snapshot?.version === PreprocessSnapshot.version && Array.isArray(snapshot.sources) && Array.isArray(snapshot.lists) ? snapshot : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+    * Writes the snapshot.
+    * @param {Snapshot} snapshot Snapshot
+    */
+  public async write(snapshot: Snapshot): Promise<void> {
+    await writeFileAtomic(this.file, JSON.stringify(snapshot));
+  }
+
+  /**
+    * Deletes the snapshot, forcing a full run next time.
+    */
+  public async clear(): Promise<void> {
+    await fs.rm(this.file, { force: true });
+  }
+}
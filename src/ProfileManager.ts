@@ -0,0 +1,204 @@
+import json5 from 'json5';
+import type { ProcessedFlagList } from './FlagListPreprocessor';
+import { OverwriteLayer, OverwriteLayers } from './OverwriteLayers';
+import { SelectionResolver } from './SelectionResolver';
+import { MemoryStorage, StorageAdapter } from './Storage';
+
+export type ProfileListSelection = {
+  /** Whether the list is enabled */
+  enabled: boolean;
+  /** Selected option(s), by feature name */
+  features: Record<string, string | string[]>;
+}
+export type Profile = {
+  /** Format version */
+  version: 1;
+  /** Profile name */
+  name: string;
+  /** Selections, by flag list key */
+  lists: Record<string, ProfileListSelection>;
+  /** Flag overwrites */
+  overwrites: Record<string, any>;
+  /** Scoped overwrite layers */
+  layers?: OverwriteLayer[];
+}
+export type ProfileMismatch = {
+  /** Path of the stale selection, e.g. lists["Performance"].features["FPS Cap"] */
+  path: string;
+  /** Why it could not be applied */
+  reason: string;
+}
+
+/**
+  * Saves and loads user selections - enabled lists, feature values and overwrites.
+  * Selections are stored by list key and feature name, so they survive upstream list updates.
+  * Profiles are kept as <name>.json in a {@link StorageAdapter} - in memory unless one is given.
+  * @example ```ts
+  * const profiles = new ProfileManager(new NodeStorage('./profiles'));
+  * await profiles.save(ProfileManager.capture('Competitive', rfo.processedFlagList, rfo.flagOverwrites));
+  * const mismatches = ProfileManager.apply(await profiles.load('Competitive'), rfo.processedFlagList);
+  * ```
+  */
+export class ProfileManager {
+  /** Current profile format version */
+  public static version = 1 as const;
+
+  constructor(public storage: StorageAdapter = new MemoryStorage()) { }
+
+  /**
+    * Captures the current selections as a profile.
+    * @param {string} name Profile name
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {Record<string, any>} overwrites Flag overwrites
+    * @param {OverwriteLayer[]} layers Scoped overwrite layers
+    * @returns {Profile} Profile
+    */
+  public static capture(name: string, processedFlagLists: ProcessedFlagList[], overwrites: Record<string, any> = {}, layers: OverwriteLayer[] = []): Profile {
+    const profile: Profile = { version: this.version, name, lists: {}, overwrites: { ...overwrites }, layers: OverwriteLayers.clone(layers) };
+    for (const [key, list] of SelectionResolver.entries(processedFlagLists)) {
+      profile.lists[key] = {
+        enabled: list.enabled,
+        features: Object.fromEntries(list.features.map((feature) => [feature.name, Array.isArray(feature.value) ? [...feature.value] : feature.value])),
+      };
+    }
+    return profile;
+  }
+
+  /**
+    * Applies a profile onto processed flag lists.
+    * Selections that no longer match the lists are skipped, leaving the defaults in place.
+    * @param {Profile} profile Profile
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists, modified in place
+    * @returns {ProfileMismatch[]} Selections that could not be applied
+    */
+  public static apply(profile: Profile, processedFlagLists: ProcessedFlagList[]): ProfileMismatch[] {
+    const mismatches: ProfileMismatch[] = [];
+    for (const [key, selection] of Object.entries(profile.lists)) {
+      const listPath = `lists[${JSON.stringify(key)}]`;
+      const list = SelectionResolver.findListItem(processedFlagLists, key);
+      if (!list) {
+        mismatches.push({ path: listPath, reason: 'flag list no longer exists' });
+        continue;
+      }
+      list.enabled = selection.enabled;
+      for (const [featureName, value] of Object.entries(selection.features)) {
+        const featurePath = `${listPath}.features[${JSON.stringify(featureName)}]`;
+        const feature = list.features.find((feature) => feature.name === featureName);
+        if (!feature) {
+          mismatches.push({ path: featurePath, reason: 'feature no longer exists' });
+          continue;
+        }
+        const values = Array.isArray(value) ? value : [value];
+        const missing = values.filter((option) => !Object.prototype.hasOwnProperty.call(feature.options, option));
+        for (const option of missing)
+          mismatches.push({ path: featurePath, reason: `option ${JSON.stringify(option)} no longer exists` });
+        if (feature.multiple) {
+          const kept = values.filter((option) => Object.prototype.hasOwnProperty.call(feature.options, option));
+          if (kept.length < feature.min || kept.length > feature.max) {
+            mismatches.push({ path: featurePath, reason: `${kept.length} options selected, expected ${feature.min} to ${feature.max}` });
+            continue;
+          }
+          feature.value = kept;
+        } else {
+          if (Array.isArray(value)) {
+            mismatches.push({ path: featurePath, reason: 'feature is no longer multiple choice' });
+            continue;
+          }
+          if (missing.length === 0) feature.value = value;
+        }
+      }
+    }
+    return mismatches;
+  }
+
+  /**
+    * Parses a profile, checking its format version.
+    * @param {string} text Profile JSON/JSON5
+    * @returns {Profile} Profile
+    */
+  public static parse(text: string): Profile {
+    const profile = json5.parse(text);
+    if (typeof profile !== 'object' || profile === null || typeof profile.lists !== 'object')
+      throw new Error('Invalid profile');
+    if (profile.version !== this.version)
+      throw new Error(`Unsupported profile version: ${profile.version}`);
+    OverwriteLayers.validate(profile.layers ?? []);
+    return { overwrites: {}, layers: [], ...profile };
+  }
+
+  /**
+    * Serializes a profile.
+    * @param {Profile} profile Profile
+    * @returns {string} JSON
+    */
+  public static stringify(profile: Profile): string {
+    return JSON.stringify(profile, null, 2);
+  }
+
+  /**
+    * Saves a profile under its name.
+    * @param {Profile} profile Profile
+    */
+  public async save(profile: Profile): Promise<void> {
+    await this.storage.write(this.file(profile.name), ProfileManager.stringify(profile));
+  }
+
+  /**
+    * Loads a profile by name.
+    * @param {string} name Profile name
+    * @returns {Promise<Profile>} Profile
+    */
+  public async load(name: string): Promise<Profile> {
+    const text = await this.storage.read(this.file(name));
+    if (text === undefined) throw new Error('Profile does not exist: ' + name);
+    return ProfileManager.parse(text);
+  }
+
+  /**
+    * Lists saved profile names.
+    * @returns {Promise<string[]>} Profile names
+    */
+  public async list(): Promise<string[]> {
+    const files = await this.storage.list('');
+    return files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length)).sort();
+  }
+
+  /**
+    * Deletes a saved profile.
+    * @param {string} name Profile name
+    */
+  public async delete(name: string): Promise<void> {
+    await this.storage.delete(this.file(name));
+  }
+
+  /**
+    * Imports a profile, e.g. the contents of a file exported elsewhere.
+    * @param {string} text Profile JSON/JSON5
+    * @param {string} name Name to save it under - defaults to the name inside it
+    * @returns {Promise<Profile>} Imported profile
+    */
+  public async import(text: string, name?: string): Promise<Profile> {
+    const profile = ProfileManager.parse(text);
+    if (name) profile.name = name;
+    await this.save(profile);
+    return profile;
+  }
+
+  /**
+    * Exports a saved profile.
+    * @param {string} name Profile name
+    * @returns {Promise<string>} Profile JSON, to write anywhere
+    */
+  public async export(name: string): Promise<string> {
+    return ProfileManager.stringify(await this.load(name));
+  }
+
+  /**
+    * Internal Method
+    */
+  private file(name: string): string {
+    if (!/^[\w .-]+$/.test(name) || name.startsWith('.'))
+      throw new Error('Invalid profile name: ' + name);
+    return `${name}.json`;
+  }
+}
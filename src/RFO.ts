@@ -1,8 +1,24 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
-import { FlagListPreprocessor, ProcessedFlagList } from './FlagListPreprocessor';
-import { RobloxVersionSearcher } from './RobloxVersionSearcher';
+import { existsSync } from 'fs';
+import { FlagListPreprocessor } from './FlagListPreprocessor';
+import { RobloxInstall, RobloxVersionSearcher } from './RobloxVersionSearcher';
 import { FlagList } from './MiscTypes';
-import json5 from 'json5';
+import { DownloadCache, FsCacheStore, MemoryCacheStore } from './DownloadCache';
+import { FlagListSignature } from './FlagListSignature';
+import { SettingsBackup, SettingsDiff, SettingsSnapshot } from './SettingsBackup';
+import { ProfileManager } from './ProfileManager';
+import { FlagWatcher, FlagWatcherOptions } from './FlagWatcher';
+import { RFOEvents } from './RFOEvents';
+import { AxiosTransport, HttpClient, MemoryTransport } from './HttpClient';
+import { SettingsImport, SettingsImporter } from './SettingsImporter';
+import { BloxstrapApplier, ClientAppSettingsApplier, ExportApplier, FlagApplier, MacApplier, SoberApplier, VinegarApplier } from './FlagApplier';
+import { FlagListBuilder } from './FlagListBuilder';
+import { PreprocessSnapshot } from './PreprocessSnapshot';
+import { WorkerPool } from './WorkerPool';
+import { CatalogIssue, FlagCatalog } from './FlagCatalog';
+import { RFOCore } from './RFOCore';
+import { NodeStorage } from './NodeStorage';
+import { StorageAdapter } from './Storage';
+import { BenchmarkManager, BenchmarkRun } from './BenchmarkManager';
 
 /**
   * Roblox Flag Optimizer Main Class
@@ -19,30 +35,70 @@ import json5 from 'json5';
   * await rfo.applyFlags();
   * ```
   */
-export class RFO {
+export class RFO extends RFOCore {
   public static FlagListPreprocessor = FlagListPreprocessor;
-  /** Preprocesses Flags */
-  public preprocessor = new FlagListPreprocessor();
+  /** Preprocesses Flags - reads the config & local flag lists through storage */
+  public preprocessor = new FlagListPreprocessor(this.storage);
+  public static RFOEvents = RFOEvents;
+  /** Progress events & log entries, shared with the preprocessor - nothing is printed unless you listen */
+  public events = this.preprocessor.events;
   public static RobloxVersionSearcher = RobloxVersionSearcher;
   /** Searches for Versions */
   public versionSearcher = new RobloxVersionSearcher();
-  ////
-  /** You'll likely want to modify the .enabled keys on this */
-  public processedFlagList: ProcessedFlagList[] = [];
+  public static DownloadCache = DownloadCache;
+  public static FsCacheStore = FsCacheStore;
+  public static MemoryCacheStore = MemoryCacheStore;
+  public static HttpClient = HttpClient;
+  public static AxiosTransport = AxiosTransport;
+  public static MemoryTransport = MemoryTransport;
+  public static PreprocessSnapshot = PreprocessSnapshot;
+  public static WorkerPool = WorkerPool;
+  public static FlagListSignature = FlagListSignature;
+  public static FlagListBuilder = FlagListBuilder;
+  public static FlagCatalog = FlagCatalog;
+  public static SettingsImporter = SettingsImporter;
+  public static ClientAppSettingsApplier = ClientAppSettingsApplier;
+  public static MacApplier = MacApplier;
+  public static BloxstrapApplier = BloxstrapApplier;
+  public static SoberApplier = SoberApplier;
+  public static VinegarApplier = VinegarApplier;
+  public static ExportApplier = ExportApplier;
   /**
-    * Are there any preprocessed flaglists?
+    * Where flags get written - the first applier that detects an install is used for it
+    * @example ```ts
+    * rfo.appliers.unshift(new MyLauncherApplier());
+    * ```
     */
-  public get hasProcessedFlags() {
-    return this.processedFlagList.length > 0;
-  }
+  public appliers: FlagApplier[] = [new BloxstrapApplier(), new SoberApplier(), new VinegarApplier(), new MacApplier(), new ClientAppSettingsApplier()];
+  public static SettingsBackup = SettingsBackup;
+  /** Backs up ClientAppSettings.json before applyFlags overwrites it */
+  public backups = new SettingsBackup(this.preprocessor.config.backups.dir, this.preprocessor.config.backups.keep);
+  public static FlagWatcher = FlagWatcher;
+  public static NodeStorage = NodeStorage;
+  /** Saves & loads named profiles */
+  public profiles = new ProfileManager(new NodeStorage(this.preprocessor.config.profiles.dir));
+  public static BenchmarkManager = BenchmarkManager;
+  /** Saves & loads benchmark runs, with the flags they were recorded against */
+  public benchmarks = new BenchmarkManager(new NodeStorage(this.preprocessor.config.benchmarks.dir));
+  ////
   /**
     * Roblox Versions - assigned by findRoblox()
     */
   public robloxPaths: string[] = [];
   /**
-    * Flag Overwrites
+    * Every Roblox install candidate with its metadata, including stale versions - assigned by findRoblox()
     */
-  public flagOverwrites: Record<string, any> = {};
+  public robloxInstalls: RobloxInstall[] = [];
+  /**
+    * What the last applyFlags call changed (or would have changed, for a dry run), per Roblox install
+    */
+  public lastApply: SettingsDiff[] = [];
+  /**
+    * @param storage Where flag files, the config & local flag lists are read from - the working directory by default
+    */
+  constructor(storage: StorageAdapter = new NodeStorage()) {
+    super(storage);
+  }
   /**
     * Preprocess Flags
     * @example ```ts
@@ -56,8 +112,26 @@ export class RFO {
     if (clearFlagList) this.processedFlagList = [];
     this.processedFlagList.push(...await this.preprocessor.process(flagList, includeFlagsFromDisk));
     if (this.processedFlagList.length === 0) throw new Error('No flags found');
+    await this.loadFlagFiles();
+    if (this.profile) this.useProfile(this.profile);
     return this;
   }
+  /**
+    * Preprocess Flags online & refresh the lockfile
+    * @returns What changed in the lockfile
+    * @example ```ts
+    * const changes = await rfo.updateFlags();
+    * console.log(changes.changed); // => lists whose document changed since the last lock
+    * ```
+    */
+  public async updateFlags(flagList: FlagList[] = [], includeFlagsFromDisk = true) {
+    const { processed, changes } = await this.preprocessor.update(flagList, includeFlagsFromDisk);
+    if (processed.length === 0) throw new Error('No flags found');
+    this.processedFlagList = processed;
+    await this.loadFlagFiles();
+    if (this.profile) this.useProfile(this.profile);
+    return changes;
+  }
   /**
     * Find Roblox Paths
     * @example ```ts
@@ -67,67 +141,235 @@ export class RFO {
     * ```
     */
   public async findRoblox() {
-    this.robloxPaths = await this.versionSearcher.searchVersions(process.platform as any);
-    if (this.robloxPaths.length === 0) console.warn('No Roblox Versions found');
+    this.robloxInstalls = await this.versionSearcher.searchInstalls(this.platform);
+    this.robloxPaths = this.robloxInstalls.filter(install => install.active).map(install => install.path);
+    if (this.robloxPaths.length === 0) this.events.warn('No Roblox Versions found');
+    else this.events.info(`Found Roblox at ${this.robloxPaths.join(', ')}`);
     return this;
   }
-  /** Merges processedFlagList into one flag list based on .enabled and .value properties */
-  public getFlagFiles() {
-    if (!this.hasProcessedFlags) throw new Error('Did not preprocess flags')
+  /**
+    * Checks the merged flags of an install, and every flag file of every list, against a snapshot of known flags
+    * Flag files must be loaded - preprocessFlags loads them, otherwise call loadFlagFiles first
+    * @param catalog Known flags, e.g. `await FlagCatalog.load('./FVariables.txt')`
+    * @param installPath Include the overwrite layers of this install
+    * @example ```ts
+    * const { merged, lists } = rfo.auditFlags(await RFO.FlagCatalog.load('./FVariables.txt'));
+    * merged.filter(issue => issue.kind === 'unknown').map(issue => issue.flag); // => flags that do nothing
+    * ```
+    */
+  public auditFlags(catalog: FlagCatalog, installPath?: string): { merged: CatalogIssue[]; lists: CatalogIssue[] } {
+    const { flags, provenance } = this.mergeFlagFilesDetailed(undefined, installPath);
+    return {
+      merged: catalog.check(flags, flag => provenance[flag]?.source),
+      lists: catalog.checkLists(this.processedFlagList, file => this.readFlagFile(file)),
+    };
+  }
+  /**
+    * Applies the enabled flags in robloxPaths, backing up each existing ClientAppSettings.json first
+    * Installs that share a settings file (e.g. Bloxstrap's Player & Studio) are written once
+    * @param options dryRun only computes lastApply without writing, backup: false skips the backup
+    * @throws If installs sharing a settings file would get different flags, before anything is written
+    * @example ```ts
+    * await rfo.applyFlags({ dryRun: true });
+    * console.log(rfo.lastApply); // => [{ installPath: '...', file: '.../ClientAppSettings.json', added: [...], removed: [...], changed: [...] }]
+    * ```
+    */
+  public async applyFlags(options: { dryRun?: boolean; backup?: boolean } = {}) {
+    if (this.robloxPaths.length === 0) throw new Error('No Roblox Versions found');
     if (this.processedFlagList.length === 0) throw new Error('No flags found');
-    const flagFiles: string[] = [];
-    for (const flagLists of this.processedFlagList) {
-      for (const list of Object.values(flagLists)) {
-        if (list.enabled) {
-          flagFiles.push(...list.base)
-          list.features.forEach(feature => {
-            if (feature.multiple)
-              for (const flag of feature.value) {
-                const optionFiles = feature.options[flag];
-                if (!optionFiles) throw new Error('Invalid flag value: ' + flag);
-                flagFiles.push(...optionFiles);
-              }
-            else if (feature.value && feature.options[feature.value as any])
-              flagFiles.push(...feature.options[feature.value as any]);
-          })
-        }
+    await this.loadFlagFiles();
+    const flagSources = this.getFlagSources();
+    const targets = new Map<string, { robloxPath: string; applier: FlagApplier; settingsFile: string; merged: Record<string, any> }>();
+    for (const robloxPath of this.robloxPaths) {
+      if (!existsSync(robloxPath)) throw new Error('Roblox Version does not exist: ' + robloxPath);
+      const merged = this.mergeFlagFiles(flagSources, robloxPath);
+      const applier = this.applierFor(robloxPath);
+      const settingsFile = applier.target(robloxPath);
+      const destination = `${settingsFile}#${applier.section?.(robloxPath) ?? ''}`;
+      const shared = targets.get(destination);
+      if (!shared) {
+        targets.set(destination, { robloxPath, applier, settingsFile, merged });
+        continue;
       }
+      // The later write would silently replace the earlier one, e.g. dropping install-scoped layers
+      if (JSON.stringify(shared.merged) !== JSON.stringify(merged))
+        throw new Error(`${shared.robloxPath} and ${robloxPath} share ${settingsFile}, but would get different flags - scope overwrite layers to neither or both`);
+      this.events.info(`${robloxPath} shares ${settingsFile} with ${shared.robloxPath}`);
     }
-    return flagFiles;
-  }
-  /** Dump all enabled flags in order */
-  public dumpFlags(flagFiles: string[] = this.getFlagFiles()) {
-    let merged: Record<string, Record<string, any>> = {};
-    for (const flagFile of flagFiles) {
-      if (!existsSync(flagFile)) throw new Error('Flag file does not exist: ' + flagFile);
-      merged[flagFile] = (json5.parse(readFileSync(flagFile, 'utf8')))
+    const diffs: SettingsDiff[] = [];
+    for (const { robloxPath, applier, settingsFile, merged } of targets.values()) {
+      const diff: SettingsDiff = {
+        installPath: robloxPath,
+        file: settingsFile,
+        ...SettingsBackup.diff(await applier.read(robloxPath), merged),
+      };
+      diffs.push(diff);
+      const unchanged = diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+      if (options.dryRun) {
+        this.events.emit('applied', { installPath: robloxPath, file: settingsFile, status: 'dry-run', diff });
+        continue;
+      }
+      if (options.backup !== false) await this.backups.snapshot(robloxPath, settingsFile);
+      await applier.write(robloxPath, merged);
+      this.events.emit('applied', { installPath: robloxPath, file: settingsFile, status: unchanged ? 'unchanged' : 'written', diff });
+      this.events.info(`Applied ${Object.keys(merged).length} flags to ${robloxPath} (${applier.name})`);
     }
-    merged.overwrites = this.flagOverwrites;
+    this.lastApply = diffs;
+    return this;
+  }
+  /**
+    * Writes the enabled flags to a file instead of a Roblox install - JSON, or a TOML fflags table for .toml files
+    * @param installPath Include the overwrite layers of this install
+    * @example ```ts
+    * await rfo.exportFlags('./flags.json');
+    * await rfo.exportFlags('./sober-flags.toml', { format: 'toml' });
+    * ```
+    */
+  public async exportFlags(file: string, options: { format?: 'json' | 'toml'; installPath?: string } = {}) {
+    await this.loadFlagFiles();
+    const merged = this.mergeFlagFiles(this.getFlagSources(), options.installPath);
+    await new ExportApplier(file, options.format).write(options.installPath, merged);
+    this.events.info(`Exported ${Object.keys(merged).length} flags to ${file}`);
     return merged;
   }
-  /** Merges all flag files from getFlagFiles */
-  public mergeFlagFiles(flagFiles: string[] = this.getFlagFiles()) {
-    let merged: Record<string, any> = {};
-    for (const flagFile of flagFiles) {
-      if (!existsSync(flagFile)) throw new Error('Flag file does not exist: ' + flagFile);
-      merged = {
-        ...merged,
-        ...json5.parse(readFileSync(flagFile, 'utf8')),
-        ...this.flagOverwrites,
-      }
+  /**
+    * Finds the applier that writes the flags of an install
+    * @throws If no applier detects it
+    */
+  public applierFor(robloxPath: string) {
+    const install = this.robloxInstalls.find(install => install.path === robloxPath);
+    const applier = this.appliers.find(applier => applier.detect(robloxPath, install));
+    if (!applier) throw new Error('No applier detects ' + robloxPath);
+    return applier;
+  }
+  /**
+    * Computes what applyFlags would change, without writing anything
+    * @example ```ts
+    * const diffs = await rfo.diffFlags();
+    * ```
+    */
+  public async diffFlags() {
+    await this.applyFlags({ dryRun: true });
+    return this.lastApply;
+  }
+  /**
+    * Classifies the flags currently in each install's ClientAppSettings.json & infers the lists and options they came from
+    * @example ```ts
+    * const [current] = await rfo.importSettings();
+    * console.log(current.flags.filter(flag => flag.kind === 'unknown'), current.unmatched);
+    * rfo.adoptImport(current); // select what was inferred, keeping unmatched flags as overwrites
+    * ```
+    */
+  public async importSettings(robloxPaths: string[] = this.robloxPaths): Promise<SettingsImport[]> {
+    if (!this.hasProcessedFlags) throw new Error('Did not preprocess flags');
+    await this.loadFlagFiles();
+    const imports: SettingsImport[] = [];
+    for (const robloxPath of robloxPaths) {
+      const applier = this.applierFor(robloxPath);
+      imports.push({
+        installPath: robloxPath,
+        file: applier.target(robloxPath),
+        ...SettingsImporter.analyze(await applier.read(robloxPath), this.processedFlagList, { platform: this.platform, readFlagFile: file => this.readFlagFile(file) }),
+      });
     }
-    return merged;
+    return imports;
   }
-  /** Applies the enabled flags in robloxPaths */
-  public async applyFlags() {
-    if (this.robloxPaths.length === 0) throw new Error('No Roblox Versions found');
-    if (this.processedFlagList.length === 0) throw new Error('No flags found');
-    const merged = this.mergeFlagFiles(this.getFlagFiles());
-    for (const robloxPath of this.robloxPaths) {
-      if (!existsSync(robloxPath)) throw new Error('Roblox Version does not exist: ' + robloxPath);
-      if (!existsSync(`${robloxPath}/ClientSettings`)) mkdirSync(`${robloxPath}/ClientSettings`);
-      writeFileSync(`${robloxPath}/ClientSettings/ClientAppSettings.json`, JSON.stringify(merged, null, 2));
+  /**
+    * Selects the lists & options an import inferred, and keeps its unmatched flags
+    * @param options overwrites: 'global' merges unmatched flags into flagOverwrites, 'install' puts them in a layer scoped to the install, false drops them
+    * @returns Selections that could not be applied
+    */
+  public adoptImport(imported: SettingsImport, options: { overwrites?: 'global' | 'install' | false } = {}) {
+    const { overwrites = 'global' } = options;
+    const mismatches = ProfileManager.apply({ version: ProfileManager.version, name: 'import', lists: imported.lists, overwrites: {} }, this.processedFlagList);
+    if (overwrites === 'global')
+      this.flagOverwrites = { ...this.flagOverwrites, ...imported.unmatched };
+    else if (overwrites === 'install')
+      this.setOverwriteLayer({ name: `Imported ${imported.installPath}`, scope: { install: imported.installPath }, flags: { ...imported.unmatched } });
+    return mismatches;
+  }
+  /**
+    * Lists ClientAppSettings.json backups, newest first
+    * @param robloxPath Only list backups of this install
+    */
+  public async listBackups(robloxPath?: string) {
+    return await this.backups.list(robloxPath);
+  }
+  /**
+    * Restores a backup by its ID
+    * @example ```ts
+    * const [latest] = await rfo.listBackups();
+    * await rfo.restore(latest.id);
+    * ```
+    */
+  public async restore(snapshot: string | SettingsSnapshot) {
+    return await this.backups.restore(snapshot);
+  }
+  /**
+    * Restores the newest backup of every install in robloxPaths, or of the given installs
+    * @returns The restored snapshots
+    */
+  public async rollback(robloxPaths: string[] = this.robloxPaths) {
+    const restored: SettingsSnapshot[] = [];
+    for (const robloxPath of robloxPaths) {
+      const [latest] = await this.backups.list(robloxPath);
+      if (!latest) throw new Error('No backups found for ' + robloxPath);
+      restored.push(await this.backups.restore(latest));
     }
-    return this;
+    return restored;
+  }
+  /**
+    * Records a benchmark run from the frame-time CSVs & client logs in a directory, and saves it with the flags it ran with
+    * @param name Run name - an earlier run of the same name is replaced
+    * @param dir Directory of .csv, .log & .txt files
+    * @param options flags the run was recorded with - by default those applied to installPath (the first of robloxPaths), or the selected flags if there is no install
+    * @example ```ts
+    * await rfo.findRoblox();
+    * await rfo.recordBenchmark('Vulkan', './captures/vulkan');
+    * ```
+    */
+  public async recordBenchmark(name: string, dir: string, options: { installPath?: string; flags?: Record<string, any> } = {}): Promise<BenchmarkRun> {
+    const installPath = options.installPath ?? this.robloxPaths[0];
+    let flags = options.flags;
+    if (!flags && installPath) flags = await this.applierFor(installPath).read(installPath);
+    else if (!flags && this.hasProcessedFlags) flags = (await this.loadFlagFiles()).mergeFlagFiles();
+    else if (!flags) throw new Error('No flags to record the benchmark against - find Roblox or preprocess flags first');
+    const { frameTimes, sources } = await BenchmarkManager.read(this.storage, dir);
+    const run = BenchmarkManager.record(name, frameTimes, {
+      flags,
+      installPath,
+      profile: this.hasProcessedFlags ? this.captureProfile() : undefined,
+      sources,
+    });
+    await this.benchmarks.save(run);
+    this.events.info(`Recorded ${run.stats.frames} frames as ${name}: ${run.stats.averageFps.toFixed(1)} FPS`);
+    return run;
+  }
+  /**
+    * Compares two saved benchmark runs
+    * @example ```ts
+    * const { metrics, flags } = await rfo.compareBenchmarks('D3D11', 'Vulkan');
+    * metrics.map(RFO.BenchmarkManager.describe); // => ['averageFps: 58.20 -> 71.40 (+22.68%, better)', ...]
+    * ```
+    */
+  public async compareBenchmarks(baseline: string, candidate: string) {
+    return BenchmarkManager.compare(await this.benchmarks.load(baseline), await this.benchmarks.load(candidate));
+  }
+  /**
+    * Creates a watcher that re-applies flags when Roblox updates or ClientAppSettings.json drifts
+    * @example ```ts
+    * const watcher = rfo.createWatcher();
+    * watcher.on('versionAdded', (versionPath) => console.log('Roblox updated to', versionPath));
+    * await watcher.start();
+    * // later
+    * watcher.stop();
+    * ```
+    */
+  public createWatcher(options: FlagWatcherOptions = {}) {
+    return new FlagWatcher(this, options);
+  }
+  /** Path of the ClientAppSettings.json of a Roblox install - launchers may read flags from elsewhere, see applierFor */
+  public static settingsFile(robloxPath: string) {
+    return `${robloxPath}/ClientSettings/ClientAppSettings.json`;
   }
 }
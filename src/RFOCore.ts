@@ -0,0 +1,351 @@
+import json5 from 'json5';
+import type { ProcessedFlagList } from './FlagListPreprocessor';
+import { Platform } from './MiscTypes';
+import { FlagListValidator } from './FlagListValidator';
+import { FlagListComposer, FlagListCompositionError } from './FlagListComposer';
+import { FlagLayer, FlagMerger, FlagSource, MergeOptions, MergeResult } from './FlagMerger';
+import { FlagModel, FlagTypeIssue, FlagTypeMode } from './FlagModel';
+import { Profile, ProfileManager, ProfileMismatch } from './ProfileManager';
+import { SelectionConflictError, SelectionError, SelectionResolver } from './SelectionResolver';
+import { OverwriteLayer, OverwriteLayers } from './OverwriteLayers';
+import { IndexedDBStorage, MemoryStorage, StorageAdapter, StorageKeys } from './Storage';
+import { Toml } from './Toml';
+
+/**
+  * Selections, flag resolution & merging without Node - runs in browsers & sandboxed renderers.
+  * Flag files are read through a {@link StorageAdapter}; {@link RFO} extends it with preprocessing, Roblox installs & the filesystem.
+  * @example ```ts
+  * import { RFOCore } from 'rfo.js/browser';
+  *
+  * const rfo = new RFOCore(new RFOCore.MemoryStorage().set(file, flagFileText));
+  * rfo.processedFlagList = processedFlagLists; // e.g. rfo-snapshot.json lists, or served by your backend
+  * rfo.profiles = new RFOCore.ProfileManager(new RFOCore.IndexedDBStorage());
+  * rfo.enableList('Graphics').setFeature('Performance', 'FPS Cap', '240');
+  * await rfo.loadFlagFiles();
+  * rfo.mergeFlagFiles(); // => { DFIntTaskSchedulerTargetFps: 240, ... }
+  * ```
+  */
+export class RFOCore {
+  public static SelectionResolver = SelectionResolver;
+  public static SelectionError = SelectionError;
+  public static SelectionConflictError = SelectionConflictError;
+  public static FlagListValidator = FlagListValidator;
+  public static FlagListComposer = FlagListComposer;
+  public static FlagListCompositionError = FlagListCompositionError;
+  public static FlagMerger = FlagMerger;
+  public static FlagModel = FlagModel;
+  public static OverwriteLayers = OverwriteLayers;
+  public static ProfileManager = ProfileManager;
+  public static MemoryStorage = MemoryStorage;
+  public static IndexedDBStorage = IndexedDBStorage;
+  public static StorageKeys = StorageKeys;
+  public static Toml = Toml;
+  /** Saves & loads named profiles */
+  public profiles = new ProfileManager();
+  /** You'll likely want to modify the .enabled keys on this */
+  public processedFlagList: ProcessedFlagList[] = [];
+  /**
+    * Are there any preprocessed flaglists?
+    */
+  public get hasProcessedFlags() {
+    return this.processedFlagList.length > 0;
+  }
+  /**
+    * Platform to check platform constraints against
+    */
+  public platform: Platform = SelectionResolver.currentPlatform();
+  /**
+    * Flag Overwrites - applied below every layer of overwriteLayers
+    */
+  public flagOverwrites: Record<string, any> = {};
+  /**
+    * Scoped overwrite layers - global, per flag list or per Roblox install, applied by priority
+    * @example ```ts
+    * rfo.setOverwriteLayer({ name: 'Low Graphics', scope: { list: 'Graphics' }, flags: { DFIntDebugFRMQualityLevelOverride: 1 } })
+    *   .setOverwriteLayer({ name: 'Studio', scope: { install: studioPath }, flags: {}, remove: ['DFIntTaskSchedulerTargetFps'] });
+    * ```
+    */
+  public overwriteLayers: OverwriteLayer[] = [];
+  /**
+    * How to resolve enabled lists disagreeing about a flag
+    * @example ```ts
+    * rfo.mergeOptions = { policy: 'error', priority: { DFIntTaskSchedulerTargetFps: ['Performance'] } };
+    * ```
+    */
+  public mergeOptions: MergeOptions = { policy: 'last-wins' };
+  /**
+    * What to do with flag values that don't match the type their prefix expects - e.g. "false" for an FFlag
+    */
+  public flagTypeMode: FlagTypeMode = 'coerce';
+  /**
+    * Active profile - re-applied after every preprocessFlags
+    */
+  public profile: Profile | null = null;
+  /**
+    * Selections of the active profile that no longer match the flag lists
+    */
+  public profileMismatches: ProfileMismatch[] = [];
+  /**
+    * Parsed flag files, by path - filled by loadFlagFiles
+    */
+  public flagFiles = new Map<string, Record<string, any>>();
+
+  /**
+    * @param storage Where flag files are read from - keys are the file paths of processedFlagList
+    */
+  constructor(public storage: StorageAdapter = new MemoryStorage()) { }
+
+  /**
+    * Reads & parses flag files from storage, so they can be merged without waiting on it
+    * @param files Flag files to load - defaults to every file of every list, so changing selections needs no reload
+    * @throws If a file is not in storage
+    * @example ```ts
+    * await rfo.loadFlagFiles();
+    * rfo.enableList('Graphics').mergeFlagFiles();
+    * ```
+    */
+  public async loadFlagFiles(files: string[] = this.allFlagFiles()) {
+    await Promise.all([...new Set(files)].filter(file => !this.flagFiles.has(file)).map(async file => {
+      const text = await this.storage.read(file);
+      if (text === undefined) throw new Error('Flag file does not exist: ' + file);
+      this.flagFiles.set(file, json5.parse(text));
+    }));
+    return this;
+  }
+  /**
+    * Activates a profile, applying its selections & overwrites
+    * @returns Selections that no longer match the flag lists
+    * @example ```ts
+    * const mismatches = rfo.useProfile(RFO.ProfileManager.parse(readFileSync('./competitive.json', 'utf-8')));
+    * ```
+    */
+  public useProfile(profile: Profile) {
+    this.profile = profile;
+    this.flagOverwrites = { ...profile.overwrites };
+    this.overwriteLayers = OverwriteLayers.clone(profile.layers ?? []);
+    // Without flag lists there is nothing to match yet - preprocessFlags applies it later
+    this.profileMismatches = this.hasProcessedFlags ? ProfileManager.apply(profile, this.processedFlagList) : [];
+    return this.profileMismatches;
+  }
+  /**
+    * Captures the current selections & overwrites as a profile
+    */
+  public captureProfile(name: string = this.profile?.name ?? 'default') {
+    return ProfileManager.capture(name, this.processedFlagList, this.flagOverwrites, this.overwriteLayers);
+  }
+  /**
+    * Saves the current selections & overwrites as a named profile, and activates it
+    * @example ```ts
+    * await rfo.saveProfile('Competitive');
+    * ```
+    */
+  public async saveProfile(name: string = this.profile?.name ?? 'default') {
+    const profile = this.captureProfile(name);
+    await this.profiles.save(profile);
+    this.profile = profile;
+    return profile;
+  }
+  /**
+    * Loads a named profile and activates it
+    * @returns Selections that no longer match the flag lists
+    * @example ```ts
+    * await rfo.preprocessFlags();
+    * const mismatches = await rfo.loadProfile('Competitive'); // => [{ path: 'lists["Performance"].features["FPS Cap"]', reason: 'option "360" no longer exists' }]
+    * ```
+    */
+  public async loadProfile(name: string) {
+    return this.useProfile(await this.profiles.load(name));
+  }
+  /**
+    * Enables or disables a flag list
+    * @throws {SelectionError} If the list does not exist
+    * @example ```ts
+    * rfo.enableList('Graphics').enableList('Experimental', false);
+    * ```
+    */
+  public enableList(key: string, enabled: boolean = true) {
+    this.selectionList(key).enabled = enabled;
+    return this;
+  }
+  /**
+    * Selects the option of a single choice feature, or the options of a multiple choice feature
+    * @throws {SelectionError} If the list, feature or an option does not exist, or the number of options is outside min/max
+    * @example ```ts
+    * rfo.setFeature('Performance', 'FPS Cap', '240');
+    * rfo.setFeature('Graphics', 'Effects', ['Shadows', 'Bloom']);
+    * ```
+    */
+  public setFeature(key: string, featureName: string, value: string | string[]) {
+    const feature = this.selectionList(key).features.find(feature => feature.name === featureName);
+    if (!feature) throw new SelectionError([{ path: `${key}/${featureName}`, message: `Unknown feature ${featureName} in ${key}` }]);
+    const issue = SelectionResolver.validateValue(feature, value, `${key}/${featureName}`);
+    if (issue) throw new SelectionError([issue]);
+    feature.value = Array.isArray(value) ? [...value] : value;
+    return this;
+  }
+  /**
+    * Puts enabled & every feature value back to the list defaults
+    * @param key Only reset this list
+    * @throws {SelectionError} If the list does not exist
+    */
+  public resetToDefaults(key?: string) {
+    const lists = key === undefined ? this.processedFlagList.flatMap(flagLists => Object.values(flagLists)) : [this.selectionList(key)];
+    for (const list of lists) {
+      list.enabled = list.default;
+      for (const feature of list.features)
+        feature.value = Array.isArray(feature.default) ? [...feature.default] : feature.default;
+    }
+    return this;
+  }
+  /**
+    * Lists invalid values & violated constraints of the current selection - getFlagFiles throws on any of them
+    */
+  public validateSelection() {
+    return {
+      issues: SelectionResolver.validate(this.processedFlagList, this.platform),
+      violations: SelectionResolver.check(this.processedFlagList, this.platform),
+    };
+  }
+  /**
+    * Internal Method
+    */
+  protected selectionList(key: string) {
+    if (!this.hasProcessedFlags) throw new Error('Did not preprocess flags');
+    const list = SelectionResolver.findListItem(this.processedFlagList, key);
+    if (!list) throw new SelectionError([{ path: key, message: `Unknown flag list ${key}` }]);
+    return list;
+  }
+  /** Lists the flag files of processedFlagList based on .enabled and .value properties, with the list, feature and option each came from */
+  public getFlagSources() {
+    if (!this.hasProcessedFlags) throw new Error('Did not preprocess flags')
+    if (this.processedFlagList.length === 0) throw new Error('No flags found');
+    const issues = SelectionResolver.validate(this.processedFlagList, this.platform);
+    if (issues.length > 0) throw new SelectionError(issues);
+    const violations = SelectionResolver.check(this.processedFlagList, this.platform);
+    if (violations.length > 0) throw new SelectionConflictError(violations);
+    const flagSources: FlagSource[] = [];
+    for (const [key, list] of SelectionResolver.entries(this.processedFlagList)) {
+      if (list.enabled) {
+        flagSources.push(...list.base.map(file => ({ list: key, feature: null, option: null, file })))
+        list.features.forEach(feature => {
+          if (!SelectionResolver.isAvailable(feature.constraints, this.platform)) return;
+          const optionSources = (option: string) => feature.options[option].map(file => ({ list: key, feature: feature.name, option, file }));
+          if (feature.multiple)
+            for (const flag of feature.value)
+              flagSources.push(...optionSources(flag));
+          else
+            flagSources.push(...optionSources(feature.value as string));
+        })
+      }
+    }
+    return flagSources;
+  }
+  /** Merges processedFlagList into one flag list based on .enabled and .value properties */
+  public getFlagFiles() {
+    return this.getFlagSources().map(source => source.file);
+  }
+  /**
+    * Adds an overwrite layer, replacing the layer of the same name
+    * @example ```ts
+    * rfo.setOverwriteLayer({ name: 'Player', scope: { install: playerPath }, priority: 300, flags: { DFIntTaskSchedulerTargetFps: 144 } });
+    * ```
+    */
+  public setOverwriteLayer(layer: OverwriteLayer) {
+    const layers = this.overwriteLayers.filter(existing => existing.name !== layer.name);
+    const index = this.overwriteLayers.findIndex(existing => existing.name === layer.name);
+    layers.splice(index === -1 ? layers.length : index, 0, layer);
+    OverwriteLayers.validate(layers);
+    this.overwriteLayers = layers;
+    return this;
+  }
+  /** Removes an overwrite layer by name */
+  public removeOverwriteLayer(name: string) {
+    this.overwriteLayers = this.overwriteLayers.filter(layer => layer.name !== name);
+    return this;
+  }
+  /**
+    * Dump all enabled flags in order, followed by the overwrite layers applying to an install - flags a layer removes are null
+    * @example ```ts
+    * rfo.dumpFlags(undefined, studioPath); // => { '_cache/...': {...}, overwrites: {...}, 'overwrites/Studio': { DFIntTaskSchedulerTargetFps: null } }
+    * ```
+    */
+  public dumpFlags(flagFiles: (string | FlagSource)[] = this.getFlagSources(), installPath?: string) {
+    let merged: Record<string, Record<string, any>> = {};
+    for (const flagFile of flagFiles) {
+      const file = typeof flagFile === 'string' ? flagFile : flagFile.file;
+      merged[file] = this.readFlagFile(file);
+    }
+    for (const layer of this.overwriteFlagLayers(installPath))
+      merged[layer.source.file] = { ...layer.flags, ...Object.fromEntries((layer.remove ?? []).map(flag => [flag, null])) };
+    return merged;
+  }
+  /**
+    * Merges flag files & the overwrite layers applying to an install, recording the winning source, overridden values and conflicts of every flag
+    * @example ```ts
+    * const { flags, provenance, conflicts } = rfo.mergeFlagFilesDetailed();
+    * console.log(provenance.DFIntTaskSchedulerTargetFps); // => { value: 240, source: { list: 'Performance', feature: 'FPS Cap', option: '240', file: '_cache/...' }, overridden: [...] }
+    * ```
+    */
+  public mergeFlagFilesDetailed(flagFiles: (string | FlagSource)[] = this.getFlagSources(), installPath?: string): MergeResult & { coerced: (FlagTypeIssue & { source: FlagSource })[]; rejected: (FlagTypeIssue & { source: FlagSource })[] } {
+    const layers: FlagLayer[] = flagFiles.map(flagFile => {
+      const source: FlagSource = typeof flagFile === 'string' ? { list: flagFile, feature: null, option: null, file: flagFile } : flagFile;
+      return { source, flags: this.readFlagFile(source.file) };
+    });
+    layers.push(...this.overwriteFlagLayers(installPath));
+    const coerced: (FlagTypeIssue & { source: FlagSource })[] = [];
+    const rejected: (FlagTypeIssue & { source: FlagSource })[] = [];
+    const typedLayers = layers.map(layer => {
+      const normalized = FlagModel.normalize(layer.flags, this.flagTypeMode);
+      coerced.push(...normalized.coerced.map(issue => ({ ...issue, source: layer.source })));
+      rejected.push(...normalized.rejected.map(issue => ({ ...issue, source: layer.source })));
+      return { ...layer, flags: normalized.flags };
+    });
+    return { ...FlagMerger.merge(typedLayers, this.mergeOptions), coerced, rejected };
+  }
+  /** Merges all flag files from getFlagSources, with the overwrite layers applying to an install */
+  public mergeFlagFiles(flagFiles: (string | FlagSource)[] = this.getFlagSources(), installPath?: string) {
+    return this.mergeFlagFilesDetailed(flagFiles, installPath).flags;
+  }
+  /**
+    * Explains why a flag is set, or removed
+    * @example ```ts
+    * rfo.explainFlag('DFIntTaskSchedulerTargetFps'); // => 'DFIntTaskSchedulerTargetFps = 240 from Performance > FPS Cap > 240 (_cache/...), overriding 60 from Base (_cache/...)'
+    * rfo.explainFlag('DFIntTaskSchedulerTargetFps', studioPath); // => 'DFIntTaskSchedulerTargetFps is removed by overwrites/Studio, overriding 240 from Performance > FPS Cap > 240 (_cache/...)'
+    * ```
+    */
+  public explainFlag(flag: string, installPath?: string) {
+    const { provenance: { [flag]: provenance }, removed: { [flag]: removal } } = this.mergeFlagFilesDetailed(undefined, installPath);
+    const found = provenance ?? removal;
+    if (!found) return `${flag} is not set`;
+    const overridden = found.overridden.map(origin => `${JSON.stringify(origin.value)} from ${FlagMerger.describe(origin.source)}`);
+    const head = provenance ? `${flag} = ${JSON.stringify(provenance.value)} from ${FlagMerger.describe(provenance.source)}` : `${flag} is removed by ${FlagMerger.describe(removal.source)}`;
+    return `${head}${overridden.length > 0 ? `, overriding ${overridden.join(', ')}` : ''}`;
+  }
+  /**
+    * Internal Method
+    */
+  protected overwriteFlagLayers(installPath?: string): FlagLayer[] {
+    return [
+      { source: { list: null, feature: null, option: null, file: 'overwrites' }, flags: this.flagOverwrites },
+      ...OverwriteLayers.active(this.overwriteLayers, this.processedFlagList, installPath)
+        .map(layer => ({ source: OverwriteLayers.source(layer), flags: layer.flags, remove: layer.remove ?? [] })),
+    ];
+  }
+  /**
+    * Internal Method
+    */
+  protected readFlagFile(flagFile: string): Record<string, any> {
+    const flags = this.flagFiles.get(flagFile);
+    if (!flags) throw new Error('Flag file is not loaded: ' + flagFile + ' - call loadFlagFiles first');
+    return flags;
+  }
+  /**
+    * Internal Method
+    */
+  private allFlagFiles(): string[] {
+    return this.processedFlagList.flatMap(flagLists => Object.values(flagLists)).flatMap(list => [
+      ...list.base,
+      ...list.features.flatMap(feature => Object.values(feature.options).flat()),
+    ]);
+  }
+}
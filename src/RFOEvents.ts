@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+import type { ValidationIssue } from './FlagListValidator';
+import type { SettingsDiff } from './SettingsBackup';
+
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug'
+export type LogEntry = {
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  /** The error that caused it, if any */
+  error?: Error;
+}
+export type FetchEvent = {
+  /** Human-Readable Name */
+  name: string;
+  /** URL of the flag list */
+  url: string;
+}
+export type FetchEndEvent = FetchEvent & {
+  /** fetched from the network, not-modified when the server confirmed the cached copy, cached when resolved offline from the lockfile, failed otherwise */
+  status: 'fetched' | 'not-modified' | 'cached' | 'failed';
+  /** SHA512 of the list document, null if it failed */
+  digest: string | null;
+  error?: Error;
+}
+export type DownloadProgress = {
+  /** URL of the file */
+  url: string;
+  /** Bytes received so far */
+  loaded: number;
+  /** Total bytes, null if the server did not say */
+  total: number | null;
+}
+export type CacheEvent = {
+  /** URL of the file */
+  url: string;
+  /** Hash algorithm, none for unhashed files */
+  algorithm: string;
+  /** Expected digest, null for unhashed files */
+  digest: string | null;
+}
+export type ApplyResult = {
+  /** Roblox install */
+  installPath: string;
+  /** Settings file */
+  file: string;
+  /** written, unchanged if the flags already matched (the file is still rewritten), dry-run if nothing was written */
+  status: 'written' | 'unchanged' | 'dry-run';
+  /** What changed */
+  diff: SettingsDiff;
+}
+export type RFOEventMap = {
+  /** A log entry at or above {@link RFOEvents.level} */
+  log: [entry: LogEntry];
+  /** A flag list is being fetched */
+  fetchStart: [event: FetchEvent];
+  /** A flag list was fetched, or failed to */
+  fetchEnd: [event: FetchEndEvent];
+  /** Bytes were received for a flag file */
+  downloadProgress: [progress: DownloadProgress];
+  /** A flag file was found in the cache */
+  cacheHit: [event: CacheEvent];
+  /** A flag file has to be downloaded */
+  cacheMiss: [event: CacheEvent];
+  /** A flag list failed a validation check */
+  validationIssue: [source: string, issue: ValidationIssue];
+  /** Flags were applied to an install */
+  applied: [result: ApplyResult];
+}
+
+export interface RFOEvents {
+  on<K extends keyof RFOEventMap>(event: K, listener: (...args: RFOEventMap[K]) => void): this;
+  once<K extends keyof RFOEventMap>(event: K, listener: (...args: RFOEventMap[K]) => void): this;
+  off<K extends keyof RFOEventMap>(event: K, listener: (...args: RFOEventMap[K]) => void): this;
+  emit<K extends keyof RFOEventMap>(event: K, ...args: RFOEventMap[K]): boolean;
+}
+
+/**
+  * Progress events & log entries of {@link RFO} and {@link FlagListPreprocessor}.
+  * Nothing is written to the console unless a listener does it.
+  * @example ```ts
+  * const rfo = new RFO();
+  * rfo.events.level = 'debug';
+  * rfo.events.on('log', (entry) => console.error(`${entry.level}: ${entry.message}`));
+  * rfo.events.on('downloadProgress', ({ url, loaded, total }) => console.log(url, loaded, total));
+  * ```
+  */
+export class RFOEvents extends EventEmitter {
+  /** Order of log levels, least verbose first */
+  public static levels: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+  /** Most verbose level emitted as log entries - debug entries are only produced in dev mode */
+  public level: LogLevel = 'debug';
+
+  /**
+    * Checks whether entries of a level are emitted.
+    * @param {LogLevel} level Level
+    * @returns {boolean} Whether they are emitted
+    */
+  public enabled(level: LogLevel): boolean {
+    return level !== 'silent' && RFOEvents.levels.indexOf(level) <= RFOEvents.levels.indexOf(this.level);
+  }
+
+  /**
+    * Emits a log entry, if its level is enabled.
+    * @param {LogEntry['level']} level Level
+    * @param {string} message Message
+    * @param {Error} error The error that caused it
+    */
+  public log(level: LogEntry['level'], message: string, error?: Error): void {
+    if (this.enabled(level))
+      this.emit('log', error ? { level, message, error } : { level, message });
+  }
+
+  public error(message: string, error?: Error): void {
+    this.log('error', message, error);
+  }
+
+  public warn(message: string, error?: Error): void {
+    this.log('warn', message, error);
+  }
+
+  public info(message: string): void {
+    this.log('info', message);
+  }
+
+  public debug(message: string): void {
+    this.log('debug', message);
+  }
+}
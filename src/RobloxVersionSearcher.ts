@@ -1,91 +1,258 @@
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
 import { Platform } from './MiscTypes';
 
+export type RobloxInstallKind = 'player' | 'studio' | 'unknown'
+export type RobloxLauncher = 'roblox' | 'bloxstrap' | 'fishstrap' | 'wine' | 'vinegar' | 'sober' | 'custom'
+export type SearchRoot = {
+  /** Directory holding version-* directories, or an install itself if direct */
+  path: string;
+  /** Launcher that manages it */
+  launcher: RobloxLauncher;
+  /** The path is an install, not a directory of installs */
+  direct?: boolean;
+}
+export type RobloxInstall = {
+  /** Install directory - flags go in its ClientSettings */
+  path: string;
+  /** Root it was found in */
+  root: string;
+  /** Launcher that manages it */
+  launcher: RobloxLauncher;
+  /** Hash from the version-<hash> directory name, null for unversioned installs */
+  versionHash: string | null;
+  /** Last modification, in ms since epoch - of the executable if there is one */
+  mtime: number;
+  /** Contains RobloxPlayerBeta.exe (or RobloxPlayer on macOS) */
+  hasPlayer: boolean;
+  /** Contains RobloxStudioBeta.exe (or RobloxStudio on macOS) */
+  hasStudio: boolean;
+  /** Player or Studio */
+  kind: RobloxInstallKind;
+  /** Most recently modified install of its kind in its root */
+  latest: boolean;
+  /** The install the launcher uses - read from launcher state where available, otherwise the latest */
+  active: boolean;
+}
+export type RobloxVersionSearcherOptions = {
+  /** Replaces the built-in search roots - strings are scanned for version-* directories, or used directly if they are an install */
+  roots?: (string | SearchRoot)[] | Partial<Record<'windows' | 'macos' | 'linux', (string | SearchRoot)[]>>;
+  /** Environment to read ROBLOX, ROBLOXVERSION, LOCALAPPDATA etc. from */
+  env?: Record<string, string | undefined>;
+  /** Home directory */
+  home?: string;
+}
+
 /**
  * @example ```ts
  * const searcher = new RFO.RobloxVersionSearcher();
  * const versions = await searcher.searchVersions('Windows')
  * console.log(versions);
+ * // Every install, with metadata
+ * const installs = await searcher.searchInstalls('Windows');
+ * // Against a fixture
+ * const fixture = new RFO.RobloxVersionSearcher({ roots: ['RobloxTest/versions'] });
  * ```
  */
 export class RobloxVersionSearcher {
-  private platformDirs: Record<string, string[]> = {
-    windows: [
-      process.env.ROBLOXVERSION!,
-      process.env.ROBLOX!,
-      'C:/Program Files/Roblox/versions/version-%s',
-      'C:/Program Files (x86)/Roblox/versions/version-%s',
-      `${process.env.localappdata}/Roblox/versions/version-%s`,
-      `${process.env.appdata}/Roblox/versions/version-%s`,
-    ].filter(v => v),
-    macos: [
-      process.env.ROBLOXVERSION!,
-      process.env.ROBLOX!,
-      '/Applications/Roblox.app/Contents/MacOS',
-      '/Applications/Roblox.app/Contents/',
-    ].filter(v => v),
-    linux: [
-      process.env.ROBLOXVERSION!,
-      `${process.env.ROBLOX}/versions/version-%s`,
-    ].filter(v => v),
-  };
+  private platformDirs: Record<string, SearchRoot[]>;
 
-  public async searchVersions(platform: Platform): Promise<string[]> {
-    const versionDirectories: string[] = [];
+  constructor(options: RobloxVersionSearcherOptions = {}) {
+    const env = options.env ?? process.env;
+    const home = options.home ?? os.homedir();
+    const envRoots = ([
+      { path: env.ROBLOXVERSION!, launcher: 'custom', direct: true },
+      { path: env.ROBLOX!, launcher: 'custom' },
+    ] as SearchRoot[]).filter(root => root.path);
+    const localAppData = env.LOCALAPPDATA ?? env.localappdata;
+    const appData = env.APPDATA ?? env.appdata;
+    const winePrefix = env.WINEPREFIX ?? `${home}/.wine`;
+    const user = env.USER ?? path.basename(home);
+    this.platformDirs = {
+      windows: [
+        ...envRoots,
+        { path: 'C:/Program Files/Roblox/versions', launcher: 'roblox' },
+        { path: 'C:/Program Files (x86)/Roblox/versions', launcher: 'roblox' },
+        ...(localAppData ? [
+          { path: `${localAppData}/Roblox/versions`, launcher: 'roblox' },
+          { path: `${localAppData}/Bloxstrap/Versions`, launcher: 'bloxstrap' },
+          { path: `${localAppData}/Fishstrap/Versions`, launcher: 'fishstrap' },
+        ] as SearchRoot[] : []),
+        ...(appData ? [{ path: `${appData}/Roblox/versions`, launcher: 'roblox' }] as SearchRoot[] : []),
+      ],
+      macos: [
+        ...envRoots,
+        { path: '/Applications/Roblox.app/Contents/MacOS', launcher: 'roblox', direct: true },
+        { path: `${home}/Applications/Roblox.app/Contents/MacOS`, launcher: 'roblox', direct: true },
+        { path: '/Applications/RobloxStudio.app/Contents/MacOS', launcher: 'roblox', direct: true },
+      ],
+      linux: [
+        ...envRoots,
+        { path: `${winePrefix}/drive_c/users/${user}/AppData/Local/Roblox/versions`, launcher: 'wine' },
+        { path: `${winePrefix}/drive_c/Program Files (x86)/Roblox/versions`, launcher: 'wine' },
+        { path: `${winePrefix}/drive_c/Program Files/Roblox/versions`, launcher: 'wine' },
+        { path: `${home}/.local/share/vinegar/versions`, launcher: 'vinegar' },
+        { path: `${home}/.var/app/org.vinegarhq.Vinegar/data/vinegar/versions`, launcher: 'vinegar' },
+        { path: `${home}/.var/app/org.vinegarhq.Sober/data/sober`, launcher: 'sober', direct: true },
+      ],
+    };
+    if (Array.isArray(options.roots)) {
+      const roots = options.roots.map(root => this.toSearchRoot(root));
+      this.platformDirs = { windows: roots, macos: roots, linux: roots };
+    } else if (options.roots) {
+      for (const [platform, roots] of Object.entries(options.roots))
+        this.platformDirs[platform] = roots!.map(root => this.toSearchRoot(root));
+    }
+  }
 
-    const searchPaths = this.platformDirs[platform.toLowerCase() === 'darwin' ? 'macos' : platform.toLowerCase()];
-    if (!searchPaths)
-      throw new Error(`Unsupported platform: ${platform}`);
+  /**
+   * Returns the active install of each kind in every root.
+   * @param {Platform} platform Platform to search
+   * @param {RobloxInstallKind[]} kinds Kinds of installs to return
+   * @returns {Promise<string[]>} Install directories
+   */
+  public async searchVersions(platform: Platform, kinds: RobloxInstallKind[] = ['player', 'studio', 'unknown']): Promise<string[]> {
+    const installs = await this.searchInstalls(platform);
+    return installs.filter(install => install.active && kinds.includes(install.kind)).map(install => install.path);
+  }
 
-    for (const searchPath of searchPaths) {
-      const resolvedPath = await this.resolvePath(searchPath);
-      if (resolvedPath) {
-        const versionDirectory = await this.searchVersionDirectory(resolvedPath);
-        if (versionDirectory)
-          versionDirectories.push(versionDirectory);
-        else
-          versionDirectories.push(resolvedPath);
+  /**
+   * Returns every install candidate with its metadata, newest first.
+   * @param {Platform} platform Platform to search
+   * @returns {Promise<RobloxInstall[]>} Installs
+   */
+  public async searchInstalls(platform: Platform): Promise<RobloxInstall[]> {
+    const installs: RobloxInstall[] = [];
+    for (const root of this.getSearchPaths(platform)) {
+      const rootInstalls: RobloxInstall[] = [];
+      for (const installPath of await this.listInstallPaths(root)) {
+        if (installs.some(install => install.path === installPath)) continue;
+        rootInstalls.push(await this.inspectInstall(installPath, root));
+      }
+      const activeVersions = await this.readLauncherState(root);
+      for (const kind of ['player', 'studio', 'unknown'] as RobloxInstallKind[]) {
+        const ofKind = rootInstalls.filter(install => install.kind === kind).sort((a, b) => b.mtime - a.mtime);
+        if (ofKind.length === 0) continue;
+        ofKind[0].latest = true;
+        // Version directories without an executable are leftovers of old updates
+        if (kind === 'unknown' && !root.direct) continue;
+        const stateActive = ofKind.find(install => activeVersions.includes(path.basename(install.path)));
+        (stateActive ?? ofKind[0]).active = true;
       }
+      installs.push(...rootInstalls);
     }
-
-    return versionDirectories;
+    return installs.sort((a, b) => b.mtime - a.mtime);
   }
 
-  private async searchVersionDirectory(directory: string): Promise<string | undefined> {
-    try {
-      const files = await fs.readdir(directory);
-      for (const file of files) {
-        if (file.startsWith('version-')) {
-          return path.join(directory, file);
-        }
-      }
-    } catch (error) {
-      // Ignore any errors and continue to the next directory
+  /**
+   * Lists the existing directories new Roblox versions get installed into.
+   * @example ```ts
+   * const roots = await searcher.getRoots('Windows'); // => ['C:/Users/.../AppData/Local/Roblox/versions']
+   * ```
+   */
+  public async getRoots(platform: Platform): Promise<string[]> {
+    const roots: string[] = [];
+    for (const root of this.getSearchPaths(platform)) {
+      const scanDir = root.direct ? root.path : await this.resolveScanDir(root.path);
+      if (scanDir && await this.isDirectory(scanDir) && !roots.includes(scanDir))
+        roots.push(scanDir);
     }
+    return roots;
+  }
 
-    return undefined;
+  private getSearchPaths(platform: Platform): SearchRoot[] {
+    const platformName = platform.toLowerCase();
+    const searchPaths = this.platformDirs[platformName === 'darwin' ? 'macos' : platformName === 'win32' ? 'windows' : platformName];
+    if (!searchPaths)
+      throw new Error(`Unsupported platform: ${platform}`);
+    return searchPaths;
   }
 
-  private async resolvePath(directory: string): Promise<string | undefined> {
-    if (!directory.includes('%s')) {
-      // Directory doesn't contain %s, return it as-is
-      return directory;
-    }
+  private toSearchRoot(root: string | SearchRoot): SearchRoot {
+    if (typeof root !== 'string') return root;
+    // Accept the old version-%s templates
+    return { path: root.includes('%s') ? path.dirname(root) : root, launcher: 'custom' };
+  }
+
+  private async listInstallPaths(root: SearchRoot): Promise<string[]> {
+    if (root.direct)
+      return await this.isDirectory(root.path) ? [root.path] : [];
+    if (await this.isInstall(root.path))
+      return [root.path];
+    const scanDir = await this.resolveScanDir(root.path);
+    if (!scanDir) return [];
+    const entries = await fs.readdir(scanDir, { withFileTypes: true }).catch(() => []);
+    return entries
+      .filter(entry => entry.isDirectory() && entry.name.startsWith('version-'))
+      .map(entry => path.join(scanDir, entry.name));
+  }
+
+  /**
+   * A root may be a Roblox directory with a versions subdirectory, or the versions directory itself
+   */
+  private async resolveScanDir(directory: string): Promise<string | undefined> {
+    for (const versionsDir of ['versions', 'Versions'])
+      if (await this.isDirectory(path.join(directory, versionsDir)))
+        return path.join(directory, versionsDir);
+    return await this.isDirectory(directory) ? directory : undefined;
+  }
 
-    const baseDir = path.dirname(directory);
-    const pattern = path.basename(directory.replace('%s', ''));
+  private async isInstall(directory: string): Promise<boolean> {
+    if (path.basename(directory).startsWith('version-')) return this.isDirectory(directory);
+    const executables = await this.findExecutables(directory);
+    return executables.player !== null || executables.studio !== null;
+  }
+
+  private async inspectInstall(installPath: string, root: SearchRoot): Promise<RobloxInstall> {
+    const executables = await this.findExecutables(installPath);
+    const executable = executables.player ?? executables.studio;
+    const stat = await fs.stat(executable ?? installPath);
+    const versionMatch = /^version-(.+)$/.exec(path.basename(installPath));
+    const hasPlayer = executables.player !== null;
+    const hasStudio = executables.studio !== null;
+    return {
+      path: installPath,
+      root: root.path,
+      launcher: root.launcher,
+      versionHash: versionMatch ? versionMatch[1] : null,
+      mtime: stat.mtimeMs,
+      hasPlayer,
+      hasStudio,
+      kind: hasPlayer || root.launcher === 'sober' ? 'player' : hasStudio ? 'studio' : 'unknown',
+      latest: false,
+      active: false,
+    };
+  }
+
+  private async findExecutables(directory: string): Promise<{ player: string | null; studio: string | null }> {
+    const find = async (names: string[]) => {
+      for (const name of names)
+        if (await fs.stat(path.join(directory, name)).then(() => true, () => false))
+          return path.join(directory, name);
+      return null;
+    };
+    return {
+      player: await find(['RobloxPlayerBeta.exe', 'RobloxPlayer']),
+      studio: await find(['RobloxStudioBeta.exe', 'RobloxStudio']),
+    };
+  }
+
+  /**
+   * Bloxstrap-style launchers record the versions they use in a State.json next to their Versions directory
+   */
+  private async readLauncherState(root: SearchRoot): Promise<string[]> {
+    if (root.launcher !== 'bloxstrap' && root.launcher !== 'fishstrap') return [];
     try {
-      const files = await fs.readdir(baseDir);
-      for (const file of files) {
-        if (file.includes(pattern)) {
-          return path.join(baseDir, file);
-        }
-      }
+      const state = JSON.parse(await fs.readFile(path.join(path.dirname(root.path), 'State.json'), 'utf-8'));
+      return [state.PlayerVersionGuid, state.StudioVersionGuid, state.Player?.VersionGuid, state.Studio?.VersionGuid]
+        .filter(version => typeof version === 'string');
     } catch (error) {
-      // Ignore any errors and return undefined
+      return [];
     }
+  }
 
-    return undefined;
+  private async isDirectory(directory: string): Promise<boolean> {
+    return await fs.stat(directory).then(stat => stat.isDirectory(), () => false);
   }
 }
@@ -0,0 +1,254 @@
+import { Constraints, Platform } from './MiscTypes';
+import type { ProcessedFeature, ProcessedFlagList, ProcessedFlagListItem } from './FlagListPreprocessor';
+
+export type SelectionRef = {
+  /** Flag list key */
+  list: string;
+  /** Feature name, null for the list itself */
+  feature: string | null;
+  /** Option, null for the list itself */
+  option: string | null;
+}
+export type ConstraintViolation = {
+  /** What has the constraint - a flag list key, or list/feature, or list/feature=option */
+  path: string;
+  /** Which constraint is violated */
+  constraint: 'requires' | 'conflicts' | 'platforms';
+  /** The selection it refers to, null for platforms */
+  ref: string | null;
+  /** Human-readable explanation */
+  message: string;
+}
+export type SelectionIssue = {
+  /** The list or list/feature the selection is invalid for */
+  path: string;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+  * Selections refer to unknown lists, features or options, or pick the wrong number of options.
+  */
+export class SelectionError extends Error {
+  constructor(public readonly issues: SelectionIssue[]) {
+    super(issues.length === 1 ? issues[0].message : `Invalid selection:\n${issues.map((issue) => `  ${issue.message}`).join('\n')}`);
+    this.name = 'SelectionError';
+  }
+}
+/**
+  * The selected lists & options violate constraints.
+  */
+export class SelectionConflictError extends Error {
+  constructor(public readonly violations: ConstraintViolation[]) {
+    super(`Selection is not satisfiable:\n${violations.map((violation) => `  ${violation.message}`).join('\n')}`);
+    this.name = 'SelectionConflictError';
+  }
+}
+
+/**
+  * Checks the requires, conflicts & platforms constraints of flag lists, features and options against the current selections.
+  * Selections are referred to by a flag list key (the list is enabled), or `list/feature=option` (the option is selected).
+  * Features unavailable on the platform are hidden and not applied; enabled lists and selected options unavailable on it are violations.
+  * @example ```ts
+  * const violations = SelectionResolver.check(rfo.processedFlagList, 'Windows');
+  * for (const violation of violations) console.log(violation.message);
+  * // => Performance/Renderer=Vulkan requires Graphics, which is not enabled
+  * ```
+  */
+export class SelectionResolver {
+  /**
+    * Parses a selection reference.
+    * @param {string} ref `list` or `list/feature=option`
+    * @returns {SelectionRef} The parsed reference
+    */
+  public static parseRef(ref: string): SelectionRef {
+    const match = /^([^/=]+)\/([^=]+)=(.+)$/.exec(ref);
+    if (match) return { list: match[1], feature: match[2], option: match[3] };
+    if (ref === '' || /[/=]/.test(ref)) throw new Error(`Invalid selection reference ${JSON.stringify(ref)}, expected list or list/feature=option`);
+    return { list: ref, feature: null, option: null };
+  }
+
+  /**
+    * Normalizes a platform name.
+    * @param {Platform} platform Platform, e.g. Windows or win32
+    * @returns The platform as used in constraints
+    */
+  public static platformName(platform: Platform): 'windows' | 'macos' | 'linux' {
+    const name = platform.toLowerCase();
+    return name === 'win32' ? 'windows' : name === 'darwin' ? 'macos' : name as 'windows' | 'macos' | 'linux';
+  }
+
+  /**
+    * Detects the platform this runs on - process.platform in Node, the user agent in browsers.
+    * @returns {Platform} Platform
+    */
+  public static currentPlatform(): Platform {
+    if (typeof process !== 'undefined' && process.platform) return process.platform as Platform;
+    const userAgent = globalThis.navigator?.userAgent ?? '';
+    return /Mac/.test(userAgent) ? 'darwin' : /Linux|Android|CrOS/.test(userAgent) ? 'linux' : 'win32';
+  }
+
+  /**
+    * Finds a flag list item by its key or namespace:key in processed flag lists.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {string} key Flag list key, or namespace:key
+    * @returns {ProcessedFlagListItem | undefined} The first item with that key, or the item with that id
+    * @example ```ts
+    * const performance = SelectionResolver.findListItem(rfo.processedFlagList, 'Performance');
+    * const theirs = SelectionResolver.findListItem(rfo.processedFlagList, 'community:Performance');
+    * ```
+    */
+  public static findListItem(processedFlagLists: ProcessedFlagList[], key: string): ProcessedFlagListItem | undefined {
+    for (const processedFlagList of processedFlagLists)
+      if (Object.prototype.hasOwnProperty.call(processedFlagList, key))
+        return processedFlagList[key];
+    for (const processedFlagList of processedFlagLists)
+      for (const item of Object.values(processedFlagList))
+        if (item.id === key) return item;
+    return undefined;
+  }
+
+  /**
+    * Lists every flag list item under a unique reference - its key, or its namespace:key if an earlier list uses the key already.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @returns {[string, ProcessedFlagListItem][]} Items by reference, in order
+    * @example ```ts
+    * SelectionResolver.entries(rfo.processedFlagList).map(([ref]) => ref); // => ['Performance', 'Graphics', 'community:Performance']
+    * ```
+    */
+  public static entries(processedFlagLists: ProcessedFlagList[]): [string, ProcessedFlagListItem][] {
+    const seen = new Set<string>();
+    const entries: [string, ProcessedFlagListItem][] = [];
+    for (const [key, item] of processedFlagLists.flatMap((processedFlagList) => Object.entries(processedFlagList))) {
+      const ref = seen.has(key) ? item.id ?? key : key;
+      if (seen.has(ref)) continue;
+      seen.add(ref);
+      entries.push([ref, item]);
+    }
+    return entries;
+  }
+
+  /**
+    * Checks whether something is available on a platform.
+    * @param {Constraints} constraints Constraints of a list, feature or option
+    * @param {Platform} platform Platform
+    * @returns {boolean} Whether it is available
+    */
+  public static isAvailable(constraints: Constraints | undefined, platform: Platform): boolean {
+    return !constraints?.platforms || constraints.platforms.includes(this.platformName(platform));
+  }
+
+  /**
+    * Checks whether a referenced selection is active.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {string} ref `list` or `list/feature=option`
+    * @param {Platform} platform Platform
+    * @returns {boolean | null} Whether it is active, null if it does not exist
+    */
+  public static isActive(processedFlagLists: ProcessedFlagList[], ref: string, platform: Platform): boolean | null {
+    const { list: key, feature: featureName, option } = this.parseRef(ref);
+    const list = this.findListItem(processedFlagLists, key);
+    if (!list) return null;
+    if (featureName === null) return list.enabled;
+    const feature = list.features.find((feature) => feature.name === featureName);
+    if (!feature || !Object.prototype.hasOwnProperty.call(feature.options, option)) return null;
+    return list.enabled && this.isAvailable(feature.constraints, platform) && this.selected(feature).includes(option);
+  }
+
+  /**
+    * Checks a value for a feature against its options & cardinality.
+    * @param {ProcessedFeature} feature Feature
+    * @param {string | string[]} value Option, or options of a multiple choice feature
+    * @param {string} path list/feature, for messages
+    * @returns {SelectionIssue | null} What is wrong with it, null if it is valid
+    */
+  public static validateValue(feature: ProcessedFeature, value: string | string[], path: string = feature.name): SelectionIssue | null {
+    const optionList = Object.keys(feature.options).join(', ');
+    if (!feature.multiple) {
+      if (typeof value !== 'string')
+        return { path, message: `${path} takes exactly one option` };
+      if (!Object.prototype.hasOwnProperty.call(feature.options, value))
+        return { path, message: `Unknown option ${value} of ${path}, expected one of ${optionList}` };
+      return null;
+    }
+    if (!Array.isArray(value))
+      return { path, message: `${path} takes a list of options` };
+    const unknown = value.find((option) => !Object.prototype.hasOwnProperty.call(feature.options, option));
+    if (unknown !== undefined)
+      return { path, message: `Unknown option ${unknown} of ${path}, expected one of ${optionList}` };
+    const duplicate = value.find((option, index) => value.indexOf(option) !== index);
+    if (duplicate !== undefined)
+      return { path, message: `Option ${duplicate} of ${path} is selected twice` };
+    if (value.length < feature.min || value.length > feature.max)
+      return { path, message: `${path} takes ${feature.min === feature.max ? feature.min : `${feature.min} to ${feature.max}`} options, got ${value.length}` };
+    return null;
+  }
+
+  /**
+    * Checks the values of every feature in enabled lists.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {Platform} platform Platform - features unavailable on it are skipped
+    * @returns {SelectionIssue[]} Invalid values - empty if every value is valid
+    */
+  public static validate(processedFlagLists: ProcessedFlagList[], platform: Platform = this.currentPlatform()): SelectionIssue[] {
+    const issues: SelectionIssue[] = [];
+    for (const [key, list] of this.entries(processedFlagLists)) {
+      if (!list.enabled) continue;
+      for (const feature of list.features) {
+        if (!this.isAvailable(feature.constraints, platform)) continue;
+        const issue = this.validateValue(feature, feature.value, `${key}/${feature.name}`);
+        if (issue) issues.push(issue);
+      }
+    }
+    return issues;
+  }
+
+  /**
+    * Checks every active list, feature & selected option.
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {Platform} platform Platform to check availability on
+    * @returns {ConstraintViolation[]} Violations - empty if the selection is satisfiable
+    */
+  public static check(processedFlagLists: ProcessedFlagList[], platform: Platform = this.currentPlatform()): ConstraintViolation[] {
+    const violations: ConstraintViolation[] = [];
+    for (const [key, list] of this.entries(processedFlagLists)) {
+      if (!list.enabled) continue;
+      this.checkConstraints(processedFlagLists, key, list.constraints, platform, violations);
+      for (const feature of list.features) {
+        if (!this.isAvailable(feature.constraints, platform)) continue;
+        const featurePath = `${key}/${feature.name}`;
+        this.checkConstraints(processedFlagLists, featurePath, { ...feature.constraints, platforms: undefined }, platform, violations);
+        for (const option of this.selected(feature))
+          this.checkConstraints(processedFlagLists, `${featurePath}=${option}`, feature.optionConstraints?.[option], platform, violations);
+      }
+    }
+    return violations;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static checkConstraints(processedFlagLists: ProcessedFlagList[], path: string, constraints: Constraints | undefined, platform: Platform, violations: ConstraintViolation[]) {
+    if (!constraints) return;
+    if (!this.isAvailable(constraints, platform))
+      violations.push({ path, constraint: 'platforms', ref: null, message: `${path} is only available on ${constraints.platforms!.join(', ')}, not ${this.platformName(platform)}` });
+    for (const ref of constraints.requires ?? []) {
+      const active = this.isActive(processedFlagLists, ref, platform);
+      if (active === null)
+        violations.push({ path, constraint: 'requires', ref, message: `${path} requires ${ref}, which does not exist` });
+      else if (!active)
+        violations.push({ path, constraint: 'requires', ref, message: `${path} requires ${ref}, which is not ${ref.includes('=') ? 'selected' : 'enabled'}` });
+    }
+    for (const ref of constraints.conflicts ?? []) {
+      if (this.isActive(processedFlagLists, ref, platform))
+        violations.push({ path, constraint: 'conflicts', ref, message: `${path} conflicts with ${ref}, which is ${ref.includes('=') ? 'selected' : 'enabled'}` });
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private static selected(feature: ProcessedFeature): string[] {
+    return Array.isArray(feature.value) ? feature.value : [feature.value];
+  }
+}
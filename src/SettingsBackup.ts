@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import { writeFileAtomic } from './FsUtil';
+
+export type SettingsSnapshot = {
+  /** Snapshot ID - pass to {@link SettingsBackup.restore} */
+  id: string;
+  /** Roblox install the settings belong to */
+  installPath: string;
+  /** Settings file that was backed up */
+  file: string;
+  /** When the snapshot was taken, in ms since epoch */
+  createdAt: number;
+  /** Whether the settings file existed - restoring a snapshot of a missing file deletes it */
+  existed: boolean;
+}
+export type FlagChange = {
+  flag: string;
+  before: any;
+  after: any;
+}
+export type FlagDiff = {
+  /** Flags only in the new settings */
+  added: { flag: string; value: any }[];
+  /** Flags only in the old settings */
+  removed: { flag: string; value: any }[];
+  /** Flags in both, with different values */
+  changed: FlagChange[];
+}
+export type SettingsDiff = FlagDiff & {
+  /** Roblox install */
+  installPath: string;
+  /** Settings file */
+  file: string;
+}
+
+/**
+  * Timestamped backups of settings files.
+  * @example ```ts
+  * const backup = new SettingsBackup('./_backups');
+  * const snapshot = await backup.snapshot(robloxPath, `${robloxPath}/ClientSettings/ClientAppSettings.json`);
+  * // ... overwrite the file ...
+  * await backup.restore(snapshot.id);
+  * ```
+  */
+export class SettingsBackup {
+  /**
+    * @param {string} dir Directory to store snapshots in
+    * @param {number} keep Snapshots to keep per install - 0 to keep all
+    */
+  constructor(public dir: string = '_backups', public keep: number = 0) { }
+
+  /**
+    * Compares two sets of flags.
+    * @param {Record<string, any>} before Old flags
+    * @param {Record<string, any>} after New flags
+    * @returns {FlagDiff} Added, removed and changed flags
+    */
+  public static diff(before: Record<string, any>, after: Record<string, any>): FlagDiff {
+    const diff: FlagDiff = { added: [], removed: [], changed: [] };
+    for (const [flag, value] of Object.entries(after)) {
+      if (!(flag in before))
+        diff.added.push({ flag, value });
+      else if (JSON.stringify(before[flag]) !== JSON.stringify(value))
+        diff.changed.push({ flag, before: before[flag], after: value });
+    }
+    for (const [flag, value] of Object.entries(before))
+      if (!(flag in after))
+        diff.removed.push({ flag, value });
+    return diff;
+  }
+
+  /**
+    * Saves the current contents of a settings file.
+    * @param {string} installPath Roblox install the file belongs to
+    * @param {string} file Settings file
+    * @returns {Promise<SettingsSnapshot>} The snapshot
+    */
+  public async snapshot(installPath: string, file: string): Promise<SettingsSnapshot> {
+    const contents = await fs.readFile(file, 'utf-8').catch(() => null);
+    const installDir = this.installDir(installPath);
+    const createdAt = Date.now();
+    const stamp = new Date(createdAt).toISOString().replace(/[:.]/g, '-');
+    let name = stamp;
+    for (let i = 1; await fs.stat(path.join(this.dir, installDir, `${name}.json`)).then(() => true, () => false); i++)
+      name = `${stamp}-${i}`;
+    const snapshot: SettingsSnapshot = {
+      id: `${installDir}/${name}`,
+      installPath,
+      file,
+      createdAt,
+      existed: contents !== null,
+    };
+    await writeFileAtomic(path.join(this.dir, installDir, `${name}.json`), JSON.stringify({ ...snapshot, contents }, null, 2));
+    await this.prune(installPath);
+    return snapshot;
+  }
+
+  /**
+    * Lists snapshots, newest first.
+    * @param {string} installPath Only list snapshots of this install
+    * @returns {Promise<SettingsSnapshot[]>} Snapshots
+    */
+  public async list(installPath?: string): Promise<SettingsSnapshot[]> {
+    const installDirs = installPath ? [this.installDir(installPath)] : await fs.readdir(this.dir).catch(() => [] as string[]);
+    const snapshots: SettingsSnapshot[] = [];
+    for (const installDir of installDirs) {
+      const files = await fs.readdir(path.join(this.dir, installDir)).catch(() => [] as string[]);
+      for (const file of files.filter((file) => file.endsWith('.json'))) {
+        const { contents, ...snapshot } = await this.read(`${installDir}/${file.slice(0, -'.json'.length)}`);
+        snapshots.push(snapshot);
+      }
+    }
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt || b.id.localeCompare(a.id));
+  }
+
+  /**
+    * Reads the settings saved in a snapshot.
+    * @param {string} id Snapshot ID
+    * @returns {Promise<string | null>} File contents, or null if the file did not exist
+    */
+  public async contents(id: string): Promise<string | null> {
+    return (await this.read(id)).contents;
+  }
+
+  /**
+    * Puts a snapshot back.
+    * @param {string | SettingsSnapshot} snapshot Snapshot or its ID
+    * @returns {Promise<SettingsSnapshot>} The restored snapshot
+    */
+  public async restore(snapshot: string | SettingsSnapshot): Promise<SettingsSnapshot> {
+    const { contents, ...restored } = await this.read(typeof snapshot === 'string' ? snapshot : snapshot.id);
+    if (contents === null)
+      await fs.rm(restored.file, { force: true });
+    else
+      await writeFileAtomic(restored.file, contents);
+    return restored;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async read(id: string): Promise<SettingsSnapshot & { contents: string | null }> {
+    if (!/^[\w-]+\/[\w-]+$/.test(id)) throw new Error('Invalid snapshot ID: ' + id);
+    const file = path.join(this.dir, `${id}.json`);
+    const data = await fs.readFile(file, 'utf-8').catch(() => {
+      throw new Error('Snapshot does not exist: ' + id);
+    });
+    return JSON.parse(data);
+  }
+
+  /**
+    * Internal Method
+    */
+  private async prune(installPath: string): Promise<void> {
+    if (this.keep <= 0) return;
+    const snapshots = await this.list(installPath);
+    for (const snapshot of snapshots.slice(this.keep))
+      await fs.rm(path.join(this.dir, `${snapshot.id}.json`), { force: true });
+  }
+
+  /**
+    * Internal Method
+    */
+  private installDir(installPath: string): string {
+    const resolved = path.resolve(installPath);
+    const name = path.basename(resolved).replace(/[^\w-]/g, '_');
+    return `${name}-${crypto.createHash('SHA256').update(resolved).digest('hex').slice(0, 12)}`;
+  }
+}
@@ -0,0 +1,155 @@
+import { readFileSync } from 'fs';
+import json5 from 'json5';
+import { FlagListPreprocessor, ProcessedFeature, ProcessedFlagList, ProcessedFlagListItem } from './FlagListPreprocessor';
+import { FlagMerger, FlagSource } from './FlagMerger';
+import { FlagModel } from './FlagModel';
+import { Platform } from './MiscTypes';
+import { ProfileListSelection } from './ProfileManager';
+import { SelectionResolver } from './SelectionResolver';
+
+export type ImportedFlag = {
+  /** Flag name */
+  flag: string;
+  /** Value in the settings file */
+  value: any;
+  /** list if a flag file supplies this value, customized if flag files supply the flag with another value, unknown if no flag file has it */
+  kind: 'list' | 'customized' | 'unknown';
+  /** Flag files supplying this value for list, or the flag for customized */
+  sources: FlagSource[];
+}
+export type SettingsAnalysis = {
+  /** Every flag of the settings file, classified */
+  flags: ImportedFlag[];
+  /** Inferred selections by flag list key, in profile format - lists that don't match are disabled */
+  lists: Record<string, ProfileListSelection>;
+  /** Flags the inferred selections don't produce, with their current values - keep them as overwrites to lose nothing */
+  unmatched: Record<string, any>;
+  /** Flags the inferred selections would add, although the settings file lacks them */
+  missing: string[];
+}
+export type SettingsImport = SettingsAnalysis & {
+  /** Roblox install */
+  installPath: string;
+  /** Settings file */
+  file: string;
+}
+export type SettingsImporterOptions = {
+  /** Platform - features unavailable on it are not inferred */
+  platform?: Platform;
+  /** Reads a flag file, defaults to parsing it from disk */
+  readFlagFile?: (file: string) => Record<string, any>;
+}
+
+/**
+  * Works out which flag lists & options an existing ClientAppSettings.json was made from.
+  * An option matches when every flag of its files is set to the same value; a list matches when its base files do, or, without base files, when any of its options do.
+  * @example ```ts
+  * const analysis = SettingsImporter.analyze(json5.parse(readFileSync(RFO.settingsFile(installPath), 'utf-8')), rfo.processedFlagList);
+  * analysis.lists.Performance; // => { enabled: true, features: { 'FPS Cap': '240' } }
+  * analysis.unmatched; // => { FFlagDebugSomethingCustom: true }
+  * ```
+  */
+export class SettingsImporter {
+  /**
+    * Classifies every flag of a settings file & infers the selections it was made from.
+    * @param {Record<string, any>} settings Contents of the settings file
+    * @param {ProcessedFlagList[]} processedFlagLists Processed flag lists
+    * @param {SettingsImporterOptions} options Platform & flag file reader
+    * @returns {SettingsAnalysis} Classified flags, inferred selections & what they don't cover
+    */
+  public static analyze(settings: Record<string, any>, processedFlagLists: ProcessedFlagList[], options: SettingsImporterOptions = {}): SettingsAnalysis {
+    const { platform = process.platform as Platform, readFlagFile = (file: string) => json5.parse(readFileSync(file, 'utf8')) } = options;
+    const typedSettings = FlagModel.normalize(settings, 'coerce').flags;
+    const current = (flag: string) => flag in typedSettings ? typedSettings[flag] : settings[flag];
+    const files = new Map<string, Record<string, any>>();
+    const read = (file: string) => {
+      if (!files.has(file)) files.set(file, FlagModel.normalize(readFlagFile(file), 'coerce').flags);
+      return files.get(file)!;
+    };
+    const matches = (fileList: string[]) => fileList.length > 0 && fileList.every((file) => {
+      const flags = Object.entries(read(file));
+      return flags.length > 0 && flags.every(([flag, value]) => flag in settings && this.sameValue(current(flag), value));
+    });
+
+    // Every value any flag file supplies, for classification
+    const supplied = new Map<string, { value: any; source: FlagSource }[]>();
+    const lists = this.lists(processedFlagLists);
+    for (const [key, list] of lists) {
+      for (const source of this.sources(key, list, () => true)) {
+        for (const [flag, value] of Object.entries(read(source.file))) {
+          if (!supplied.has(flag)) supplied.set(flag, []);
+          supplied.get(flag)!.push({ value, source });
+        }
+      }
+    }
+
+    const analysis: SettingsAnalysis = { flags: [], lists: {}, unmatched: {}, missing: [] };
+    const selectedSources: FlagSource[] = [];
+    for (const [key, list] of lists) {
+      const features: Record<string, string | string[]> = {};
+      let optionMatched = false;
+      for (const feature of list.features) {
+        if (!SelectionResolver.isAvailable(feature.constraints, platform)) continue;
+        const matching = Object.keys(feature.options).filter((option) => matches(feature.options[option]));
+        optionMatched = optionMatched || matching.length > 0;
+        features[feature.name] = this.infer(feature, matching);
+      }
+      const enabled = list.base.length > 0 ? matches(list.base) : optionMatched;
+      analysis.lists[key] = { enabled, features };
+      if (enabled)
+        selectedSources.push(...this.sources(key, list, (feature, option) => {
+          const value = features[feature.name];
+          return value !== undefined && (Array.isArray(value) ? value.includes(option) : value === option);
+        }));
+    }
+
+    const expected = FlagMerger.merge(selectedSources.map((source) => ({ source, flags: read(source.file) }))).flags;
+    for (const [flag, value] of Object.entries(settings)) {
+      const origins = supplied.get(flag) ?? [];
+      const same = origins.filter((origin) => this.sameValue(origin.value, current(flag)));
+      analysis.flags.push(same.length > 0
+        ? { flag, value, kind: 'list', sources: same.map((origin) => origin.source) }
+        : { flag, value, kind: origins.length > 0 ? 'customized' : 'unknown', sources: origins.map((origin) => origin.source) });
+      if (!(flag in expected) || !this.sameValue(expected[flag], current(flag))) analysis.unmatched[flag] = value;
+    }
+    analysis.missing = Object.keys(expected).filter((flag) => !(flag in settings));
+    return analysis;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static infer(feature: ProcessedFeature, matching: string[]): string | string[] {
+    if (!feature.multiple) {
+      if (matching.includes(feature.default as string)) return feature.default;
+      return matching[0] ?? feature.default;
+    }
+    return matching.length >= feature.min && matching.length <= feature.max ? matching : [...feature.default];
+  }
+
+  /**
+    * Internal Method
+    */
+  private static sources(key: string, list: ProcessedFlagListItem, selected: (feature: ProcessedFeature, option: string) => boolean): FlagSource[] {
+    const sources: FlagSource[] = list.base.map((file) => ({ list: key, feature: null, option: null, file }));
+    for (const feature of list.features)
+      for (const [option, files] of Object.entries(feature.options))
+        if (selected(feature, option))
+          sources.push(...files.map((file) => ({ list: key, feature: feature.name, option, file })));
+    return sources;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static lists(processedFlagLists: ProcessedFlagList[]): [string, ProcessedFlagListItem][] {
+    return FlagListPreprocessor.entries(processedFlagLists);
+  }
+
+  /**
+    * Internal Method
+    */
+  private static sameValue(a: any, b: any): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+}
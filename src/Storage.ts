@@ -0,0 +1,166 @@
+/**
+  * Where the core reads & writes text files - flag files, profiles.
+  * Keys are /-separated paths, relative to wherever the adapter keeps its files.
+  * Node uses a {@link NodeStorage}; browsers & sandboxed renderers a {@link MemoryStorage} or {@link IndexedDBStorage}.
+  */
+export interface StorageAdapter {
+  /** Reads a file - undefined if it does not exist */
+  read(key: string): Promise<string | undefined>;
+  /** Writes a file, replacing it atomically */
+  write(key: string, text: string): Promise<void>;
+  /** Deletes a file, if it exists */
+  delete(key: string): Promise<void>;
+  /** Lists the names of the files directly in a directory - empty if it does not exist */
+  list(dir: string): Promise<string[]>;
+}
+
+/**
+  * Keeps files in memory.
+  * @example ```ts
+  * const storage = new MemoryStorage().set('profiles/Competitive.json', JSON.stringify(profile));
+  * await storage.list('profiles'); // => ['Competitive.json']
+  * ```
+  */
+export class MemoryStorage implements StorageAdapter {
+  /** Contents by key */
+  public files = new Map<string, string>();
+
+  /**
+    * Sets a file, e.g. to seed flag files fetched elsewhere.
+    * @param {string} key Key
+    * @param {string} text Contents
+    */
+  public set(key: string, text: string): this {
+    this.files.set(StorageKeys.normalize(key), text);
+    return this;
+  }
+
+  public async read(key: string): Promise<string | undefined> {
+    return this.files.get(StorageKeys.normalize(key));
+  }
+
+  public async write(key: string, text: string): Promise<void> {
+    this.files.set(StorageKeys.normalize(key), text);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.files.delete(StorageKeys.normalize(key));
+  }
+
+  public async list(dir: string): Promise<string[]> {
+    return StorageKeys.children([...this.files.keys()], dir);
+  }
+}
+
+/**
+  * Keeps files in an IndexedDB object store, for web UIs.
+  * @example ```ts
+  * const rfo = new RFOCore();
+  * rfo.profiles = new ProfileManager(new IndexedDBStorage('rfo'));
+  * ```
+  */
+export class IndexedDBStorage implements StorageAdapter {
+  /**
+    * Open database
+    * @private @internal
+    */
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+    * @param {string} name Database name
+    * @param {string} store Object store name
+    * @param {IDBFactory} factory IndexedDB implementation - defaults to the global indexedDB
+    */
+  constructor(public readonly name: string = 'rfo', public readonly store: string = 'files', private factory: IDBFactory = globalThis.indexedDB) { }
+
+  public async read(key: string): Promise<string | undefined> {
+    const value = await this.request('readonly', (store) => store.get(StorageKeys.normalize(key)));
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  public async write(key: string, text: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(text, StorageKeys.normalize(key)));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(StorageKeys.normalize(key)));
+  }
+
+  public async list(dir: string): Promise<string[]> {
+    const keys = await this.request('readonly', (store) => store.getAllKeys());
+    return StorageKeys.children(keys.map(String), dir);
+  }
+
+  /**
+    * Internal Method
+    */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (!this.factory) throw new Error('IndexedDB is not available');
+      this.database = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.name, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.store);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  /**
+    * Internal Method
+    */
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.store, mode);
+      const request = run(transaction.objectStore(this.store));
+      // Writes only count once the transaction commits
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
+
+/**
+  * Key helpers shared by the adapters.
+  */
+export class StorageKeys {
+  /**
+    * Normalizes a key - forward slashes, no ./ segments, no leading or trailing slash.
+    * @param {string} key Key or path
+    * @returns {string} Normalized key
+    * @example ```ts
+    * StorageKeys.normalize('./profiles\\Competitive.json'); // => 'profiles/Competitive.json'
+    * ```
+    */
+  public static normalize(key: string): string {
+    return key.replace(/\\/g, '/').split('/').filter((segment) => segment !== '' && segment !== '.').join('/');
+  }
+
+  /**
+    * Joins keys.
+    * @param {string[]} keys Keys
+    * @returns {string} Normalized key
+    */
+  public static join(...keys: string[]): string {
+    return this.normalize(keys.join('/'));
+  }
+
+  /**
+    * Picks the names of the files directly in a directory.
+    * @param {string[]} keys Every key
+    * @param {string} dir Directory
+    * @returns {string[]} File names, sorted
+    */
+  public static children(keys: string[], dir: string): string[] {
+    const prefix = this.normalize(dir);
+    return keys
+      .map((key) => this.normalize(key))
+      .filter((key) => prefix === '' || key.startsWith(`${prefix}/`))
+      .map((key) => prefix === '' ? key : key.slice(prefix.length + 1))
+      .filter((name) => name !== '' && !name.includes('/'))
+      .sort();
+  }
+}
@@ -0,0 +1,135 @@
+import toml from 'toml';
+
+/**
+  * TOML for launcher configs & flag list output: writes documents, reads tables with the toml parser, and replaces single tables of plain key/value pairs.
+  * Undefined values are left out, like JSON.stringify does.
+  * Everything outside the replaced table is kept as written, comments included.
+  * @example ```ts
+  * Toml.stringify({ fflags: { DFIntTaskSchedulerTargetFps: 240 } }); // => '[fflags]\nDFIntTaskSchedulerTargetFps = 240\n'
+  * const config = Toml.replaceTable(readFileSync('config.toml', 'utf-8'), 'studio.fflags', flags);
+  * Toml.readTable(config, 'studio.fflags'); // => flags
+  * ```
+  */
+export class Toml {
+  /**
+    * Serializes a document - nested objects become tables, arrays of objects arrays of tables.
+    * @param {Record<string, any>} document Document
+    * @returns {string} TOML
+    * @throws {Error} For null values, which TOML can't express
+    */
+  public static stringify(document: Record<string, any>): string {
+    return this.stringifyTable(document, []).replace(/^\n+/, '');
+  }
+
+  /**
+    * Serializes a key.
+    * @param {string} key Key
+    * @returns {string} The key, quoted unless it is a bare key
+    */
+  public static key(key: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+  }
+
+  /**
+    * Serializes a value.
+    * @param {any} value String, number, boolean, array or inline table
+    * @returns {string} TOML value
+    */
+  public static value(value: any): string {
+    if (value === null || value === undefined) throw new Error('TOML has no null values');
+    if (typeof value === 'string') return JSON.stringify(value);
+    // The toml parser reads TOML 0.4, which has no inf & nan
+    if (typeof value === 'number' && !Number.isFinite(value)) throw new Error(`TOML has no ${value} values`);
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'boolean') return String(value);
+    if (Array.isArray(value)) return `[${value.map((item) => this.value(item)).join(', ')}]`;
+    return `{ ${Object.entries(value).map(([key, item]) => `${this.key(key)} = ${this.value(item)}`).join(', ')} }`;
+  }
+
+  /**
+    * Reads a table.
+    * @param {string} text TOML document
+    * @param {string} table Dotted table name, e.g. studio.fflags
+    * @returns {Record<string, any> | null} Its values, null if the table does not exist
+    * @throws {Error} If the document is not valid TOML
+    */
+  public static readTable(text: string, table: string): Record<string, any> | null {
+    let value: any = toml.parse(text);
+    for (const key of this.splitKey(table)) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || !Object.prototype.hasOwnProperty.call(value, key)) return null;
+      value = value[key];
+    }
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? { ...value } : null;
+  }
+
+  /**
+    * Replaces a table, or appends it if it does not exist.
+    * @param {string} text TOML document
+    * @param {string} table Dotted table name, e.g. studio.fflags
+    * @param {Record<string, any>} values Plain key/value pairs
+    * @returns {string} The document with the table replaced
+    */
+  public static replaceTable(text: string, table: string, values: Record<string, any>): string {
+    const lines = text.split(/\r?\n/);
+    const section = [`[${table}]`, ...Object.entries(values).map(([key, value]) => `${this.key(key)} = ${this.value(value)}`)];
+    const range = this.findTable(lines, table);
+    if (range) {
+      // Keep the blank lines separating the table from the next one
+      let end = range.end;
+      while (end > range.start + 1 && lines[end - 1].trim() === '') end--;
+      lines.splice(range.start, end - range.start, ...section);
+      return lines.join('\n');
+    }
+    const body = text.replace(/\s+$/, '');
+    return `${body}${body ? '\n\n' : ''}${section.join('\n')}\n`;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static stringifyTable(table: Record<string, any>, path: string[], arrayItem: boolean = false): string {
+    const isTable = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    const isTableArray = (value: any) => Array.isArray(value) && value.length > 0 && value.every(isTable);
+    const entries = Object.entries(table).filter(([, value]) => value !== undefined);
+    const plain = entries.filter(([, value]) => !isTable(value) && !isTableArray(value));
+    const name = path.map((key) => this.key(key)).join('.');
+    let out = '';
+    if (arrayItem) out += `\n[[${name}]]\n`;
+    else if (path.length > 0 && (plain.length > 0 || entries.length === 0)) out += `\n[${name}]\n`;
+    for (const [key, value] of plain) out += `${this.key(key)} = ${this.value(value)}\n`;
+    for (const [key, value] of entries) {
+      if (isTable(value)) out += this.stringifyTable(value, [...path, key]);
+      else if (isTableArray(value))
+        for (const item of value) out += this.stringifyTable(item, [...path, key], true);
+    }
+    return out;
+  }
+
+  /**
+    * Internal Method
+    */
+  private static findTable(lines: string[], table: string): { start: number; end: number } | null {
+    const normalize = (name: string) => JSON.stringify(this.splitKey(name));
+    const wanted = normalize(table);
+    const start = lines.findIndex((line) => {
+      const match = /^\s*\[([^\[\]]+)\]\s*(#.*)?$/.exec(line);
+      return !!match && normalize(match[1]) === wanted;
+    });
+    if (start === -1) return null;
+    let end = start + 1;
+    while (end < lines.length && !/^\s*\[/.test(lines[end])) end++;
+    return { start, end };
+  }
+
+  /**
+    * Internal Method
+    */
+  private static splitKey(name: string): string[] {
+    return name.split('.').map((part) => {
+      const key = part.trim();
+      if (key.startsWith('"')) return JSON.parse(key);
+      if (key.startsWith("'")) return key.slice(1, -1);
+      return key;
+    });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+  * Runs async tasks with a bounded number in flight, starting queued tasks in order as others finish.
+  * Bounds flag files being resolved in {@link FlagListPreprocessor}, and requests in flight in {@link HttpClient}.
+  * @example ```ts
+  * const pool = new WorkerPool(4);
+  * const paths = await Promise.all(files.map((file) => pool.run(() => FlagListPreprocessor.downloadFile(file, baseurl))));
+  * ```
+  */
+export class WorkerPool {
+  /**
+    * Tasks running
+    * @private @internal
+    */
+  private active = 0;
+  /**
+    * Tasks waiting for a worker
+    * @private @internal
+    */
+  private queue: (() => void)[] = [];
+
+  /**
+    * @param {number} size Maximum tasks in flight - 0 for no limit
+    */
+  constructor(public size: number = 8) { }
+
+  /** Tasks running & waiting */
+  public get pending() {
+    return this.active + this.queue.length;
+  }
+
+  /**
+    * Runs a task once a worker is free.
+    * Tasks must not run further tasks on the same pool and wait for them, or a full pool deadlocks.
+    * @param {Function} task Task
+    * @returns {Promise<T>} What the task resolves with
+    */
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+    * Internal Method
+    */
+  private async acquire(): Promise<void> {
+    if (this.size <= 0 || this.active < this.size) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.queue.push(resolve));
+  }
+
+  /**
+    * Internal Method
+    */
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BenchmarkManager } from '../src/BenchmarkManager';
+import { RFO } from '../src/RFO';
+import { MemoryStorage } from '../src/Storage';
+
+test('frame times are read from CSVs by column, and from logs', () => {
+  assert.deepEqual(BenchmarkManager.parseCsv('PresentMon 1.9\nApplication,ms,MsBetweenPresents\nRobloxPlayerBeta.exe,1,16.5\nRobloxPlayerBeta.exe,1,0\nRobloxPlayerBeta.exe,1,17.5'), [16.5, 17.5]);
+  assert.deepEqual(BenchmarkManager.parseCsv('"FPS"\n50\n100'), [20, 10]);
+  assert.deepEqual(BenchmarkManager.parseCsv('10\n20\nn/a'), [10, 20]);
+  assert.deepEqual(BenchmarkManager.parseLog('[FLog::RenderPerf] FrameTime: 16ms\nunrelated\nfps=50\nframe_time = 0 ms'), [16, 20]);
+  assert.deepEqual(BenchmarkManager.parseFrameTimes('10', 'capture.CSV'), { format: 'csv', frameTimes: [10] });
+  assert.deepEqual(BenchmarkManager.parseFrameTimes('fps: 100', 'client.log'), { format: 'log', frameTimes: [10] });
+});
+
+test('stats summarize frame times with nearest-rank percentiles', () => {
+  // 99 frames at 10 ms & one at 50 ms
+  const stats = BenchmarkManager.stats([...Array(99).fill(10), 50]);
+  assert.deepEqual(stats, {
+    frames: 100,
+    duration: 1040,
+    meanFrameTime: 10.4,
+    p50FrameTime: 10,
+    p95FrameTime: 10,
+    p99FrameTime: 10,
+    minFrameTime: 10,
+    maxFrameTime: 50,
+    averageFps: 1000 * 100 / 1040,
+    lowFps: 100,
+  });
+  assert.equal(BenchmarkManager.percentile([1, 2, 3, 4], 100), 4);
+  assert.equal(BenchmarkManager.percentile([1, 2, 3, 4], 0), 1);
+  assert.ok(Number.isNaN(BenchmarkManager.percentile([], 50)));
+  assert.throws(() => BenchmarkManager.stats([]), /No frame times/);
+});
+
+test('compare reports every metric as better or worse, and the flags that differ', () => {
+  const baseline = BenchmarkManager.record('D3D11', [20, 20, 20, 20], { flags: { FFlagDebugGraphicsPreferD3D11: true } });
+  const candidate = BenchmarkManager.record('Vulkan', [10, 10, 10, 20], { flags: { FFlagDebugGraphicsPreferVulkan: true } });
+  const comparison = BenchmarkManager.compare(baseline, candidate);
+  assert.equal(comparison.baseline, 'D3D11');
+  assert.equal(comparison.candidate, 'Vulkan');
+  const byMetric = Object.fromEntries(comparison.metrics.map((metric) => [metric.metric, metric]));
+  assert.deepEqual(byMetric.averageFps, { metric: 'averageFps', baseline: 50, candidate: 80, change: 30, changePercent: 60, better: true });
+  assert.deepEqual(byMetric.meanFrameTime, { metric: 'meanFrameTime', baseline: 20, candidate: 12.5, change: -7.5, changePercent: -37.5, better: true });
+  assert.equal(byMetric.maxFrameTime.better, null);
+  assert.equal(BenchmarkManager.describe(byMetric.averageFps), 'averageFps: 50.00 -> 80.00 (+60.00%, better)');
+  assert.equal(BenchmarkManager.describe(byMetric.maxFrameTime), 'maxFrameTime: 20.00 -> 20.00 (0.00%, same)');
+  assert.equal(BenchmarkManager.describe({ ...byMetric.lowFps, baseline: 0, change: -1, changePercent: null, better: false }), 'lowFps: 0.00 -> 50.00 (-1.00, worse)');
+  assert.deepEqual(comparison.flags, {
+    added: [{ flag: 'FFlagDebugGraphicsPreferVulkan', value: true }],
+    removed: [{ flag: 'FFlagDebugGraphicsPreferD3D11', value: true }],
+    changed: [],
+  });
+});
+
+test('runs are saved by name & checked on load', async () => {
+  const benchmarks = new BenchmarkManager(new MemoryStorage());
+  const run = BenchmarkManager.record('Vulkan 1', [10, 20]);
+  await benchmarks.save(run);
+  assert.deepEqual(await benchmarks.list(), ['Vulkan 1']);
+  assert.deepEqual(await benchmarks.load('Vulkan 1'), run);
+  await assert.rejects(benchmarks.load('D3D11'), /Benchmark run does not exist: D3D11/);
+  await assert.rejects(benchmarks.save({ ...run, name: '../escape' }), /Invalid benchmark run name/);
+  assert.throws(() => BenchmarkManager.parse(JSON.stringify({ ...run, version: 2 })), /Unsupported benchmark run version: 2/);
+  await benchmarks.delete('Vulkan 1');
+  assert.deepEqual(await benchmarks.list(), []);
+});
+
+test('recordBenchmark reads captures through storage & compareBenchmarks compares saved runs', async () => {
+  const storage = new MemoryStorage()
+    .set('captures/d3d11/frames.csv', 'MsBetweenPresents\n20\n20')
+    .set('captures/vulkan/frames.csv', 'MsBetweenPresents\n10\n10')
+    .set('captures/vulkan/client.log', 'FrameTime: 10ms')
+    .set('captures/vulkan/notes.md', 'fps: 1');
+  const rfo = new RFO(storage);
+  rfo.benchmarks = new BenchmarkManager(new MemoryStorage());
+  await rfo.recordBenchmark('D3D11', 'captures/d3d11', { flags: { FFlagDebugGraphicsPreferD3D11: true } });
+  const vulkan = await rfo.recordBenchmark('Vulkan', 'captures/vulkan', { flags: { FFlagDebugGraphicsPreferVulkan: true } });
+  assert.deepEqual(vulkan.sources.sort((a, b) => a.file.localeCompare(b.file)), [
+    { file: 'client.log', format: 'log', frames: 1 },
+    { file: 'frames.csv', format: 'csv', frames: 2 },
+  ]);
+  const { metrics } = await rfo.compareBenchmarks('D3D11', 'Vulkan');
+  assert.equal(metrics.find((metric) => metric.metric === 'averageFps').changePercent, 100);
+  await assert.rejects(rfo.recordBenchmark('Empty', 'captures/none', { flags: {} }), /No frame times found in captures\/none/);
+  await assert.rejects(rfo.recordBenchmark('Nothing', 'captures/d3d11'), /No flags to record the benchmark against/);
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CLI } from '../src/CLI';
+import type { ProcessedFlagList } from '../src/FlagListPreprocessor';
+import { ProfileManager } from '../src/ProfileManager';
+import { MemoryStorage } from '../src/Storage';
+
+function processedFlagLists(): ProcessedFlagList[] {
+  return [{
+    Performance: {
+      name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: [], constraints: {},
+      features: [
+        { name: 'FPS Cap', question: null, options: { '60': [], '240': [] }, default: '60', value: '60', multiple: false, min: null, max: null, constraints: {}, optionConstraints: {} },
+        { name: 'Effects', question: null, options: { Shadows: [], Bloom: [] }, default: ['Shadows'], value: ['Shadows'], multiple: true, min: 0, max: 2, constraints: {}, optionConstraints: {} },
+      ],
+    },
+    Graphics: { name: 'Graphics', id: 'default:Graphics', baseurl: '', default: false, enabled: false, base: [], constraints: {}, features: [] },
+  }];
+}
+
+/** A CLI whose flag lists & profiles live in memory, with its output captured */
+function memoryCLI(t: { mock: { method: (object: any, method: string, implementation?: (...args: any[]) => any) => any } }) {
+  const cli = new CLI();
+  cli.rfo.profiles = new ProfileManager(new MemoryStorage());
+  t.mock.method(cli.rfo, 'preprocessFlags', async function (this: typeof cli.rfo) {
+    this.processedFlagList = processedFlagLists();
+    return this;
+  });
+  const log = t.mock.method(console, 'log', () => { });
+  const error = t.mock.method(console, 'error', () => { });
+  t.mock.method(console, 'warn', () => { });
+  const output = (mock: any) => mock.mock.calls.map((call: any) => call.arguments.join(' ')).join('\n');
+  return { cli, log: () => output(log), error: () => output(error) };
+}
+
+test('usage is shown without a command & for --help', async (t) => {
+  const { cli, log } = memoryCLI(t);
+  assert.equal(await cli.run([]), 1);
+  assert.equal(await cli.run(['apply', '--help']), 0);
+  assert.equal(log(), `${CLI.usage}\n${CLI.usage}`);
+});
+
+test('unknown commands & options are rejected', async (t) => {
+  const { cli, error } = memoryCLI(t);
+  assert.equal(await cli.run(['frobnicate']), 1);
+  assert.match(error(), /^Unknown command: frobnicate/);
+  await assert.rejects(cli.run(['apply', '--frobnicate']), { code: 'ERR_PARSE_ARGS_UNKNOWN_OPTION' });
+});
+
+test('global options set the log level & offline mode', async (t) => {
+  const { cli, error } = memoryCLI(t);
+  assert.equal(await cli.run(['lint', '-q', '--offline']), 1);
+  assert.equal(error(), 'lint: no files given');
+  assert.equal(cli.rfo.events.level, 'error');
+  assert.deepEqual(cli.rfo.preprocessor.configOverrides.lock, { offline: true });
+  assert.equal(cli.options.profile, 'default');
+
+  const verbose = memoryCLI(t).cli;
+  await verbose.run(['lint', '-v']);
+  assert.equal(verbose.rfo.events.level, 'debug');
+  assert.equal(verbose.rfo.preprocessor.configOverrides.lock, undefined);
+});
+
+test('select applies repeated --enable, --disable & --set without prompting', async (t) => {
+  const { cli, log } = memoryCLI(t);
+  assert.equal(await cli.run(['select', '--profile', 'Competitive', '--enable', 'Graphics', '--disable', 'Performance', '--set', 'Performance/FPS Cap=240', '--set', 'Performance/Effects=Shadows,Bloom']), 0);
+  assert.match(log(), /Saved selections to profile Competitive/);
+  const { lists } = await cli.rfo.profiles.load('Competitive');
+  assert.deepEqual(lists, {
+    Performance: { enabled: false, features: { 'FPS Cap': '240', Effects: ['Shadows', 'Bloom'] } },
+    Graphics: { enabled: true, features: {} },
+  });
+});
+
+test('--set with no options clears a multiple-choice feature', async (t) => {
+  const { cli } = memoryCLI(t);
+  assert.equal(await cli.run(['select', '--set', 'Performance/Effects=']), 0);
+  assert.deepEqual((await cli.rfo.profiles.load('default')).lists.Performance.features.Effects, []);
+});
+
+test('malformed --set & unknown lists are errors', async (t) => {
+  await assert.rejects(memoryCLI(t).cli.run(['select', '--set', 'Performance=240']), /Invalid --set Performance=240, expected list\/feature=option\[,option\]/);
+  await assert.rejects(memoryCLI(t).cli.run(['select', '--set', 'Missing/FPS Cap=240']), /Unknown flag list Missing/);
+});
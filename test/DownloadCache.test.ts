@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DownloadCache, FsCacheStore, MemoryCacheStore } from '../src/DownloadCache';
+import { FlagListPreprocessor } from '../src/FlagListPreprocessor';
+import { HttpClient, MemoryTransport } from '../src/HttpClient';
+
+test('rejects digests that are not hex, without touching files outside the cache', async (t) => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-cache-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const victim = path.join(dir, 'victim.txt');
+  writeFileSync(victim, 'keep me');
+  const cache = new DownloadCache(new FsCacheStore(path.join(dir, '_cache', 'nested')));
+  for (const digest of ['../../victim.txt', '../victim.txt', 'abc/def', ''])
+    await assert.rejects(cache.read(digest, 'SHA512'), /Invalid cache key/);
+  await assert.rejects(cache.delete('../../victim.txt'), /Invalid cache key/);
+  await assert.rejects(cache.put(Buffer.from('x'), { source: '', algorithm: 'SHA512', digest: '../../victim.txt' }), /Invalid cache key/);
+  assert.throws(() => cache.store.locate('../../victim.txt'), /Invalid cache key/);
+  assert.ok(existsSync(victim));
+});
+
+test('downloadFile rejects an invalid digest before using the cache', async () => {
+  const store = new MemoryCacheStore();
+  const http = new HttpClient(new MemoryTransport().set('https://example.com/flags.json', '{}'));
+  const file = { f: 'https://example.com/flags.json', h: { algorithm: 'SHA512', digest: '../../victim.txt' } };
+  await assert.rejects(FlagListPreprocessor.downloadFile(file, '', { cache: new DownloadCache(store), http }), /invalid digest/);
+  assert.equal(store.entries.size, 0);
+});
+
+test('hands out entries only while they match their digest', async () => {
+  const store = new MemoryCacheStore();
+  const cache = new DownloadCache(store);
+  const data = Buffer.from('{"FFlagTest":true}');
+  const digest = DownloadCache.digest('SHA512', data);
+  assert.equal(await cache.put(data, { source: 'https://example.com/flags.json', algorithm: 'SHA512' }), `memory://${digest}`);
+  assert.equal(await cache.get(digest, 'SHA512'), `memory://${digest}`);
+  store.entries.set(digest, Buffer.from('tampered'));
+  assert.equal(await cache.get(digest, 'SHA512'), undefined);
+  assert.equal(store.entries.has(digest), false);
+  assert.deepEqual(await cache.entries(), {});
+});
+
+test('evicts entries past maxAge, then the least recently used past maxSize', async () => {
+  const store = new MemoryCacheStore();
+  const writer = new DownloadCache(store);
+  const put = async (text: string) => writer.put(Buffer.from(text), { source: text, algorithm: 'SHA512' }).then(() => DownloadCache.digest('SHA512', Buffer.from(text)));
+  const [stale, old, recent] = [await put('stale'), await put('old entry'), await put('recent entry')];
+  const now = Date.now();
+  store.index[stale].lastUsed = now - 10000;
+  store.index[old].lastUsed = now - 2000;
+  store.index[recent].lastUsed = now - 1000;
+  const cache = new DownloadCache(store);
+  assert.deepEqual(await cache.evict({ maxAge: 5000, now }), [stale]);
+  assert.deepEqual(await cache.evict({ maxSize: 'recent entry'.length, now }), [old]);
+  assert.deepEqual([...store.entries.keys()], [recent]);
+  assert.deepEqual(await cache.evict({ maxSize: 1, keepSince: now - 1500, now }), []);
+  assert.deepEqual(Object.keys(store.index), [recent]);
+});
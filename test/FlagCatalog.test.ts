@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlagCatalog } from '../src/FlagCatalog';
+import { RFO } from '../src/RFO';
+
+const snapshot = `
+[C++] FFlagDebugGraphicsPreferVulkan
+DFIntTaskSchedulerTargetFps=60
+FStringGraphicsApi: "D3D11" # engine default
+DFFlagEnableLightingV2 = true
+`;
+
+test('snapshots are parsed from text dumps, objects & arrays', () => {
+  const catalog = FlagCatalog.parse(snapshot);
+  assert.equal(catalog.size, 4);
+  assert.deepEqual([...catalog.entries.values()], [
+    { flag: 'FFlagDebugGraphicsPreferVulkan', type: 'boolean' },
+    { flag: 'DFIntTaskSchedulerTargetFps', type: 'integer', default: 60 },
+    { flag: 'FStringGraphicsApi', type: 'string', default: 'D3D11' },
+    { flag: 'DFFlagEnableLightingV2', type: 'boolean', default: true },
+  ]);
+  const fromObject = FlagCatalog.parse(JSON.stringify({ DFIntTaskSchedulerTargetFps: 60, CustomSetting: { type: 'bool', default: 'false' } }), 'snapshot.json');
+  assert.deepEqual(fromObject.entries.get('CustomSetting'), { flag: 'CustomSetting', type: 'boolean', default: false });
+  const fromArray = FlagCatalog.parse(JSON.stringify([{ name: 'DFIntTaskSchedulerTargetFps', default: '60' }, { type: 'int' }]), 'snapshot.json');
+  assert.deepEqual([...fromArray.entries.values()], [{ flag: 'DFIntTaskSchedulerTargetFps', type: 'integer', default: 60 }]);
+  assert.throws(() => FlagCatalog.parse('"flags"', 'snapshot.json'), /Invalid flag snapshot snapshot\.json/);
+});
+
+test('check finds unknown, mistyped & default flags', () => {
+  const catalog = FlagCatalog.parse(snapshot);
+  const issues = catalog.check({
+    FFlagDebugGraphicsPreferVulkan: 'True',
+    DFIntTaskSchedulerTargetFps: 'sixty',
+    FStringGraphicsApi: 'D3D11',
+    DFFlagEnableLightingV2: false,
+    FFlagNotAFlag: true,
+  });
+  assert.deepEqual(issues.map((issue) => [issue.flag, issue.kind, issue.message]), [
+    ['DFIntTaskSchedulerTargetFps', 'type', 'DFIntTaskSchedulerTargetFps takes an integer, not "sixty"'],
+    ['FStringGraphicsApi', 'default', 'FStringGraphicsApi is set to its default "D3D11"'],
+    ['FFlagNotAFlag', 'unknown', 'FFlagNotAFlag is not a known flag'],
+  ]);
+  assert.equal(issues[0].expected, 'integer');
+  assert.equal(issues[1].default, 'D3D11');
+  assert.deepEqual(issues[2].suggestions, []);
+});
+
+test('unknown flags suggest what they were likely renamed to', () => {
+  const catalog = FlagCatalog.parse(snapshot);
+  const [prefixed, misspelled] = catalog.check({ FFlagEnableLightingV2: true, FFlagDebugGraphicsPreferVulkn: true });
+  assert.deepEqual(prefixed.suggestions, ['DFFlagEnableLightingV2']);
+  assert.equal(prefixed.message, 'FFlagEnableLightingV2 is not a known flag, did you mean DFFlagEnableLightingV2?');
+  assert.deepEqual(misspelled.suggestions, ['FFlagDebugGraphicsPreferVulkan']);
+  assert.deepEqual(catalog.suggest('FIntSomethingElseEntirely'), []);
+});
+
+test('every flag file of every list is checked with its source', () => {
+  const catalog = FlagCatalog.parse(snapshot);
+  const files: Record<string, Record<string, any>> = {
+    'base.json': { DFIntTaskSchedulerTargetFps: 60 },
+    'vulkan.json': { FFlagDebugGraphicsPreferVulkn: true },
+  };
+  const issues = catalog.checkLists([{
+    Performance: {
+      name: 'Performance', id: 'default:Performance', baseurl: '', default: false, enabled: false, base: ['base.json'], constraints: {},
+      features: [{ name: 'Renderer', question: null, options: { Vulkan: ['vulkan.json'] }, default: 'Vulkan', value: 'Vulkan', multiple: false, min: null, max: null, constraints: {}, optionConstraints: {} }],
+    },
+  }], (file) => files[file]);
+  assert.deepEqual(issues.map((issue) => FlagCatalog.describe(issue)), [
+    'default: DFIntTaskSchedulerTargetFps is set to its default 60 - Performance (base.json)',
+    'unknown: FFlagDebugGraphicsPreferVulkn is not a known flag, did you mean FFlagDebugGraphicsPreferVulkan? - Performance > Renderer > Vulkan (vulkan.json)',
+  ]);
+});
+
+test('auditFlags checks merged flags with the source that won, and every list', () => {
+  const rfo = new RFO();
+  rfo.processedFlagList = [{
+    Performance: { name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: ['base.json'], features: [], constraints: {} },
+  }];
+  rfo.flagFiles.set('base.json', { DFIntTaskSchedulerTargetFps: 60 });
+  rfo.flagOverwrites = { FFlagNotAFlag: true };
+  const { merged, lists } = rfo.auditFlags(FlagCatalog.parse(snapshot));
+  assert.deepEqual(merged.map((issue) => [issue.flag, issue.kind, issue.source]), [
+    ['DFIntTaskSchedulerTargetFps', 'default', { list: 'Performance', feature: null, option: null, file: 'base.json' }],
+    ['FFlagNotAFlag', 'unknown', { list: null, feature: null, option: null, file: 'overwrites' }],
+  ]);
+  assert.deepEqual(lists.map((issue) => issue.flag), ['DFIntTaskSchedulerTargetFps']);
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DownloadCache } from '../src/DownloadCache';
+import { FlagListBuilder } from '../src/FlagListBuilder';
+import { FlagListValidator } from '../src/FlagListValidator';
+import { HttpClient, MemoryTransport } from '../src/HttpClient';
+
+const baseurl = 'https://example.com/flags/';
+const files: Record<string, string> = {
+  'base.json': JSON.stringify({ FFlagBase: true }),
+  'fps/60.json': JSON.stringify({ DFIntTaskSchedulerTargetFps: 60 }),
+  'fps/240.json5': '{ DFIntTaskSchedulerTargetFps: 240 }',
+  'effects/shadows.json': JSON.stringify({ FFlagShadows: true }),
+  'effects/bloom.json': JSON.stringify({ FFlagBloom: true }),
+};
+
+/** A source directory with the files above & a manifest using them */
+function sourceDir(t: { after: (fn: () => void) => void }, lists: Record<string, any> = {
+  Performance: {
+    name: 'Performance', default: true, base: 'base.json',
+    features: [
+      { name: 'FPS Cap', question: 'FPS Cap?', options: { '60': 'fps/60.json', '240': ['fps/240.json5'] }, default: '60', multiple: false },
+      { name: 'Effects', question: 'Effects?', options: { All: 'effects' }, default: [], multiple: true, min: 0, max: 1 },
+    ],
+  },
+}) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-build-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  for (const [file, text] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    writeFileSync(path.join(dir, file), text);
+  }
+  writeFileSync(path.join(dir, 'manifest.json5'), JSON.stringify({ baseurl, lists }));
+  return dir;
+}
+
+const hashed = (file: string) => ({ f: file, h: { algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(files[file])) } });
+
+test('build hashes every file & expands directories', async (t) => {
+  const { flagList, issues, files: built } = await FlagListBuilder.build(sourceDir(t));
+  assert.deepEqual(issues, []);
+  assert.deepEqual(built, ['base.json', 'fps/60.json', 'fps/240.json5', 'effects/bloom.json', 'effects/shadows.json']);
+  const performance = flagList.Performance;
+  assert.equal(performance.baseurl, baseurl);
+  assert.deepEqual(performance.base, [hashed('base.json')]);
+  assert.deepEqual(performance.features[0].options, { '60': [hashed('fps/60.json')], '240': [hashed('fps/240.json5')] });
+  assert.deepEqual(performance.features[1].options, { All: [hashed('effects/bloom.json'), hashed('effects/shadows.json')] });
+});
+
+test('build reports missing & unparseable files by path', async (t) => {
+  const dir = sourceDir(t, {
+    Broken: { name: 'Broken', default: false, base: ['missing.json', 'bad.json'], features: [] },
+  });
+  writeFileSync(path.join(dir, 'bad.json'), '[1, 2]');
+  const { issues } = await FlagListBuilder.build(dir);
+  assert.deepEqual(issues, [
+    { path: 'lists["Broken"].base', message: 'missing.json does not exist', severity: 'error' },
+    { path: 'lists["Broken"].base', message: 'bad.json is not a flag object', severity: 'error' },
+  ]);
+  await assert.rejects(FlagListBuilder.readManifest(path.join(dir, 'fps')), /No manifest in .*, expected one of manifest\.json5, manifest\.json, manifest\.toml/);
+});
+
+test('built lists round-trip through every format', async (t) => {
+  const { flagList } = await FlagListBuilder.build(sourceDir(t));
+  for (const format of ['json5', 'json', 'toml'] as const)
+    assert.deepEqual(JSON.parse(JSON.stringify(FlagListValidator.parse(FlagListBuilder.stringify(flagList, format), `flaglists.${format}`))), flagList);
+});
+
+test('verify checks every file against its digest, from a directory', async (t) => {
+  const dir = sourceDir(t);
+  const { flagList } = await FlagListBuilder.build(dir);
+  assert.deepEqual(await FlagListBuilder.verify(flagList, { dir }), []);
+  writeFileSync(path.join(dir, 'fps', '60.json'), JSON.stringify({ DFIntTaskSchedulerTargetFps: 30 }));
+  rmSync(path.join(dir, 'effects', 'bloom.json'));
+  // Files are checked side by side, so issues come in no particular order
+  const issues = await FlagListBuilder.verify(flagList, { dir });
+  assert.deepEqual(issues.sort((a, b) => a.path.localeCompare(b.path)), [
+    { path: 'lists["Performance"].features[0].options["60"][0]', message: `${path.join(dir, 'fps/60.json')} does not match its SHA512 digest`, severity: 'error' },
+    { path: 'lists["Performance"].features[1].options["All"][0]', message: `${path.join(dir, 'effects/bloom.json')} does not exist`, severity: 'error' },
+  ]);
+});
+
+test('verify downloads files from their baseurl', async (t) => {
+  const { flagList } = await FlagListBuilder.build(sourceDir(t));
+  const transport = new MemoryTransport();
+  for (const [file, text] of Object.entries(files)) transport.set(`${baseurl}${file}`, text);
+  transport.set(`${baseurl}base.json`, 'not json');
+  const issues = await FlagListBuilder.verify(flagList, { http: new HttpClient(transport) });
+  assert.deepEqual(issues.map((issue) => issue.path), ['lists["Performance"].base[0]', 'lists["Performance"].base[0]']);
+  assert.match(issues[0].message, /base\.json does not match its SHA512 digest/);
+  assert.match(issues[1].message, /base\.json is not valid JSON/);
+  assert.equal(transport.requests.length, Object.keys(files).length);
+
+  flagList.Performance.baseurl = 'file:///srv/flags/';
+  const local = await FlagListBuilder.verify(flagList, { http: new HttpClient(transport) });
+  assert.equal(local.length, Object.keys(files).length);
+  assert.ok(local.every((issue) => /could not be fetched: local sources need allowLocal/.test(issue.message)));
+});
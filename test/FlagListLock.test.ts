@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DownloadCache, MemoryCacheStore } from '../src/DownloadCache';
+import { FlagListLock, Lockfile } from '../src/FlagListLock';
+import { FlagListPreprocessor } from '../src/FlagListPreprocessor';
+import { HttpClient, MemoryTransport } from '../src/HttpClient';
+
+const listUrl = 'https://example.com/flaglists.json5';
+const fileUrl = 'https://example.com/flags/base.json';
+const flagFile = JSON.stringify({ DFIntTaskSchedulerTargetFps: 240 });
+
+/** A list with one hashed base file */
+function flagList(fileText: string = flagFile) {
+  return JSON.stringify({
+    Performance: {
+      name: 'Performance', default: true, baseurl: '', features: [],
+      base: [{ f: fileUrl, h: { algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(fileText)) } }],
+    },
+  });
+}
+
+function lockDir(t: { after: (fn: () => void) => void }) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-lock-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/** A preprocessor serving the list above from memory, locking to a file in dir */
+function preprocessor(dir: string, transport: MemoryTransport, offline = false) {
+  const preprocessor = new FlagListPreprocessor();
+  preprocessor.configOverrides = {
+    lock: { file: path.join(dir, 'rfo-lock.json'), offline },
+    snapshot: { file: '' },
+    trust: { policy: 'ignore' },
+    hashChecks: { flags: true, update: false },
+    urls: { defaultFlagList: { name: 'Test', url: listUrl } },
+  };
+  preprocessor.config = preprocessor.loadConfig();
+  preprocessor.cache = new DownloadCache(new MemoryCacheStore());
+  preprocessor.http = new HttpClient(transport);
+  return preprocessor;
+}
+
+test('diff reports added, removed & changed lists and files', () => {
+  const file = (url: string, digest: string) => ({ url, algorithm: 'SHA512', digest });
+  const before: Lockfile = { version: 1, lists: [
+    { name: 'A', url: 'https://a', digest: 'aa', files: [file('https://a/1', '01'), file('https://a/2', '02')] },
+    { name: 'B', url: 'https://b', digest: 'bb', files: [] },
+  ] };
+  const after: Lockfile = { version: 1, lists: [
+    { name: 'A', url: 'https://a', digest: 'ab', files: [file('https://a/1', '01'), file('https://a/2', '03')] },
+    { name: 'C', url: 'https://c', digest: 'cc', files: [] },
+  ] };
+  assert.deepEqual(FlagListLock.diff(before, after), {
+    added: ['https://c'],
+    removed: ['https://b'],
+    changed: [{ url: 'https://a', from: 'aa', to: 'ab' }],
+    addedFiles: [file('https://a/2', '03')],
+    removedFiles: [file('https://a/2', '02')],
+  });
+  assert.deepEqual(FlagListLock.diff(null, before).added, ['https://a', 'https://b']);
+});
+
+test('lockfiles round-trip, and other versions are rejected', async (t) => {
+  const dir = lockDir(t);
+  const lock = new FlagListLock(path.join(dir, 'rfo-lock.json'));
+  assert.equal(await lock.read(), null);
+  const lockfile: Lockfile = { version: 1, lists: [{ name: 'A', url: 'https://a', digest: 'aa', files: [] }] };
+  await lock.write(lockfile);
+  assert.deepEqual(await lock.read(), lockfile);
+  writeFileSync(lock.file, JSON.stringify({ ...lockfile, version: 2 }));
+  await assert.rejects(lock.read(), /Unsupported lockfile version: 2/);
+});
+
+test('processing locks every list & file, and offline mode resolves from the lock without the network', async (t) => {
+  const dir = lockDir(t);
+  const transport = new MemoryTransport().set(listUrl, flagList()).set(fileUrl, flagFile);
+  const online = preprocessor(dir, transport);
+  const processed = await online.process();
+  const lockfile = await online.lock.read();
+  assert.deepEqual(lockfile.lists.map((list) => ({ url: list.url, digest: list.digest, files: list.files })), [{
+    url: listUrl,
+    digest: DownloadCache.digest('SHA512', Buffer.from(flagList())),
+    files: [{ url: fileUrl, algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(flagFile)) }],
+  }]);
+
+  const offline = preprocessor(dir, new MemoryTransport(), true);
+  offline.cache = online.cache;
+  assert.deepEqual(await offline.process(), processed);
+  assert.deepEqual(await offline.lock.read(), lockfile);
+});
+
+test('offline mode needs a lockfile & cached files', async (t) => {
+  const dir = lockDir(t);
+  await assert.rejects(preprocessor(dir, new MemoryTransport(), true).process(), /Offline mode requires a lockfile/);
+  await preprocessor(dir, new MemoryTransport().set(listUrl, flagList()).set(fileUrl, flagFile)).process();
+  // A fresh cache holds nothing the lockfile points to
+  await assert.rejects(preprocessor(dir, new MemoryTransport(), true).process(), /Flag list Test from .* is not cached and cannot be fetched offline/);
+});
+
+test('update reports what changed in the lockfile', async (t) => {
+  const dir = lockDir(t);
+  const transport = new MemoryTransport().set(listUrl, flagList()).set(fileUrl, flagFile);
+  const instance = preprocessor(dir, transport);
+  const { changes: first } = await instance.update();
+  assert.deepEqual(first.added, [listUrl]);
+  assert.equal(first.addedFiles.length, 1);
+
+  const changedFile = JSON.stringify({ DFIntTaskSchedulerTargetFps: 144 });
+  transport.set(listUrl, flagList(changedFile)).set(fileUrl, changedFile);
+  const { changes } = await instance.update();
+  assert.deepEqual(changes.changed.map((change) => change.url), [listUrl]);
+  assert.deepEqual(changes.addedFiles.map((file) => file.digest), [DownloadCache.digest('SHA512', Buffer.from(changedFile))]);
+  assert.deepEqual(changes.removedFiles.map((file) => file.digest), [DownloadCache.digest('SHA512', Buffer.from(flagFile))]);
+});
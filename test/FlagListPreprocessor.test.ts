@@ -0,0 +1,174 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { DownloadCache, FsCacheStore, MemoryCacheStore } from '../src/DownloadCache';
+import { FlagListComposer } from '../src/FlagListComposer';
+import { FlagListPreprocessor } from '../src/FlagListPreprocessor';
+import { HttpClient, MemoryTransport } from '../src/HttpClient';
+import { MemoryStorage } from '../src/Storage';
+
+/** A preprocessor that never touches the disk or network */
+function preprocessor(transport: MemoryTransport, configOverrides: Record<string, any> = {}) {
+  const preprocessor = new FlagListPreprocessor();
+  preprocessor.configOverrides = configOverrides;
+  preprocessor.config = preprocessor.loadConfig();
+  preprocessor.cache = new DownloadCache(new MemoryCacheStore());
+  preprocessor.http = new HttpClient(transport);
+  return preprocessor;
+}
+
+test('registries cannot relax the signature policy of their lists', async () => {
+  const transport = new MemoryTransport().set('https://registry.example.com/index.json5', JSON.stringify({
+    lists: [{ name: 'Sneaky', url: 'sneaky.json5', signature: 'ignore', signatureUrl: 'https://evil.example.com/sig' }],
+  }));
+  const [list] = await preprocessor(transport, { trust: { policy: 'require' } }).fetchRegistry({ url: 'https://registry.example.com/index.json5' });
+  assert.equal(list.url, 'https://registry.example.com/sneaky.json5');
+  assert.equal(list.signature, undefined);
+  assert.equal(list.signatureUrl, undefined);
+});
+
+test('includes cannot relax the signature policy of the lists they pull in', () => {
+  const [include] = FlagListComposer.includes({ $include: [{ url: 'other.json5', signature: 'ignore' }] }, 'https://example.com/flaglists.json5');
+  assert.equal(include.url, 'https://example.com/other.json5');
+  assert.equal(include.signature, undefined);
+});
+
+const listUrl = 'https://example.com/flaglists.json5';
+const fileUrl = 'https://example.com/flags/base.json';
+const flagFile = JSON.stringify({ DFIntTaskSchedulerTargetFps: 240 });
+
+/** A list with one hashed base file */
+function flagList(fileText: string = flagFile, enabled: boolean = true) {
+  return JSON.stringify({
+    Performance: {
+      name: 'Performance', default: enabled, baseurl: '', features: [],
+      base: [{ f: fileUrl, h: { algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(fileText)) } }],
+    },
+  });
+}
+
+/** A preprocessor whose lockfile lives in a temporary directory, serving the list above */
+function listPreprocessor(t: { after: (fn: () => void) => void }, configOverrides: Record<string, any> = {}) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-preprocess-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const transport = new MemoryTransport().set(listUrl, flagList()).set(fileUrl, flagFile);
+  const instance = preprocessor(transport, {
+    lock: { file: path.join(dir, 'rfo-lock.json') },
+    snapshot: { file: '' },
+    trust: { policy: 'ignore' },
+    urls: { defaultFlagList: { name: 'Test', url: listUrl } },
+    ...configOverrides,
+  });
+  return { dir, transport, preprocessor: instance };
+}
+
+test('hashChecks.flags trusts cached files by digest', async (t) => {
+  const { transport, preprocessor } = listPreprocessor(t, { hashChecks: { flags: true, update: false } });
+  await preprocessor.process();
+  await preprocessor.process();
+  assert.equal(transport.requests.filter((url) => url === fileUrl).length, 1);
+});
+
+test('hashChecks.flags off re-downloads cached files', async (t) => {
+  const { transport, preprocessor } = listPreprocessor(t, { hashChecks: { flags: false, update: false } });
+  const hits: string[] = [];
+  preprocessor.events.on('cacheHit', (event) => hits.push(event.url));
+  await preprocessor.process();
+  await preprocessor.process();
+  assert.equal(transport.requests.filter((url) => url === fileUrl).length, 2);
+  assert.deepEqual(hits, []);
+});
+
+test('hashChecks.update resolves unchanged lists from the lockfile', async (t) => {
+  const { transport, preprocessor } = listPreprocessor(t, { hashChecks: { flags: true, update: true } });
+  await preprocessor.process();
+  assert.deepEqual(preprocessor.unchanged, []);
+  await preprocessor.process();
+  assert.deepEqual(preprocessor.unchanged, [listUrl]);
+  transport.set(listUrl, flagList(flagFile, false));
+  const [processed] = await preprocessor.process();
+  assert.deepEqual(preprocessor.unchanged, []);
+  assert.equal(processed.Performance.default, false);
+});
+
+test('hashChecks.update off processes every list again', async (t) => {
+  const { preprocessor } = listPreprocessor(t, { hashChecks: { flags: true, update: false } });
+  await preprocessor.process();
+  await preprocessor.process();
+  assert.deepEqual(preprocessor.unchanged, []);
+});
+
+test('local sources are only allowed in dev mode', async (t) => {
+  const { dir } = listPreprocessor(t);
+  const file = path.join(dir, 'flaglists.json5');
+  writeFileSync(file, flagList());
+  const local = { urls: { defaultFlagList: { name: 'Local', url: pathToFileURL(file).href } } };
+  await assert.rejects(listPreprocessor(t, { ...local, dev: false }).preprocessor.process(), /only allowed in dev mode/);
+  const [processed] = await listPreprocessor(t, { ...local, dev: true }).preprocessor.process();
+  assert.deepEqual(Object.keys(processed), ['Performance']);
+});
+
+test('dev mode logs diagnostics', async (t) => {
+  const messages = async (dev: boolean) => {
+    const { preprocessor } = listPreprocessor(t, { dev });
+    const debug: string[] = [];
+    preprocessor.events.on('log', (entry) => entry.level === 'debug' && debug.push(entry.message));
+    await preprocessor.process();
+    return debug;
+  };
+  assert.deepEqual(await messages(false), []);
+  assert.ok((await messages(true)).some((message) => message.startsWith('Processed 1 flag lists')));
+});
+
+test('lists are processed into & reused from a cache on disk', async (t) => {
+  const { dir, transport, preprocessor } = listPreprocessor(t);
+  const cacheDir = path.join(dir, '_cache');
+  preprocessor.configOverrides = { ...preprocessor.configOverrides, cache: { dir: cacheDir }, snapshot: { file: path.join(dir, 'rfo-snapshot.json') } };
+  preprocessor.cache = new DownloadCache(new FsCacheStore(cacheDir));
+  const [processed] = await preprocessor.process();
+  const [basePath] = processed.Performance.base;
+  assert.equal(path.dirname(basePath), cacheDir);
+  assert.equal(readFileSync(basePath, 'utf-8'), flagFile);
+  assert.deepEqual(preprocessor.reused, []);
+  const [reprocessed] = await preprocessor.process();
+  assert.deepEqual(preprocessor.reused, [listUrl]);
+  assert.deepEqual(reprocessed.Performance.base, [basePath]);
+  assert.equal(transport.requests.filter((url) => url === fileUrl).length, 1);
+  assert.ok(existsSync(path.join(cacheDir, 'index.json')));
+});
+
+test('snapshot reuse re-verifies cached files', async (t) => {
+  const { dir, transport, preprocessor } = listPreprocessor(t);
+  const cacheDir = path.join(dir, '_cache');
+  preprocessor.configOverrides = { ...preprocessor.configOverrides, cache: { dir: cacheDir }, snapshot: { file: path.join(dir, 'rfo-snapshot.json') } };
+  preprocessor.cache = new DownloadCache(new FsCacheStore(cacheDir));
+  const [processed] = await preprocessor.process();
+  const [basePath] = processed.Performance.base;
+  writeFileSync(basePath, JSON.stringify({ DFIntTaskSchedulerTargetFps: 9999 }));
+  await preprocessor.process();
+  assert.deepEqual(preprocessor.reused, []);
+  assert.equal(readFileSync(basePath, 'utf-8'), flagFile);
+  rmSync(basePath);
+  await preprocessor.process();
+  assert.deepEqual(preprocessor.reused, []);
+  assert.equal(readFileSync(basePath, 'utf-8'), flagFile);
+  assert.equal(transport.requests.filter((url) => url === fileUrl).length, 3);
+});
+
+test('the config & local lists are read through storage', async (t) => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-storage-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const storage = new MemoryStorage()
+    .set('config.json5', JSON.stringify({ lock: { file: path.join(dir, 'rfo-lock.json') }, snapshot: { file: '' }, trust: { policy: 'ignore' }, urls: { defaultFlagList: { name: 'Test', url: listUrl } } }))
+    .set('flagLists/local.json', JSON.stringify({ Local: { name: 'Local', default: false, baseurl: '', base: [], features: [] } }));
+  const instance = new FlagListPreprocessor(storage);
+  instance.flagListDir = 'flagLists';
+  instance.cache = new DownloadCache(new MemoryCacheStore());
+  instance.http = new HttpClient(new MemoryTransport().set(listUrl, flagList()).set(fileUrl, flagFile));
+  const processed = await instance.process();
+  assert.equal(instance.config.urls.defaultFlagList.url, listUrl);
+  assert.deepEqual(processed.map((list) => Object.keys(list)), [['Performance'], ['Local']]);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlagListSignature, InvalidSignatureError, SignatureError, UntrustedKeyError } from '../src/FlagListSignature';
+
+const { publicKey, privateKey } = FlagListSignature.generateKeyPair();
+const document = '{ Performance: {} }';
+
+test('verifies signatures of trusted keys', () => {
+  const signature = FlagListSignature.sign(document, privateKey, 'rfo');
+  assert.equal(FlagListSignature.check(document, signature, { rfo: publicKey }, 'require', 'list'), 'rfo');
+  assert.throws(() => FlagListSignature.check(`${document} `, signature, { rfo: publicKey }, 'require', 'list'), InvalidSignatureError);
+});
+
+test('the warn policy downgrades malformed keys & signatures', () => {
+  const warnings: SignatureError[] = [];
+  const signature = FlagListSignature.sign(document, privateKey, 'rfo');
+  assert.equal(FlagListSignature.check(document, signature, { rfo: 'not a key' }, 'warn', 'list', (error) => warnings.push(error)), null);
+  assert.equal(FlagListSignature.check(document, { keyId: 'rfo', signature: 'AAAA' }, { rfo: '-----BEGIN PUBLIC KEY-----\ngarbage' }, 'warn', 'list', (error) => warnings.push(error)), null);
+  assert.equal(warnings.length, 2);
+  assert.ok(warnings.every((warning) => warning instanceof SignatureError && warning.source === 'list'));
+});
+
+test('the require policy rejects malformed keys as signature errors', () => {
+  const signature = FlagListSignature.sign(document, privateKey, 'rfo');
+  assert.throws(() => FlagListSignature.check(document, signature, { rfo: 'not a key' }, 'require', 'list'), SignatureError);
+});
+
+test('key IDs only name trusted keys', () => {
+  const signature = { ...FlagListSignature.sign(document, privateKey), keyId: 'toString' };
+  assert.throws(() => FlagListSignature.verify(document, signature, { rfo: publicKey }, 'list'), UntrustedKeyError);
+});
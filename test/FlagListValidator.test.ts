@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FlagListValidationError, FlagListValidator, ValidationIssue } from '../src/FlagListValidator';
+import { FlagListPreprocessor } from '../src/FlagListPreprocessor';
+import { DownloadCache, MemoryCacheStore } from '../src/DownloadCache';
+import { HttpClient, MemoryTransport } from '../src/HttpClient';
+
+const digest = 'ab'.repeat(64);
+const file = (f: string) => ({ f, h: { algorithm: 'SHA512', digest } });
+
+/** A valid item with one feature of each kind */
+function item() {
+  return {
+    name: 'Performance', default: true, baseurl: '', base: [file('base.json')],
+    features: [
+      { name: 'FPS Cap', multiple: false, default: '60', options: { '60': [file('60.json')], '240': [file('240.json')] } },
+      { name: 'Effects', question: 'Which effects?', multiple: true, min: 0, max: 2, default: ['Shadows'], options: { Shadows: [], Bloom: [] } },
+    ],
+  };
+}
+
+test('valid lists have no issues', () => {
+  assert.deepEqual(FlagListValidator.validate({ Performance: item() }), []);
+});
+
+test('issues are addressed by path', () => {
+  const perf = item();
+  delete perf.features[0].options;
+  perf.features[1].min = 3;
+  perf.base[0].h.algorithm = 'MD5';
+  const issues = FlagListValidator.validate({ Perf: perf });
+  const at = (path: string) => issues.filter((issue) => issue.path === path).map((issue) => issue.message);
+  assert.deepEqual(at('lists["Perf"].features[0].options'), ['is required']);
+  assert.deepEqual(at('lists["Perf"].features[1].min'), ['must not be greater than max (2)', 'must not be greater than the number of options (2)']);
+  assert.deepEqual(at('lists["Perf"].base[0].h.algorithm'), ['MD5 is insecure and not supported']);
+  assert.ok(issues.every((issue) => issue.severity === 'error'));
+});
+
+test('defaults must be option keys', () => {
+  const perf = item();
+  perf.features[0].default = '144';
+  perf.features[1].default = ['Shadows', 'Shadows', 'Fog'];
+  const issues = FlagListValidator.validate({ Perf: perf });
+  assert.deepEqual(issues.map((issue) => issue.path), [
+    'lists["Perf"].features[0].default',
+    'lists["Perf"].features[1].default[1]',
+    'lists["Perf"].features[1].default[2]',
+    'lists["Perf"].features[1].default',
+  ]);
+  assert.match(issues[0].message, /must be one of the option keys: "60", "240"/);
+});
+
+test('strict mode throws every issue', () => {
+  const perf = item();
+  perf.features[0].default = '144';
+  assert.throws(() => FlagListValidator.check({ Perf: perf }, 'strict', 'test.json5', () => { }), (error: FlagListValidationError) => {
+    assert.ok(error instanceof FlagListValidationError);
+    assert.equal(error.source, 'test.json5');
+    assert.deepEqual(error.issues.map((issue) => issue.path), ['lists["Perf"].features[0].default']);
+    return true;
+  });
+});
+
+test('warn mode drops items with errors and keeps warnings', () => {
+  const broken = item();
+  delete broken.features[0].options;
+  const suspicious = item();
+  suspicious.features[1].name = 'FPS Cap';
+  const issues: ValidationIssue[] = [];
+  const checked = FlagListValidator.check({ Broken: broken, Suspicious: suspicious, Valid: item() }, 'warn', 'test.json5', (issue) => issues.push(issue));
+  assert.deepEqual(Object.keys(checked), ['Suspicious', 'Valid']);
+  assert.deepEqual(issues.map((issue) => `${issue.severity} ${issue.path}`), [
+    'error lists["Broken"].features[0].options',
+    'warning lists["Suspicious"].features[1].name',
+  ]);
+});
+
+test('directives and extensions are validated', () => {
+  const issues = FlagListValidator.validate({ $namespace: 'not valid!', $include: [{ name: 1 }], Ext: { extends: '', features: [{ name: 'FPS Cap', options: { '60': null, '30': 'x' } }] } });
+  assert.deepEqual(issues.map((issue) => issue.path), [
+    'lists["$namespace"]',
+    'lists["$include"][0]',
+    'lists["$include"][0].name',
+    'lists["Ext"].extends',
+    'lists["Ext"].features[0].options["30"]',
+  ]);
+});
+
+test('parse picks the format by extension', () => {
+  assert.equal((FlagListValidator.parse('[Perf]\nname = "Performance"', 'lists.toml') as any).Perf.name, 'Performance');
+  assert.deepEqual(FlagListValidator.parse('{ Perf: { name: "Performance", } }', 'lists.json5'), { Perf: { name: 'Performance' } });
+  assert.throws(() => FlagListValidator.parse('{ Perf: {} }', 'lists.json'));
+});
+
+/** Processes an inline list, with everything in memory but the lockfile */
+function process(t: { after: (fn: () => void) => void }, flagList: unknown, configOverrides: Record<string, any>) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-validate-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const preprocessor = new FlagListPreprocessor();
+  preprocessor.configOverrides = { lock: { file: path.join(dir, 'rfo-lock.json') }, snapshot: { file: '' }, ...configOverrides };
+  preprocessor.cache = new DownloadCache(new MemoryCacheStore());
+  preprocessor.http = new HttpClient(new MemoryTransport());
+  const issues: ValidationIssue[] = [];
+  preprocessor.events.on('validationIssue', (source, issue) => issues.push(issue));
+  return { issues, processed: preprocessor.process([flagList as any], false) };
+}
+
+test('preprocessing rejects lists with errors by default', async (t) => {
+  const perf = item();
+  delete perf.features[0].options;
+  await assert.rejects(process(t, { Perf: perf }, {}).processed, FlagListValidationError);
+});
+
+test('preprocessing in warn mode only processes valid items', async (t) => {
+  const broken = item();
+  delete broken.features[0].options;
+  const valid = { ...item(), base: [], features: [] };
+  const { processed, issues } = process(t, { Broken: broken, Valid: valid }, { validation: 'warn' });
+  const [list] = await processed;
+  assert.deepEqual(Object.keys(list), ['Valid']);
+  assert.deepEqual(issues.map((issue) => issue.path), ['lists["Broken"].features[0].options']);
+});
+
+test('check prints nothing by default', (t) => {
+  const warn = t.mock.method(console, 'warn', () => { });
+  const suspicious = item();
+  suspicious.features[1].name = 'FPS Cap';
+  FlagListValidator.check({ Suspicious: suspicious }, 'warn');
+  assert.equal(warn.mock.callCount(), 0);
+});
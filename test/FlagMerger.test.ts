@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlagConflictError, FlagLayer, FlagMerger, FlagSource } from '../src/FlagMerger';
+
+const source = (list: string | null, file: string, feature: string | null = null, option: string | null = null): FlagSource => ({ list, feature, option, file });
+const layer = (list: string | null, file: string, flags: Record<string, any>, remove?: string[]): FlagLayer => ({ source: source(list, file), flags, ...(remove ? { remove } : {}) });
+
+test('records the winning source and what it overrode', () => {
+  const { flags, provenance, conflicts } = FlagMerger.merge([
+    layer('Performance', 'base.json', { DFIntTaskSchedulerTargetFps: 60, FFlagA: true }),
+    { source: source('Performance', 'fps/240.json', 'FPS Cap', '240'), flags: { DFIntTaskSchedulerTargetFps: 240 } },
+  ]);
+  assert.deepEqual(flags, { DFIntTaskSchedulerTargetFps: 240, FFlagA: true });
+  assert.deepEqual(provenance.DFIntTaskSchedulerTargetFps.source, source('Performance', 'fps/240.json', 'FPS Cap', '240'));
+  assert.deepEqual(provenance.DFIntTaskSchedulerTargetFps.overridden, [{ value: 60, source: source('Performance', 'base.json') }]);
+  // Files of the same list override each other without conflicting
+  assert.deepEqual(conflicts, []);
+});
+
+test('lists disagreeing are conflicts, resolved by the policy', () => {
+  const layers = [
+    layer('Performance', 'a.json', { DFIntTaskSchedulerTargetFps: 240, FFlagSame: true }),
+    layer('Graphics', 'b.json', { DFIntTaskSchedulerTargetFps: 60, FFlagSame: true }),
+  ];
+  const lastWins = FlagMerger.merge(layers);
+  assert.equal(lastWins.flags.DFIntTaskSchedulerTargetFps, 60);
+  assert.deepEqual(lastWins.conflicts.map((conflict) => [conflict.flag, conflict.values.map((origin) => origin.value), conflict.resolved.source.list]), [
+    ['DFIntTaskSchedulerTargetFps', [240, 60], 'Graphics'],
+  ]);
+  assert.equal(FlagMerger.merge(layers, { policy: 'first-wins' }).flags.DFIntTaskSchedulerTargetFps, 240);
+  assert.throws(() => FlagMerger.merge(layers, { policy: 'error' }), (error: FlagConflictError) => {
+    assert.ok(error instanceof FlagConflictError);
+    assert.deepEqual(error.conflicts.map((conflict) => conflict.flag), ['DFIntTaskSchedulerTargetFps']);
+    assert.match(error.message, /DFIntTaskSchedulerTargetFps: 240 from Performance \(a\.json\), 60 from Graphics \(b\.json\)/);
+    return true;
+  });
+});
+
+test('priorities settle conflicts, even under the error policy', () => {
+  const layers = [
+    layer('Performance', 'a.json', { DFIntTaskSchedulerTargetFps: 240 }),
+    layer('Graphics', 'b.json', { DFIntTaskSchedulerTargetFps: 60 }),
+  ];
+  const { flags, conflicts } = FlagMerger.merge(layers, { policy: 'error', priority: { DFIntTaskSchedulerTargetFps: ['Performance', 'Graphics'] } });
+  assert.equal(flags.DFIntTaskSchedulerTargetFps, 240);
+  assert.equal(conflicts[0].resolved.source.list, 'Performance');
+});
+
+test('overwrites win and can remove flags', () => {
+  const { flags, provenance, removed } = FlagMerger.merge([
+    layer('Performance', 'a.json', { DFIntTaskSchedulerTargetFps: 240, FFlagRemoved: true, FFlagRestored: true }),
+    layer(null, 'overwrites', { DFIntTaskSchedulerTargetFps: 144 }),
+    layer(null, 'overwrites/Studio', {}, ['FFlagRemoved', 'FFlagRestored']),
+    layer(null, 'overwrites/Later', { FFlagRestored: false }),
+  ]);
+  assert.deepEqual(flags, { DFIntTaskSchedulerTargetFps: 144, FFlagRestored: false });
+  assert.equal(provenance.DFIntTaskSchedulerTargetFps.source.file, 'overwrites');
+  assert.deepEqual(removed.FFlagRemoved, { source: source(null, 'overwrites/Studio'), overridden: [{ value: true, source: source('Performance', 'a.json') }] });
+  assert.equal(removed.FFlagRestored, undefined);
+});
+
+test('describes sources for humans', () => {
+  assert.equal(FlagMerger.describe(source('Performance', '_cache/ab', 'FPS Cap', '240')), 'Performance > FPS Cap > 240 (_cache/ab)');
+  assert.equal(FlagMerger.describe(source('Performance', '_cache/ab')), 'Performance (_cache/ab)');
+  assert.equal(FlagMerger.describe(source(null, 'overwrites/Studio')), 'overwrites/Studio');
+});
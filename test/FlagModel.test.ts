@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlagModel, FlagTypeError } from '../src/FlagModel';
+
+test('parses flag keys into kinds and types', () => {
+  assert.deepEqual(FlagModel.parseKey('DFIntTaskSchedulerTargetFps'), { key: 'DFIntTaskSchedulerTargetFps', kind: 'DFInt', name: 'TaskSchedulerTargetFps', dynamic: true, type: 'integer' });
+  assert.equal(FlagModel.parseKey('FFlagDebugGraphicsPreferVulkan').type, 'boolean');
+  assert.equal(FlagModel.parseKey('SFStringTest').type, 'string');
+  assert.equal(FlagModel.parseKey('FLogNetwork').type, 'integer');
+  assert.deepEqual(FlagModel.parseKey('Flagrant'), { key: 'Flagrant', kind: 'legacy', name: 'Flagrant', dynamic: false, type: 'unknown' });
+});
+
+test('coerces values to the type their key expects', () => {
+  assert.deepEqual(FlagModel.coerce('FFlagFoo', 'False'), { ok: true, value: false });
+  assert.deepEqual(FlagModel.coerce('FFlagFoo', 1), { ok: true, value: true });
+  assert.deepEqual(FlagModel.coerce('FFlagFoo', 'yes'), { ok: false });
+  assert.deepEqual(FlagModel.coerce('DFIntFoo', ' -60 '), { ok: true, value: -60 });
+  assert.deepEqual(FlagModel.coerce('DFIntFoo', 1.5), { ok: false });
+  assert.deepEqual(FlagModel.coerce('FStringFoo', 240), { ok: true, value: '240' });
+  assert.deepEqual(FlagModel.coerce('FStringFoo', {}), { ok: false });
+  assert.deepEqual(FlagModel.coerce('LegacyKey', { any: 'thing' }), { ok: true, value: { any: 'thing' } });
+});
+
+test('normalizes flags, reporting what was coerced and rejected', () => {
+  const { flags, coerced, rejected } = FlagModel.normalize({ FFlagA: 'true', FIntB: 1.5, FStringC: 'ok', DFIntD: 60 });
+  assert.deepEqual(flags, { FFlagA: true, FStringC: 'ok', DFIntD: 60 });
+  assert.deepEqual(coerced, [{ flag: 'FFlagA', value: 'true', expected: 'boolean', coerced: true }]);
+  assert.deepEqual(rejected, [{ flag: 'FIntB', value: 1.5, expected: 'integer' }]);
+});
+
+test('strict mode throws on any mismatch, off passes everything through', () => {
+  assert.throws(() => FlagModel.normalize({ FFlagA: 'true' }, 'strict'), (error: FlagTypeError) => {
+    assert.ok(error instanceof FlagTypeError);
+    assert.deepEqual(error.issues.map((issue) => issue.flag), ['FFlagA']);
+    return true;
+  });
+  assert.deepEqual(FlagModel.normalize({ FFlagA: true }, 'strict').flags, { FFlagA: true });
+  assert.deepEqual(FlagModel.normalize({ FIntB: 1.5 }, 'off'), { flags: { FIntB: 1.5 }, coerced: [], rejected: [] });
+});
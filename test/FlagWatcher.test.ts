@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlagWatcher } from '../src/FlagWatcher';
+import { RFO } from '../src/RFO';
+
+/** An RFO whose install search always fails */
+function failingRFO() {
+  const rfo = new RFO();
+  rfo.versionSearcher.getRoots = async () => { throw new Error('roots unavailable'); };
+  return rfo;
+}
+
+test('failed checks are logged when nobody listens for errors', async () => {
+  const rfo = failingRFO();
+  const logged: string[] = [];
+  rfo.events.on('log', (entry) => entry.level === 'error' && logged.push(entry.message));
+  await new FlagWatcher(rfo).check();
+  assert.deepEqual(logged, ['Flag watcher: roots unavailable']);
+});
+
+test('failed checks are emitted to error listeners', async () => {
+  const watcher = new FlagWatcher(failingRFO());
+  const errors: Error[] = [];
+  watcher.on('error', (error) => errors.push(error));
+  await watcher.check();
+  assert.equal(errors[0].message, 'roots unavailable');
+});
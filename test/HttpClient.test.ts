@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpClient, MemoryTransport, TransportError, TransportRequest } from '../src/HttpClient';
+
+const url = 'https://example.com/flaglists.json5';
+const mirror = 'https://mirror.example.com/flaglists.json5';
+
+test('retries network errors, 429 & 5xx responses', async () => {
+  let calls = 0;
+  const transport = new MemoryTransport().set(url, () => {
+    calls++;
+    if (calls === 1) throw new Error('ECONNRESET');
+    return calls === 2 ? { status: 503, statusText: 'Unavailable', data: Buffer.alloc(0) } : { status: 200, statusText: 'OK', data: Buffer.from('{}') };
+  });
+  const response = await new HttpClient(transport, { retries: 3, retryDelay: 0 }).get(url);
+  assert.equal(response.status, 200);
+  assert.equal(calls, 3);
+});
+
+test('gives up after the configured retries', async () => {
+  const transport = new MemoryTransport().set(url, new Error('ECONNRESET'));
+  const error = await new HttpClient(transport, { retries: 2, retryDelay: 0 }).get(url).catch((error) => error);
+  assert.ok(error instanceof TransportError);
+  assert.equal(error.attempts, 3);
+  assert.equal(transport.requests.length, 3);
+});
+
+test('does not retry other statuses', async () => {
+  const transport = new MemoryTransport();
+  assert.equal((await new HttpClient(transport, { retries: 3, retryDelay: 0 }).get(url)).status, 404);
+  assert.equal(transport.requests.length, 1);
+});
+
+test('aborts attempts that time out', async () => {
+  const signals: AbortSignal[] = [];
+  const transport = new MemoryTransport().set(url, (request: TransportRequest) => {
+    signals.push(request.signal);
+    return new Promise(() => { });
+  });
+  const error = await new HttpClient(transport, { timeout: 10, retries: 1, retryDelay: 0 }).get(url).catch((error) => error);
+  assert.ok(error instanceof TransportError);
+  assert.match(error.message, /timed out after 10ms/);
+  assert.equal(signals.length, 2);
+  assert.ok(signals.every((signal) => signal.aborted));
+});
+
+test('falls back to mirrors in order', async () => {
+  const transport = new MemoryTransport().set(url, new Error('ECONNREFUSED')).set(mirror, '{}');
+  const { url: answered, response } = await new HttpClient(transport, { retries: 0 }).getFirst([url, 'https://down.example.com/flaglists.json5', mirror]);
+  assert.equal(answered, mirror);
+  assert.equal(response.data.toString(), '{}');
+  assert.deepEqual(transport.requests, [url, 'https://down.example.com/flaglists.json5', mirror]);
+});
+
+test('reports the last failure when no mirror answers', async () => {
+  const transport = new MemoryTransport().set(url, new Error('ECONNREFUSED')).set(mirror, new Error('ECONNRESET'));
+  await assert.rejects(new HttpClient(transport, { retries: 0 }).getFirst([url, mirror]), (error: TransportError) => error.url === mirror);
+  const { url: answered, response } = await new HttpClient(new MemoryTransport(), { retries: 0 }).getFirst([url, mirror]);
+  assert.equal(answered, mirror);
+  assert.equal(response.status, 404);
+});
+
+test('caps requests in flight', async () => {
+  let active = 0, peak = 0;
+  const transport = new MemoryTransport().set(url, async () => {
+    peak = Math.max(peak, ++active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    active--;
+    return { status: 200, statusText: 'OK', data: Buffer.alloc(0) };
+  });
+  const http = new HttpClient(transport, { concurrency: 2 });
+  await Promise.all(Array.from({ length: 6 }, () => http.get(url)));
+  assert.equal(peak, 2);
+});
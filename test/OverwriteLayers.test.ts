@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OverwriteLayers } from '../src/OverwriteLayers';
+
+test('validates layer scopes', () => {
+  const layer = (scope: unknown) => ({ name: 'Layer', scope, flags: {} }) as any;
+  for (const scope of ['global', { list: 'Graphics' }, { install: 'C:/Roblox/versions/version-test' }])
+    assert.doesNotThrow(() => OverwriteLayers.validate([layer(scope)]));
+  for (const scope of ['list', null, undefined, {}, { list: 1 }, { install: null }, ['global']])
+    assert.throws(() => OverwriteLayers.validate([layer(scope)]), /Invalid scope of overwrite layer Layer/);
+});
+
+test('rejects unnamed & duplicate layers', () => {
+  assert.throws(() => OverwriteLayers.validate([{ name: '', scope: 'global', flags: {} }]), /need a name/);
+  assert.throws(() => OverwriteLayers.validate([{ name: 'A', scope: 'global', flags: {} }, { name: 'A', scope: 'global', flags: {} }]), /Duplicate/);
+});
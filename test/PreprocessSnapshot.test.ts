@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DownloadCache, MemoryCacheStore } from '../src/DownloadCache';
+import { FlagListPreprocessor } from '../src/FlagListPreprocessor';
+import { HttpClient, MemoryTransport, TransportRequest } from '../src/HttpClient';
+import { PreprocessSnapshot, Snapshot } from '../src/PreprocessSnapshot';
+
+const listUrl = 'https://example.com/flaglists.json5';
+const fileUrl = 'https://example.com/flags/base.json';
+const flagFile = JSON.stringify({ DFIntTaskSchedulerTargetFps: 240 });
+
+/** A list with one hashed base file */
+function flagList(enabled: boolean = true) {
+  return JSON.stringify({
+    Performance: {
+      name: 'Performance', default: enabled, baseurl: '', features: [],
+      base: [{ f: fileUrl, h: { algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(flagFile)) } }],
+    },
+  });
+}
+
+function snapshotDir(t: { after: (fn: () => void) => void }) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-snapshot-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/** A preprocessor with its cache in memory, and its lockfile & snapshot in dir */
+function preprocessor(dir: string, transport: MemoryTransport) {
+  const preprocessor = new FlagListPreprocessor();
+  preprocessor.configOverrides = {
+    lock: { file: path.join(dir, 'rfo-lock.json') },
+    snapshot: { file: path.join(dir, 'rfo-snapshot.json') },
+    trust: { policy: 'ignore' },
+    hashChecks: { flags: true, update: false },
+    urls: { defaultFlagList: { name: 'Test', url: listUrl } },
+  };
+  preprocessor.config = preprocessor.loadConfig();
+  preprocessor.cache = new DownloadCache(new MemoryCacheStore());
+  preprocessor.http = new HttpClient(transport);
+  return preprocessor;
+}
+
+test('snapshots round-trip, and unreadable or outdated ones are ignored', async (t) => {
+  const snapshot = new PreprocessSnapshot(path.join(snapshotDir(t), 'rfo-snapshot.json'));
+  assert.equal(await snapshot.read(), null);
+  const contents: Snapshot = { version: 1, sources: [{ url: listUrl, digest: 'aa', etag: '"v1"' }], lists: [] };
+  await snapshot.write(contents);
+  assert.deepEqual(await snapshot.read(), contents);
+  writeFileSync(snapshot.file, JSON.stringify({ ...contents, version: 2 }));
+  assert.equal(await snapshot.read(), null);
+  writeFileSync(snapshot.file, '{ not json');
+  assert.equal(await snapshot.read(), null);
+  await snapshot.clear();
+  assert.equal(existsSync(snapshot.file), false);
+  await snapshot.clear();
+});
+
+test('inputs hash the same only when they are the same', () => {
+  assert.equal(PreprocessSnapshot.input(['default', 'memory://', { a: 1 }]), PreprocessSnapshot.input(['default', 'memory://', { a: 1 }]));
+  assert.notEqual(PreprocessSnapshot.input(['default', 'memory://', { a: 1 }]), PreprocessSnapshot.input(['default', '_cache', { a: 1 }]));
+  assert.match(PreprocessSnapshot.input(null), /^[0-9a-f]{128}$/);
+});
+
+test('unchanged lists are reused, changed ones processed again', async (t) => {
+  const dir = snapshotDir(t);
+  const transport = new MemoryTransport().set(listUrl, flagList()).set(fileUrl, flagFile);
+  const instance = preprocessor(dir, transport);
+  const [processed] = await instance.process();
+  assert.deepEqual(instance.reused, []);
+  assert.deepEqual((await instance.snapshot.read()).lists.map((list) => list.lock.url), [listUrl]);
+
+  assert.deepEqual(await instance.process(), [processed]);
+  assert.deepEqual(instance.reused, [listUrl]);
+
+  transport.set(listUrl, flagList(false));
+  const [changed] = await instance.process();
+  assert.deepEqual(instance.reused, []);
+  assert.equal(changed.Performance.default, false);
+
+  await instance.snapshot.clear();
+  await instance.process();
+  assert.deepEqual(instance.reused, []);
+});
+
+test('lists are requested conditionally, and reused when not modified', async (t) => {
+  const dir = snapshotDir(t);
+  const conditions: (string | undefined)[] = [];
+  const transport = new MemoryTransport().set(fileUrl, flagFile).set(listUrl, (request: TransportRequest) => {
+    conditions.push(request.headers?.['If-None-Match']);
+    return request.headers?.['If-None-Match'] === '"v1"'
+      ? { status: 304, statusText: 'Not Modified', data: Buffer.alloc(0), headers: { etag: '"v1"' } }
+      : { status: 200, statusText: 'OK', data: Buffer.from(flagList()), headers: { etag: '"v1"' } };
+  });
+  const instance = preprocessor(dir, transport);
+  const statuses: string[] = [];
+  instance.events.on('fetchEnd', (event) => statuses.push(event.status));
+  const [processed] = await instance.process();
+  assert.equal((await instance.snapshot.read()).sources[0].etag, '"v1"');
+
+  assert.deepEqual(await instance.process(), [processed]);
+  assert.deepEqual(conditions, [undefined, '"v1"']);
+  assert.deepEqual(statuses, ['fetched', 'not-modified']);
+  assert.deepEqual(instance.notModified, [listUrl]);
+  assert.deepEqual(instance.reused, [listUrl]);
+  assert.equal(transport.requests.filter((url) => url === fileUrl).length, 1);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ProcessedFlagList } from '../src/FlagListPreprocessor';
+import { ProfileManager } from '../src/ProfileManager';
+import { SelectionResolver } from '../src/SelectionResolver';
+import { MemoryStorage } from '../src/Storage';
+
+function processedFlagLists(): ProcessedFlagList[] {
+  return [{
+    Performance: {
+      name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: [], constraints: {},
+      features: [
+        { name: 'FPS Cap', question: null, options: { '60': [], '240': [] }, default: '60', value: '60', multiple: false, min: null, max: null, constraints: {}, optionConstraints: {} },
+        { name: 'Effects', question: null, options: { Shadows: [], Bloom: [] }, default: [], value: [], multiple: true, min: 0, max: 2, constraints: {}, optionConstraints: {} },
+      ],
+    },
+  }];
+}
+
+test('profiles round-trip through storage', async () => {
+  const lists = processedFlagLists();
+  lists[0].Performance.features[0].value = '240';
+  const profiles = new ProfileManager(new MemoryStorage());
+  await profiles.save(ProfileManager.capture('Competitive', lists, { FFlagTest: true }));
+  assert.deepEqual(await profiles.list(), ['Competitive']);
+  const fresh = processedFlagLists();
+  assert.deepEqual(ProfileManager.apply(await profiles.load('Competitive'), fresh), []);
+  assert.equal(fresh[0].Performance.features[0].value, '240');
+});
+
+test('prototype keys are not options', () => {
+  const lists = processedFlagLists();
+  const mismatches = ProfileManager.apply({
+    version: 1, name: 'Sneaky', overwrites: {},
+    lists: { Performance: { enabled: true, features: { 'FPS Cap': 'toString', Effects: ['constructor'] } } },
+  }, lists);
+  assert.deepEqual(mismatches.map((mismatch) => mismatch.reason), ['option "toString" no longer exists', 'option "constructor" no longer exists']);
+  assert.equal(lists[0].Performance.features[0].value, '60');
+  assert.deepEqual(lists[0].Performance.features[1].value, []);
+  assert.notEqual(SelectionResolver.validateValue(lists[0].Performance.features[0], 'toString'), null);
+  assert.notEqual(SelectionResolver.validateValue(lists[0].Performance.features[1], ['hasOwnProperty']), null);
+  assert.equal(SelectionResolver.isActive(lists, 'Performance/FPS Cap=__proto__', 'windows'), null);
+});
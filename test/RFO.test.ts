@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RFO } from '../src/RFO';
+import { SettingsBackup } from '../src/SettingsBackup';
+import { MemoryStorage } from '../src/Storage';
+
+/** Bloxstrap with a Player & a Studio install, sharing Modifications/ClientSettings/ClientAppSettings.json */
+function bloxstrap(t: { after: (fn: () => void) => void }) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-bloxstrap-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const player = path.join(dir, 'Bloxstrap', 'Versions', 'version-player');
+  const studio = path.join(dir, 'Bloxstrap', 'Versions', 'version-studio');
+  mkdirSync(player, { recursive: true });
+  mkdirSync(studio, { recursive: true });
+  writeFileSync(path.join(player, 'RobloxPlayerBeta.exe'), '');
+  writeFileSync(path.join(studio, 'RobloxStudioBeta.exe'), '');
+  const rfo = new RFO();
+  rfo.backups = new SettingsBackup(path.join(dir, '_backups'));
+  rfo.processedFlagList = [{
+    Performance: { name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: ['base.json'], features: [], constraints: {} },
+  }];
+  rfo.flagFiles.set('base.json', { DFIntTaskSchedulerTargetFps: 240 });
+  rfo.robloxPaths = [player, studio];
+  return { rfo, player, studio, settingsFile: path.join(dir, 'Bloxstrap', 'Modifications', 'ClientSettings', 'ClientAppSettings.json') };
+}
+
+test('installs sharing a settings file are written once', async (t) => {
+  const { rfo, player, settingsFile } = bloxstrap(t);
+  await rfo.applyFlags();
+  assert.deepEqual(rfo.lastApply.map((diff) => diff.installPath), [player]);
+  assert.deepEqual(JSON.parse(readFileSync(settingsFile, 'utf-8')), { DFIntTaskSchedulerTargetFps: 240 });
+});
+
+test('installs sharing a settings file cannot get different flags', async (t) => {
+  const { rfo, studio, settingsFile } = bloxstrap(t);
+  rfo.setOverwriteLayer({ name: 'Studio', scope: { install: studio }, flags: { DFIntTaskSchedulerTargetFps: 60 } });
+  await assert.rejects(rfo.applyFlags(), /share .*ClientAppSettings\.json, but would get different flags/);
+  assert.throws(() => readFileSync(settingsFile));
+});
+
+test('flag files are read through storage', async (t) => {
+  const { rfo, settingsFile } = bloxstrap(t);
+  rfo.flagFiles.clear();
+  rfo.storage = new MemoryStorage().set('base.json', JSON.stringify({ DFIntTaskSchedulerTargetFps: 144 }));
+  await rfo.applyFlags();
+  assert.deepEqual(JSON.parse(readFileSync(settingsFile, 'utf-8')), { DFIntTaskSchedulerTargetFps: 144 });
+});
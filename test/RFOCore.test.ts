@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RFOCore } from '../src/RFOCore';
+import { SelectionError } from '../src/SelectionResolver';
+
+function rfo() {
+  const rfo = new RFOCore();
+  rfo.processedFlagList = [{
+    Performance: {
+      name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: [], constraints: {},
+      features: [
+        { name: 'FPS Cap', question: null, options: { '60': [], '240': [] }, default: '60', value: '60', multiple: false, min: null, max: null, constraints: {}, optionConstraints: {} },
+        { name: 'Effects', question: null, options: { Shadows: [], Bloom: [], Grass: [] }, default: ['Shadows'], value: ['Shadows'], multiple: true, min: 1, max: 2, constraints: {}, optionConstraints: {} },
+      ],
+    },
+    Graphics: { name: 'Graphics', id: 'default:Graphics', baseurl: '', default: false, enabled: false, base: [], constraints: {}, features: [] },
+  }];
+  return rfo;
+}
+
+/** Asserts that fn throws a SelectionError with this message & path */
+function assertSelectionError(fn: () => unknown, message: string, path: string) {
+  assert.throws(fn, (error: SelectionError) => {
+    assert.ok(error instanceof SelectionError);
+    assert.equal(error.message, message);
+    assert.deepEqual(error.issues, [{ path, message }]);
+    return true;
+  });
+}
+
+test('setFeature selects valid options', () => {
+  const instance = rfo().setFeature('Performance', 'FPS Cap', '240').setFeature('Performance', 'Effects', ['Bloom', 'Grass']);
+  const [fpsCap, effects] = instance.processedFlagList[0].Performance.features;
+  assert.equal(fpsCap.value, '240');
+  assert.deepEqual(effects.value, ['Bloom', 'Grass']);
+});
+
+test('setFeature rejects fewer than min or more than max options', () => {
+  const instance = rfo();
+  assertSelectionError(() => instance.setFeature('Performance', 'Effects', []), 'Performance/Effects takes 1 to 2 options, got 0', 'Performance/Effects');
+  assertSelectionError(() => instance.setFeature('Performance', 'Effects', ['Shadows', 'Bloom', 'Grass']), 'Performance/Effects takes 1 to 2 options, got 3', 'Performance/Effects');
+  assert.deepEqual(instance.processedFlagList[0].Performance.features[1].value, ['Shadows']);
+});
+
+test('setFeature rejects unknown, duplicate & mistyped options', () => {
+  const instance = rfo();
+  assertSelectionError(() => instance.setFeature('Performance', 'FPS Cap', '30'), 'Unknown option 30 of Performance/FPS Cap, expected one of 60, 240', 'Performance/FPS Cap');
+  assertSelectionError(() => instance.setFeature('Performance', 'FPS Cap', ['60']), 'Performance/FPS Cap takes exactly one option', 'Performance/FPS Cap');
+  assertSelectionError(() => instance.setFeature('Performance', 'Effects', 'Bloom'), 'Performance/Effects takes a list of options', 'Performance/Effects');
+  assertSelectionError(() => instance.setFeature('Performance', 'Effects', ['Bloom', 'Bloom']), 'Option Bloom of Performance/Effects is selected twice', 'Performance/Effects');
+  assertSelectionError(() => instance.setFeature('Performance', 'Effects', ['toString']), 'Unknown option toString of Performance/Effects, expected one of Shadows, Bloom, Grass', 'Performance/Effects');
+});
+
+test('unknown lists & features are selection errors', () => {
+  const instance = rfo();
+  assertSelectionError(() => instance.setFeature('Performance', 'Resolution', '1080p'), 'Unknown feature Resolution in Performance', 'Performance/Resolution');
+  assertSelectionError(() => instance.setFeature('Missing', 'FPS Cap', '60'), 'Unknown flag list Missing', 'Missing');
+  assertSelectionError(() => instance.enableList('Missing'), 'Unknown flag list Missing', 'Missing');
+  assert.throws(() => new RFOCore().enableList('Graphics'), /Did not preprocess flags/);
+});
+
+test('values set behind setFeature are reported by validateSelection', () => {
+  const instance = rfo();
+  instance.processedFlagList[0].Performance.features[1].value = [];
+  assert.deepEqual(instance.validateSelection().issues, [{ path: 'Performance/Effects', message: 'Performance/Effects takes 1 to 2 options, got 0' }]);
+  assert.throws(() => instance.getFlagFiles(), SelectionError);
+  instance.resetToDefaults('Performance');
+  assert.deepEqual(instance.validateSelection(), { issues: [], violations: [] });
+});
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DownloadCache, MemoryCacheStore } from '../src/DownloadCache';
+import { FlagListPreprocessor } from '../src/FlagListPreprocessor';
+import { HttpClient, MemoryTransport } from '../src/HttpClient';
+import { RFO } from '../src/RFO';
+import { LogEntry, RFOEvents } from '../src/RFOEvents';
+import { SettingsBackup } from '../src/SettingsBackup';
+
+const listUrl = 'https://example.com/flaglists.json5';
+const fileUrl = 'https://example.com/flags/base.json';
+const flagFile = JSON.stringify({ DFIntTaskSchedulerTargetFps: 240 });
+const flagList = JSON.stringify({
+  Performance: {
+    name: 'Performance', default: true, baseurl: '', features: [],
+    base: [{ f: fileUrl, h: { algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(flagFile)) } }],
+  },
+});
+
+/** A preprocessor serving transport from memory, with every event it emits recorded in order */
+function recorded(t: { after: (fn: () => void) => void }, transport: MemoryTransport) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-events-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const preprocessor = new FlagListPreprocessor();
+  preprocessor.configOverrides = {
+    lock: { file: path.join(dir, 'rfo-lock.json') },
+    snapshot: { file: '' },
+    trust: { policy: 'ignore' },
+    hashChecks: { flags: true, update: false },
+    urls: { defaultFlagList: { name: 'Test', url: listUrl } },
+  };
+  preprocessor.config = preprocessor.loadConfig();
+  preprocessor.cache = new DownloadCache(new MemoryCacheStore());
+  preprocessor.http = new HttpClient(transport);
+  const events: [string, any][] = [];
+  for (const name of ['log', 'fetchStart', 'fetchEnd', 'downloadProgress', 'cacheHit', 'cacheMiss'] as const)
+    preprocessor.events.on(name, (event: any) => events.push([name, event]));
+  return { preprocessor, events };
+}
+
+test('log entries are emitted at or above the level', () => {
+  const events = new RFOEvents();
+  const entries: LogEntry[] = [];
+  events.on('log', (entry) => entries.push(entry));
+  const error = new Error('boom');
+  const logAll = () => {
+    events.error('error', error);
+    events.warn('warn');
+    events.info('info');
+    events.debug('debug');
+  };
+  logAll();
+  assert.deepEqual(entries.map((entry) => entry.level), ['error', 'warn', 'info', 'debug']);
+  assert.equal(entries[0].error, error);
+  assert.equal('error' in entries[1], false);
+
+  entries.length = 0;
+  events.level = 'warn';
+  logAll();
+  assert.deepEqual(entries.map((entry) => entry.message), ['error', 'warn']);
+  assert.equal(events.enabled('info'), false);
+
+  entries.length = 0;
+  events.level = 'silent';
+  logAll();
+  assert.deepEqual(entries, []);
+  assert.equal(events.enabled('silent'), false);
+});
+
+test('preprocessing reports fetches, downloads & cache hits', async (t) => {
+  const { preprocessor, events } = recorded(t, new MemoryTransport().set(listUrl, flagList).set(fileUrl, flagFile));
+  const fetch = { name: 'Test', url: listUrl };
+  const file = { url: fileUrl, algorithm: 'SHA512', digest: DownloadCache.digest('SHA512', Buffer.from(flagFile)) };
+  await preprocessor.process();
+  assert.deepEqual(events.filter(([name]) => name !== 'log'), [
+    ['fetchStart', fetch],
+    ['fetchEnd', { ...fetch, status: 'fetched', digest: DownloadCache.digest('SHA512', Buffer.from(flagList)) }],
+    ['cacheMiss', file],
+    ['downloadProgress', { url: fileUrl, loaded: flagFile.length, total: flagFile.length }],
+  ]);
+  assert.ok(events.some(([name, entry]) => name === 'log' && entry.level === 'info' && entry.message === `Fetched flag list Test from ${listUrl}`));
+
+  events.length = 0;
+  await preprocessor.process();
+  assert.deepEqual(events.filter(([name]) => name === 'cacheHit' || name === 'cacheMiss'), [['cacheHit', file]]);
+});
+
+test('lists that fail to fetch are reported as failed', async (t) => {
+  const { preprocessor, events } = recorded(t, new MemoryTransport());
+  preprocessor.events.level = 'warn';
+  await preprocessor.process().catch(() => undefined);
+  assert.deepEqual(events, [
+    ['fetchStart', { name: 'Test', url: listUrl }],
+    ['log', { level: 'warn', message: `Failed to fetch flag list Test from ${listUrl}: 404 Not Found` }],
+    ['fetchEnd', { name: 'Test', url: listUrl, status: 'failed', digest: null }],
+  ]);
+});
+
+test('applying reports every install as dry-run, written or unchanged', async (t) => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-events-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const rfo = new RFO();
+  rfo.backups = new SettingsBackup(path.join(dir, '_backups'));
+  rfo.processedFlagList = [{
+    Performance: { name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: ['base.json'], features: [], constraints: {} },
+  }];
+  rfo.flagFiles.set('base.json', { DFIntTaskSchedulerTargetFps: 240 });
+  rfo.robloxPaths = [path.join(dir, 'version-1')];
+  mkdirSync(rfo.robloxPaths[0]);
+  const statuses: string[] = [];
+  rfo.events.on('applied', (result) => statuses.push(`${result.status} +${result.diff.added.length}`));
+  await rfo.diffFlags();
+  await rfo.applyFlags();
+  await rfo.applyFlags();
+  assert.deepEqual(statuses, ['dry-run +1', 'written +1', 'unchanged +0']);
+});
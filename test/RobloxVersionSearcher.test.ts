@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RobloxVersionSearcher } from '../src/RobloxVersionSearcher';
+
+const fixture = path.join('RobloxTest', 'versions');
+
+test('finds the install in RobloxTest', async () => {
+  for (const root of [fixture, 'RobloxTest']) {
+    const searcher = new RobloxVersionSearcher({ roots: [root] });
+    const [install, ...rest] = await searcher.searchInstalls('windows');
+    assert.deepEqual(rest, []);
+    assert.equal(install.path, path.join(fixture, 'version-test'));
+    assert.equal(install.versionHash, 'test');
+    assert.equal(install.kind, 'player');
+    assert.ok(install.hasPlayer && !install.hasStudio && install.latest && install.active);
+    assert.deepEqual(await searcher.searchVersions('Windows'), [install.path]);
+    assert.deepEqual(await searcher.getRoots('windows'), [fixture]);
+  }
+});
+
+test('uses ROBLOXVERSION as an install', async (t) => {
+  const home = mkdtempSync(path.join(os.tmpdir(), 'rfo-home-'));
+  t.after(() => rmSync(home, { recursive: true, force: true }));
+  const searcher = new RobloxVersionSearcher({ env: { ROBLOXVERSION: path.join(fixture, 'version-test') }, home });
+  assert.deepEqual(await searcher.searchVersions('linux'), [path.join(fixture, 'version-test')]);
+});
+
+test('picks the newest install of each kind, skipping leftovers', async (t) => {
+  const root = mkdtempSync(path.join(os.tmpdir(), 'rfo-versions-'));
+  t.after(() => rmSync(root, { recursive: true, force: true }));
+  const install = (name: string, executable: string | null, mtime: number) => {
+    mkdirSync(path.join(root, name));
+    if (!executable) return;
+    writeFileSync(path.join(root, name, executable), '');
+    utimesSync(path.join(root, name, executable), mtime, mtime);
+  };
+  install('version-old', 'RobloxPlayerBeta.exe', 1000);
+  install('version-new', 'RobloxPlayerBeta.exe', 2000);
+  install('version-studio', 'RobloxStudioBeta.exe', 1500);
+  install('version-leftover', null, 0);
+  const installs = await new RobloxVersionSearcher({ roots: [root] }).searchInstalls('windows');
+  const active = installs.filter((candidate) => candidate.active).map((candidate) => path.basename(candidate.path));
+  assert.deepEqual(active.sort(), ['version-new', 'version-studio']);
+  assert.equal(installs.find((candidate) => candidate.path.endsWith('version-leftover'))?.kind, 'unknown');
+  assert.equal(installs.find((candidate) => candidate.path.endsWith('version-old'))?.latest, false);
+});
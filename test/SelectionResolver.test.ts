@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ProcessedFlagList } from '../src/FlagListPreprocessor';
+import { RFOCore } from '../src/RFOCore';
+import { SelectionConflictError, SelectionResolver } from '../src/SelectionResolver';
+
+/** The Vulkan renderer requires Graphics & conflicts with Legacy, which is Windows only - Mac Tweaks is macOS only */
+function processedFlagLists(): ProcessedFlagList[] {
+  return [{
+    Performance: {
+      name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: ['perf.json'], constraints: {},
+      features: [
+        {
+          name: 'Renderer', question: null, options: { D3D11: ['d3d11.json'], Vulkan: ['vulkan.json'] }, default: 'D3D11', value: 'D3D11', multiple: false, min: null, max: null,
+          constraints: {}, optionConstraints: { Vulkan: { requires: ['Graphics'], conflicts: ['Legacy'] } },
+        },
+        {
+          name: 'Mac Tweaks', question: null, options: { On: ['mac.json'] }, default: 'On', value: 'On', multiple: false, min: null, max: null,
+          constraints: { platforms: ['macos'], requires: ['Missing'] }, optionConstraints: {},
+        },
+      ],
+    },
+    Graphics: { name: 'Graphics', id: 'default:Graphics', baseurl: '', default: false, enabled: false, base: ['graphics.json'], constraints: {}, features: [] },
+    Legacy: { name: 'Legacy', id: 'default:Legacy', baseurl: '', default: false, enabled: false, base: [], constraints: { platforms: ['windows'], conflicts: ['Performance/Renderer=Vulkan'] }, features: [] },
+  }];
+}
+
+test('references are a list key or list/feature=option', () => {
+  assert.deepEqual(SelectionResolver.parseRef('Graphics'), { list: 'Graphics', feature: null, option: null });
+  assert.deepEqual(SelectionResolver.parseRef('Performance/FPS Cap=240'), { list: 'Performance', feature: 'FPS Cap', option: '240' });
+  assert.throws(() => SelectionResolver.parseRef('Performance/FPS Cap'), /Invalid selection reference/);
+  assert.throws(() => SelectionResolver.parseRef(''), /Invalid selection reference/);
+});
+
+test('requires & conflicts of selected options are checked', () => {
+  const lists = processedFlagLists();
+  assert.deepEqual(SelectionResolver.check(lists, 'linux'), []);
+  lists[0].Performance.features[0].value = 'Vulkan';
+  assert.deepEqual(SelectionResolver.check(lists, 'linux'), [
+    { path: 'Performance/Renderer=Vulkan', constraint: 'requires', ref: 'Graphics', message: 'Performance/Renderer=Vulkan requires Graphics, which is not enabled' },
+  ]);
+  lists[0].Graphics.enabled = true;
+  lists[0].Legacy.enabled = true;
+  assert.deepEqual(SelectionResolver.check(lists, 'win32').map((violation) => violation.message), [
+    'Performance/Renderer=Vulkan conflicts with Legacy, which is enabled',
+    'Legacy conflicts with Performance/Renderer=Vulkan, which is selected',
+  ]);
+});
+
+test('lists unavailable on the platform are violations, features unavailable on it are skipped', () => {
+  const lists = processedFlagLists();
+  lists[0].Legacy.enabled = true;
+  assert.deepEqual(SelectionResolver.check(lists, 'linux'), [
+    { path: 'Legacy', constraint: 'platforms', ref: null, message: 'Legacy is only available on windows, not linux' },
+  ]);
+  lists[0].Legacy.enabled = false;
+  assert.deepEqual(SelectionResolver.check(lists, 'darwin').map((violation) => violation.message), [
+    'Performance/Mac Tweaks requires Missing, which does not exist',
+  ]);
+  assert.equal(SelectionResolver.isActive(lists, 'Performance/Mac Tweaks=On', 'linux'), false);
+  assert.equal(SelectionResolver.isActive(lists, 'Performance/Mac Tweaks=Off', 'linux'), null);
+  assert.equal(SelectionResolver.platformName('darwin'), 'macos');
+});
+
+test('lists with a taken key are referred to by namespace:key', () => {
+  const lists = processedFlagLists();
+  lists.push({ Graphics: { ...lists[0].Graphics, id: 'community:Graphics', enabled: true } });
+  assert.deepEqual(SelectionResolver.entries(lists).map(([ref]) => ref), ['Performance', 'Graphics', 'Legacy', 'community:Graphics']);
+  assert.equal(SelectionResolver.findListItem(lists, 'Graphics').id, 'default:Graphics');
+  assert.equal(SelectionResolver.isActive(lists, 'community:Graphics', 'linux'), true);
+  assert.equal(SelectionResolver.isActive(lists, 'Graphics', 'linux'), false);
+});
+
+test('flag files are only listed for a satisfiable selection', () => {
+  const rfo = new RFOCore();
+  rfo.platform = 'linux';
+  rfo.processedFlagList = processedFlagLists();
+  assert.deepEqual(rfo.getFlagFiles(), ['perf.json', 'd3d11.json']);
+  rfo.setFeature('Performance', 'Renderer', 'Vulkan');
+  assert.throws(() => rfo.getFlagFiles(), (error: SelectionConflictError) => error instanceof SelectionConflictError && error.violations.length === 1);
+  assert.equal(rfo.validateSelection().violations[0].ref, 'Graphics');
+  rfo.enableList('Graphics');
+  assert.deepEqual(rfo.getFlagFiles(), ['perf.json', 'vulkan.json', 'graphics.json']);
+});
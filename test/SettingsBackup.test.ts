@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RFO } from '../src/RFO';
+import { SettingsBackup } from '../src/SettingsBackup';
+
+/** A Roblox install with a settings file, and a backup directory next to it */
+function install(t: { after: (fn: () => void) => void }, keep = 0) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-backup-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const installPath = path.join(dir, 'version-1');
+  const settingsFile = path.join(installPath, 'ClientSettings', 'ClientAppSettings.json');
+  mkdirSync(path.dirname(settingsFile), { recursive: true });
+  return { installPath, settingsFile, backup: new SettingsBackup(path.join(dir, '_backups'), keep) };
+}
+
+test('diff reports added, removed & changed flags', () => {
+  const diff = SettingsBackup.diff(
+    { FFlagA: true, DFIntB: 1, FStringC: 'x', FFlagSame: [1] },
+    { FFlagA: true, DFIntB: 2, FIntD: 4, FFlagSame: [1] },
+  );
+  assert.deepEqual(diff, {
+    added: [{ flag: 'FIntD', value: 4 }],
+    removed: [{ flag: 'FStringC', value: 'x' }],
+    changed: [{ flag: 'DFIntB', before: 1, after: 2 }],
+  });
+});
+
+test('snapshots are listed newest first & restored', async (t) => {
+  const { installPath, settingsFile, backup } = install(t);
+  writeFileSync(settingsFile, '{"FFlagA":true}');
+  const first = await backup.snapshot(installPath, settingsFile);
+  writeFileSync(settingsFile, '{"FFlagA":false}');
+  const second = await backup.snapshot(installPath, settingsFile);
+  writeFileSync(settingsFile, '{}');
+  assert.notEqual(first.id, second.id);
+  assert.deepEqual((await backup.list(installPath)).map((snapshot) => snapshot.id), [second.id, first.id]);
+  assert.deepEqual((await backup.list()).map((snapshot) => snapshot.id), [second.id, first.id]);
+  assert.equal(await backup.contents(first.id), '{"FFlagA":true}');
+  assert.deepEqual(await backup.restore(first.id), first);
+  assert.equal(readFileSync(settingsFile, 'utf-8'), '{"FFlagA":true}');
+});
+
+test('restoring a snapshot of a missing file deletes it', async (t) => {
+  const { installPath, settingsFile, backup } = install(t);
+  const snapshot = await backup.snapshot(installPath, settingsFile);
+  assert.equal(snapshot.existed, false);
+  writeFileSync(settingsFile, '{"FFlagA":true}');
+  await backup.restore(snapshot);
+  assert.equal(existsSync(settingsFile), false);
+});
+
+test('only the newest snapshots are kept', async (t) => {
+  const { installPath, settingsFile, backup } = install(t, 2);
+  const snapshots = [];
+  for (let i = 0; i < 3; i++) {
+    writeFileSync(settingsFile, JSON.stringify({ DFIntB: i }));
+    snapshots.push(await backup.snapshot(installPath, settingsFile));
+  }
+  assert.deepEqual((await backup.list(installPath)).map((snapshot) => snapshot.id), [snapshots[2].id, snapshots[1].id]);
+  await assert.rejects(backup.restore(snapshots[0].id), /Snapshot does not exist/);
+});
+
+test('snapshot IDs cannot point outside the backup directory', async (t) => {
+  const { backup } = install(t);
+  await assert.rejects(backup.restore('../../etc/passwd'), /Invalid snapshot ID/);
+});
+
+test('diffFlags writes nothing, applyFlags backs up & rollback restores', async (t) => {
+  const { installPath, settingsFile, backup } = install(t);
+  writeFileSync(settingsFile, JSON.stringify({ DFIntTaskSchedulerTargetFps: 60, FFlagOld: true }));
+  const rfo = new RFO();
+  rfo.backups = backup;
+  rfo.processedFlagList = [{
+    Performance: { name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: ['base.json'], features: [], constraints: {} },
+  }];
+  rfo.flagFiles.set('base.json', { DFIntTaskSchedulerTargetFps: 240, FFlagNew: true });
+  rfo.robloxPaths = [installPath];
+
+  const [diff] = await rfo.diffFlags();
+  assert.deepEqual({ added: diff.added, removed: diff.removed, changed: diff.changed }, {
+    added: [{ flag: 'FFlagNew', value: true }],
+    removed: [{ flag: 'FFlagOld', value: true }],
+    changed: [{ flag: 'DFIntTaskSchedulerTargetFps', before: 60, after: 240 }],
+  });
+  assert.deepEqual(JSON.parse(readFileSync(settingsFile, 'utf-8')), { DFIntTaskSchedulerTargetFps: 60, FFlagOld: true });
+  assert.deepEqual(await rfo.listBackups(), []);
+
+  await rfo.applyFlags();
+  assert.deepEqual(JSON.parse(readFileSync(settingsFile, 'utf-8')), { DFIntTaskSchedulerTargetFps: 240, FFlagNew: true });
+  assert.equal((await rfo.listBackups(installPath)).length, 1);
+
+  const [restored] = await rfo.rollback();
+  assert.equal(restored.file, settingsFile);
+  assert.deepEqual(JSON.parse(readFileSync(settingsFile, 'utf-8')), { DFIntTaskSchedulerTargetFps: 60, FFlagOld: true });
+  await assert.rejects(rfo.rollback([path.join(installPath, '..', 'version-2')]), /No backups found/);
+});
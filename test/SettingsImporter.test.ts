@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ProcessedFlagList } from '../src/FlagListPreprocessor';
+import { RFO } from '../src/RFO';
+import { SettingsImporter } from '../src/SettingsImporter';
+import { MemoryStorage } from '../src/Storage';
+
+const flagFiles: Record<string, Record<string, any>> = {
+  'base.json': { FFlagBase: true },
+  'fps60.json': { DFIntTaskSchedulerTargetFps: 60 },
+  'fps240.json': { DFIntTaskSchedulerTargetFps: 240 },
+  'shadows.json': { FFlagShadows: true },
+  'bloom.json': { FFlagBloom: true },
+  'mac.json': { FFlagMacTweaks: true },
+  'graphics.json': { FIntQuality: 1 },
+};
+const readFlagFile = (file: string) => flagFiles[file];
+
+function processedFlagLists(): ProcessedFlagList[] {
+  return [{
+    Performance: {
+      name: 'Performance', id: 'default:Performance', baseurl: '', default: true, enabled: true, base: ['base.json'], constraints: {},
+      features: [
+        { name: 'FPS Cap', question: null, options: { '60': ['fps60.json'], '240': ['fps240.json'] }, default: '60', value: '60', multiple: false, min: null, max: null, constraints: {}, optionConstraints: {} },
+        { name: 'Effects', question: null, options: { Shadows: ['shadows.json'], Bloom: ['bloom.json'] }, default: [], value: [], multiple: true, min: 0, max: 2, constraints: {}, optionConstraints: {} },
+        { name: 'Mac Tweaks', question: null, options: { On: ['mac.json'] }, default: 'On', value: 'On', multiple: false, min: null, max: null, constraints: { platforms: ['macos'] }, optionConstraints: {} },
+      ],
+    },
+    Graphics: { name: 'Graphics', id: 'default:Graphics', baseurl: '', default: false, enabled: false, base: ['graphics.json'], constraints: {}, features: [] },
+  }];
+}
+
+test('flags are classified as from a list, customized or unknown', () => {
+  const analysis = SettingsImporter.analyze({
+    FFlagBase: 'True',
+    DFIntTaskSchedulerTargetFps: 240,
+    FFlagShadows: true,
+    FIntQuality: 3,
+    FFlagCustom: true,
+  }, processedFlagLists(), { platform: 'linux', readFlagFile });
+  assert.deepEqual(analysis.flags.map((flag) => [flag.flag, flag.kind, flag.sources.map((source) => source.file)]), [
+    ['FFlagBase', 'list', ['base.json']],
+    ['DFIntTaskSchedulerTargetFps', 'list', ['fps240.json']],
+    ['FFlagShadows', 'list', ['shadows.json']],
+    ['FIntQuality', 'customized', ['graphics.json']],
+    ['FFlagCustom', 'unknown', []],
+  ]);
+  assert.deepEqual(analysis.lists, {
+    Performance: { enabled: true, features: { 'FPS Cap': '240', Effects: ['Shadows'] } },
+    Graphics: { enabled: false, features: {} },
+  });
+  assert.deepEqual(analysis.unmatched, { FIntQuality: 3, FFlagCustom: true });
+  assert.deepEqual(analysis.missing, []);
+});
+
+test('features without a matching option keep their default, and what it adds is missing', () => {
+  const analysis = SettingsImporter.analyze({ FFlagBase: true }, processedFlagLists(), { platform: 'darwin', readFlagFile });
+  assert.deepEqual(analysis.lists.Performance, { enabled: true, features: { 'FPS Cap': '60', Effects: [], 'Mac Tweaks': 'On' } });
+  assert.deepEqual(analysis.missing, ['DFIntTaskSchedulerTargetFps', 'FFlagMacTweaks']);
+  assert.deepEqual(analysis.unmatched, {});
+});
+
+test('lists whose base files are not all set stay disabled', () => {
+  const analysis = SettingsImporter.analyze({ DFIntTaskSchedulerTargetFps: 240 }, processedFlagLists(), { platform: 'linux', readFlagFile });
+  assert.equal(analysis.lists.Performance.enabled, false);
+  assert.equal(analysis.flags[0].kind, 'list');
+  assert.deepEqual(analysis.unmatched, { DFIntTaskSchedulerTargetFps: 240 });
+});
+
+test('imported settings are adopted as selections & overwrites', async (t) => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'rfo-import-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const installPath = path.join(dir, 'version-1');
+  mkdirSync(path.join(installPath, 'ClientSettings'), { recursive: true });
+  writeFileSync(path.join(installPath, 'ClientSettings', 'ClientAppSettings.json'), JSON.stringify({ FFlagBase: true, DFIntTaskSchedulerTargetFps: 240, FFlagCustom: true }));
+  const storage = new MemoryStorage();
+  for (const [file, flags] of Object.entries(flagFiles)) storage.set(file, JSON.stringify(flags));
+  const rfo = new RFO(storage);
+  rfo.platform = 'linux';
+  rfo.processedFlagList = processedFlagLists();
+  rfo.robloxPaths = [installPath];
+
+  const [imported] = await rfo.importSettings();
+  assert.equal(imported.installPath, installPath);
+  assert.deepEqual(rfo.adoptImport(imported, { overwrites: 'install' }), []);
+  assert.equal(rfo.processedFlagList[0].Performance.features[0].value, '240');
+  assert.deepEqual(rfo.flagOverwrites, {});
+  assert.deepEqual(rfo.mergeFlagFiles(rfo.getFlagSources(), installPath), { FFlagBase: true, DFIntTaskSchedulerTargetFps: 240, FFlagCustom: true });
+  assert.deepEqual(rfo.mergeFlagFiles(), { FFlagBase: true, DFIntTaskSchedulerTargetFps: 240 });
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import toml from 'toml';
+import { Toml } from '../src/Toml';
+
+const config = `# Vinegar
+[player]
+renderer = "Vulkan" # inline comment
+
+[player.fflags]
+DFIntTaskSchedulerTargetFps = 240
+"FFlag.Quoted" = true
+
+[studio.fflags]
+FStringTest = 'literal'
+`;
+
+test('tables are read with the toml parser', () => {
+  assert.deepEqual(Toml.readTable(config, 'player.fflags'), { DFIntTaskSchedulerTargetFps: 240, 'FFlag.Quoted': true });
+  assert.deepEqual(Toml.readTable(config, '"studio".fflags'), { FStringTest: 'literal' });
+  assert.equal(Toml.readTable(config, 'player.renderer'), null);
+  assert.equal(Toml.readTable(config, 'missing.fflags'), null);
+  assert.equal(Toml.readTable('', 'fflags'), null);
+  assert.throws(() => Toml.readTable('[fflags]\nbroken = ', 'fflags'));
+});
+
+test('replacing a table keeps the rest of the document', () => {
+  const replaced = Toml.replaceTable(config, 'player.fflags', { DFIntTaskSchedulerTargetFps: 60 });
+  assert.match(replaced, /^# Vinegar\n\[player\]\nrenderer = "Vulkan" # inline comment\n\n\[player\.fflags\]\nDFIntTaskSchedulerTargetFps = 60\n\n\[studio\.fflags\]/);
+  assert.deepEqual(Toml.readTable(replaced, 'player.fflags'), { DFIntTaskSchedulerTargetFps: 60 });
+  assert.deepEqual(Toml.readTable(replaced, 'studio.fflags'), { FStringTest: 'literal' });
+  const appended = Toml.replaceTable(config, 'fflags', { 'Quoted Key': 'a "value"' });
+  assert.deepEqual(Toml.readTable(appended, 'fflags'), { 'Quoted Key': 'a "value"' });
+});
+
+test('documents round-trip through the toml parser', () => {
+  const document = {
+    fflags: { DFIntTaskSchedulerTargetFps: 240, FFlagDebugGraphicsPreferD3D11: false, FStringTest: 'a\nb', DFFloatTest: 0.5 },
+    lists: [{ name: 'Performance', files: ['base.json'], skipped: undefined }, { name: 'Graphics', files: [] }],
+  };
+  const text = Toml.stringify(document);
+  assert.deepEqual(JSON.parse(JSON.stringify(toml.parse(text))), JSON.parse(JSON.stringify(document)));
+  assert.throws(() => Toml.stringify({ fflags: { DFIntTest: null } }), /no null/);
+  assert.throws(() => Toml.stringify({ fflags: { DFIntTest: Infinity } }), /no Infinity/);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const root = path.resolve(__dirname, '..');
+// Checks what gets published - run `pnpm build` first
+const skip = existsSync(path.join(root, 'dist', 'RFO.cjs')) && existsSync(path.join(root, 'dist', 'browser.mjs')) ? false : 'dist is not built';
+
+/** Runs a script in a fresh Node process inside the package, so the package resolves itself by name */
+function run(t: { after: (fn: () => void) => void }, args: string[]) {
+  const cwd = mkdtempSync(path.join(os.tmpdir(), 'rfo-dist-'));
+  t.after(() => rmSync(cwd, { recursive: true, force: true }));
+  return execFileSync(process.execPath, args, { cwd: root, encoding: 'utf-8', env: { ...process.env, RFO_CWD: cwd } }).trim();
+}
+
+const construct = `process.chdir(process.env.RFO_CWD); const rfo = new RFO(); console.log(typeof rfo.preprocessor.process, rfo.storage.constructor.name);`;
+
+test('the Node entry can be required', { skip }, (t) => {
+  assert.equal(run(t, ['-e', `const { RFO } = require('rfo.js'); ${construct}`]), 'function NodeStorage');
+});
+
+test('the Node entry can be imported', { skip }, (t) => {
+  assert.equal(run(t, ['--input-type=module', '-e', `import { RFO } from 'rfo.js'; ${construct}`]), 'function NodeStorage');
+});
+
+test('the browser entry only imports json5 & toml', { skip }, (t) => {
+  const bundle = readFileSync(path.join(root, 'dist', 'browser.mjs'), 'utf-8');
+  const imports = [...bundle.matchAll(/^import .* from '([^']+)';$/gm)].map((match) => match[1]);
+  assert.deepEqual(imports.sort(), ['json5', 'toml']);
+  assert.doesNotMatch(bundle, /\brequire\(|__dirname|process\.cwd/);
+  assert.equal(run(t, ['--input-type=module', '-e', `import { RFOCore } from 'rfo.js/browser'; console.log(new RFOCore().storage.constructor.name);`]), 'MemoryStorage');
+});